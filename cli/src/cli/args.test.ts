@@ -0,0 +1,24 @@
+import { describe, expect, it } from "bun:test";
+import { parseArgs } from "./args.ts";
+
+const parse = (...args: string[]) => parseArgs(["bun", "ralphy", ...args]);
+
+describe("parseArgs telemetry", () => {
+	it("leaves the task argument after --telemetry alone", () => {
+		const { options, task } = parse("--telemetry", "fix the bug");
+
+		expect(task).toBe("fix the bug");
+		expect(options.telemetry).toBe("anonymous");
+	});
+
+	it("takes the level from --telemetry-level", () => {
+		const { options, task } = parse("--telemetry-level", "full", "fix the bug");
+
+		expect(task).toBe("fix the bug");
+		expect(options.telemetry).toBe("full");
+	});
+
+	it("keeps telemetry off by default", () => {
+		expect(parse("fix the bug").options.telemetry).toBeUndefined();
+	});
+});
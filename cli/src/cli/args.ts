@@ -1,18 +1,20 @@
 import { existsSync, statSync } from "node:fs";
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import type { RuntimeOptions } from "../config/types.ts";
+import { parseDuration } from "../tasks/task-timeouts.ts";
 import { VERSION } from "../version.ts";
 
 /**
  * Create the CLI program with all options
+ * @param onCommand - Called when a subcommand is selected during parsing
  */
-export function createProgram(): Command {
+export function createProgram(onCommand: (command: CliCommand) => void = () => {}): Command {
 	const program = new Command();
 
 	program
 		.name("ralphy")
 		.description(
-			"Autonomous AI Coding Loop - Supports Claude Code, OpenCode, Codex, Cursor, Qwen-Code, Factory Droid and GitHub Copilot",
+			"Autonomous AI Coding Loop - Supports Claude Code, OpenCode, Codex, Cursor, Qwen-Code, Factory Droid, GitHub Copilot and Aider",
 		)
 		.version(VERSION)
 		.argument("[task]", "Single task to execute (brownfield mode)")
@@ -30,10 +32,31 @@ export function createProgram(): Command {
 		.option("--droid", "Use Factory Droid")
 		.option("--copilot", "Use GitHub Copilot")
 		.option("--gemini", "Use Gemini CLI")
+		.option("--aider", "Use Aider")
+		.option("--engine <name>", "Use an engine by name (built-in or from config engines:)")
+		.option("--mock-script <file>", "Script for --engine mock (default: .ralphy/mock.yaml)")
+		.option(
+			"--engine-fallback <engines>",
+			"Comma-separated engines to switch to when the engine is rate-limited or unavailable",
+		)
 		.option("--dry-run", "Show what would be done without executing")
 		.option("--max-iterations <n>", "Maximum iterations (0 = unlimited)", "0")
 		.option("--max-retries <n>", "Maximum retries per task", "3")
 		.option("--retry-delay <n>", "Delay between retries in seconds", "5")
+		.option("--max-cost <usd>", "Stop starting new tasks once the run has cost this many dollars")
+		.option("--max-tokens <n>", "Stop starting new tasks once the run has used this many tokens")
+		.option(
+			"--task-timeout <duration>",
+			"Kill an engine run that takes longer than this (e.g. 30m, 1h; bare numbers are minutes)",
+		)
+		.option("--idle-timeout <duration>", "Kill an engine that writes no output for this long")
+		.option("--record", "Save engine prompts, CLI output and results to .ralphy/recordings/")
+		.addOption(
+			new Option(
+				"--replay <dir>",
+				"Replay a --record directory through the engine parsers without running the CLI",
+			).conflicts("record"),
+		)
 		.option("--parallel", "Run tasks in parallel using worktrees")
 		.option(
 			"--sandbox",
@@ -51,17 +74,87 @@ export function createProgram(): Command {
 		.option("--github-label <label>", "Filter GitHub issues by label")
 		.option("--sync-issue <number>", "Sync PRD file to GitHub issue body on each iteration")
 		.option("--no-commit", "Don't auto-commit changes")
+		.option("--add-followups", "Append follow-up tasks reported by agents to the PRD")
 		.option("--browser", "Enable browser automation (agent-browser)")
 		.option("--no-browser", "Disable browser automation")
 		.option("--model <name>", "Override default model for the engine")
 		.option("--sonnet", "Shortcut for --claude --model sonnet")
 		.option("--no-merge", "Skip automatic branch merging after parallel execution")
 		.option("-v, --verbose", "Verbose output")
-		.allowUnknownOption();
+		.option("--telemetry", "Collect session telemetry")
+		.addOption(
+			new Option(
+				"--telemetry-level <level>",
+				"Telemetry privacy level, implies --telemetry (default: anonymous)",
+			).choices(["anonymous", "full"]),
+		)
+		.option("--telemetry-tag <tag>", "Tag the telemetry session (repeatable)", collect, [])
+		.allowUnknownOption()
+		.action(() => {
+			// Root action lets subcommands coexist with the [task] argument
+		});
+
+	addSubcommands(program, onCommand);
 
 	return program;
 }
 
+/**
+ * Collect repeated option values into an array
+ */
+function collect(value: string, previous: string[]): string[] {
+	return [...previous, value];
+}
+
+/**
+ * Subcommand selected on the command line (e.g. `ralphy telemetry export`)
+ */
+export type CliCommand =
+	| {
+			name: "telemetry-export";
+			format: string;
+			outputDir?: string;
+			outputPath?: string;
+	  }
+	| { name: "resume" }
+	| { name: "doctor" };
+
+/**
+ * Register subcommands on the program. Each action records the selected
+ * command so parseArgs can hand it back to the caller.
+ */
+function addSubcommands(program: Command, onCommand: (command: CliCommand) => void): void {
+	program
+		.command("resume")
+		.description("Resume an interrupted run from .ralphy/run-state.json")
+		.action(() => {
+			onCommand({ name: "resume" });
+		});
+
+	program
+		.command("doctor")
+		.description("Check engines, git, GitHub access and config before a run")
+		.action(() => {
+			onCommand({ name: "doctor" });
+		});
+
+	const telemetry = program.command("telemetry").description("Manage collected telemetry");
+	telemetry
+		.command("export")
+		.description("Export telemetry for eval pipelines")
+		.option("--format <format>", "Export format: deepeval, openai, raw or all", "raw")
+		.option("--dir <path>", "Telemetry directory", ".ralphy/telemetry")
+		.option("--output <path>", "Output file (single format only)")
+		.action((opts) => {
+			onCommand({
+				name: "telemetry-export",
+				format: opts.format,
+				outputDir: opts.dir,
+				outputPath: opts.output,
+			});
+		});
+}
+
 /**
  * Parse command line arguments into RuntimeOptions
  */
@@ -71,6 +164,7 @@ export function parseArgs(args: string[]): {
 	initMode: boolean;
 	showConfig: boolean;
 	addRule: string | undefined;
+	command: CliCommand | undefined;
 } {
 	// Find the -- separator and extract engine-specific arguments
 	const separatorIndex = args.indexOf("--");
@@ -82,7 +176,10 @@ export function parseArgs(args: string[]): {
 		ralphyArgs = args.slice(0, separatorIndex);
 	}
 
-	const program = createProgram();
+	let command: CliCommand | undefined;
+	const program = createProgram((selected) => {
+		command = selected;
+	});
 	program.parse(ralphyArgs);
 
 	const opts = program.opts();
@@ -98,6 +195,8 @@ export function parseArgs(args: string[]): {
 	else if (opts.droid) aiEngine = "droid";
 	else if (opts.copilot) aiEngine = "copilot";
 	else if (opts.gemini) aiEngine = "gemini";
+	else if (opts.aider) aiEngine = "aider";
+	if (opts.engine) aiEngine = opts.engine;
 
 	// Determine model override (--sonnet is shortcut for --model sonnet)
 	const modelOverride = opts.sonnet ? "sonnet" : opts.model || undefined;
@@ -154,11 +253,27 @@ export function parseArgs(args: string[]): {
 		githubLabel: opts.githubLabel || "",
 		syncIssue: opts.syncIssue ? Number.parseInt(opts.syncIssue, 10) || undefined : undefined,
 		autoCommit: opts.commit !== false,
+		addFollowups: opts.addFollowups || undefined,
 		browserEnabled: opts.browser === true ? "true" : opts.browser === false ? "false" : "auto",
 		modelOverride,
 		skipMerge: opts.merge === false,
 		useSandbox: opts.sandbox || false,
 		engineArgs,
+		engineFallback: opts.engineFallback
+			? (opts.engineFallback as string)
+					.split(",")
+					.map((name) => name.trim())
+					.filter(Boolean)
+			: undefined,
+		mockScript: opts.mockScript,
+		maxCost: opts.maxCost ? Number.parseFloat(opts.maxCost) || undefined : undefined,
+		maxTokens: opts.maxTokens ? Number.parseInt(opts.maxTokens, 10) || undefined : undefined,
+		taskTimeoutMs: opts.taskTimeout ? parseDuration(opts.taskTimeout) : undefined,
+		idleTimeoutMs: opts.idleTimeout ? parseDuration(opts.idleTimeout) : undefined,
+		record: opts.record || undefined,
+		replayDir: opts.replay,
+		telemetry: opts.telemetryLevel ?? (opts.telemetry ? "anonymous" : undefined),
+		telemetryTags: opts.telemetryTag,
 	};
 
 	return {
@@ -167,6 +282,7 @@ export function parseArgs(args: string[]): {
 		initMode: opts.init || false,
 		showConfig: opts.config || false,
 		addRule: opts.addRule,
+		command,
 	};
 }
 
@@ -56,6 +56,45 @@ export async function showConfig(workDir = process.cwd()): Promise<void> {
 		for (const path of config.boundaries.never_touch) {
 			console.log(`  • ${path}`);
 		}
+		console.log(pc.dim(`  On violation: ${config.boundaries.on_violation}`));
+		console.log("");
+	}
+
+	// Permissions
+	const { permissions } = config;
+	const permissionLines = [
+		...permissions.deny_paths.map((path) => `deny: ${path}`),
+		...permissions.read_only_paths.map((path) => `read-only: ${path}`),
+		...permissions.disallowed_tools.map((tool) => `no tool: ${tool}`),
+		...(permissions.network ? [] : ["no network"]),
+	];
+	if (permissionLines.length > 0) {
+		console.log(pc.bold("Permissions:"));
+		for (const line of permissionLines) {
+			console.log(`  • ${line}`);
+		}
+		console.log("");
+	}
+
+	// Custom engines
+	const customEngines = Object.entries(config.engines);
+	if (customEngines.length > 0) {
+		console.log(pc.bold("Custom Engines:"));
+		for (const [name, engine] of customEngines) {
+			console.log(
+				`  • ${name}: ${engine.command} (prompt via ${engine.prompt_via}, ${engine.output})`,
+			);
+		}
+		console.log("");
+	}
+
+	// Price overrides
+	const prices = Object.entries(config.pricing);
+	if (prices.length > 0) {
+		console.log(pc.bold("Pricing ($ per 1M tokens):"));
+		for (const [key, price] of prices) {
+			console.log(`  • ${key}: ${price.input} in / ${price.output} out`);
+		}
 		console.log("");
 	}
 }
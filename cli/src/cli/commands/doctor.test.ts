@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkConfig, formatCheck } from "./doctor.ts";
+
+describe("checkConfig", () => {
+	let dir: string;
+
+	const writeConfig = (content: string) => {
+		mkdirSync(join(dir, ".ralphy"), { recursive: true });
+		writeFileSync(join(dir, ".ralphy", "config.yaml"), content);
+	};
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-doctor-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("suggests --init when there is no config", () => {
+		const { check, config } = checkConfig(dir);
+
+		expect(check.status).toBe("warn");
+		expect(check.fix).toBe("Run 'ralphy --init'");
+		expect(config).toBeUndefined();
+	});
+
+	it("returns the parsed config when it matches the schema", () => {
+		writeConfig("commands:\n  test: bun test\n");
+
+		const { check, config } = checkConfig(dir);
+
+		expect(check.status).toBe("ok");
+		expect(config?.commands.test).toBe("bun test");
+	});
+
+	it("lists each invalid field by its path", () => {
+		writeConfig("commands:\n  test: 5\nengines:\n  mine:\n    args: []\n");
+
+		const { check } = checkConfig(dir);
+
+		expect(check.status).toBe("fail");
+		expect(check.detail).toContain("commands.test:");
+		expect(check.detail).toContain("engines.mine.command:");
+	});
+
+	it("reports YAML syntax errors", () => {
+		writeConfig("commands: [unclosed\n");
+
+		const { check } = checkConfig(dir);
+
+		expect(check.status).toBe("fail");
+		expect(check.detail).toStartWith("invalid YAML:");
+	});
+});
+
+describe("formatCheck", () => {
+	it("prints the fix under a failed check", () => {
+		const output = formatCheck({
+			name: "git",
+			status: "fail",
+			detail: "not found",
+			fix: "Install",
+		});
+
+		expect(output).toContain("git: not found");
+		expect(output.split("\n")[1]).toContain("→ Install");
+	});
+});
@@ -0,0 +1,352 @@
+import { existsSync, readFileSync } from "node:fs";
+import pc from "picocolors";
+import YAML from "yaml";
+import { getConfigPath } from "../../config/loader.ts";
+import { type RalphyConfig, RalphyConfigSchema } from "../../config/types.ts";
+import {
+	commandExists,
+	createEngine,
+	describeCapabilities,
+	execCommand,
+	listEngines,
+	registerCustomEngines,
+	setHttpConfig,
+} from "../../engines/index.ts";
+import { isAgentBrowserInstalled } from "../../execution/browser.ts";
+import { canUseWorktrees } from "../../git/worktree.ts";
+import { logError, logSuccess, logWarn } from "../../ui/logger.ts";
+
+/**
+ * Result of a single doctor check
+ */
+export interface DoctorCheck {
+	/** What was checked */
+	name: string;
+	/** ok: ready, warn: an optional feature won't work, fail: runs will abort */
+	status: "ok" | "warn" | "fail";
+	/** What was found */
+	detail: string;
+	/** What to do about a warn/fail */
+	fix?: string;
+}
+
+/**
+ * Install command and API key variables of the built-in engines
+ */
+const ENGINE_SETUP: Record<string, { install: string; authEnv: string[]; authArgs?: string[] }> = {
+	claude: { install: "npm install -g @anthropic-ai/claude-code", authEnv: ["ANTHROPIC_API_KEY"] },
+	opencode: { install: "npm install -g opencode-ai", authEnv: [] },
+	cursor: { install: "curl https://cursor.com/install -fsS | bash", authEnv: ["CURSOR_API_KEY"] },
+	codex: {
+		install: "npm install -g @openai/codex",
+		authEnv: ["OPENAI_API_KEY"],
+		authArgs: ["login", "status"],
+	},
+	qwen: { install: "npm install -g @qwen-code/qwen-code", authEnv: ["OPENAI_API_KEY"] },
+	droid: { install: "curl -fsSL https://app.factory.ai/cli | sh", authEnv: ["FACTORY_API_KEY"] },
+	copilot: { install: "npm install -g @github/copilot", authEnv: ["GH_TOKEN", "GITHUB_TOKEN"] },
+	gemini: {
+		install: "npm install -g @google/gemini-cli",
+		authEnv: ["GEMINI_API_KEY", "GOOGLE_API_KEY"],
+	},
+	aider: {
+		install: "python -m pip install aider-install && aider-install",
+		authEnv: ["ANTHROPIC_API_KEY", "OPENAI_API_KEY", "GEMINI_API_KEY", "DEEPSEEK_API_KEY"],
+	},
+};
+
+/** Engines that talk to a server instead of running a CLI */
+const SERVER_ENGINES = new Set(["http"]);
+
+/** CLIs that don't answer `--version` within this are reported without a version */
+const PROBE_TIMEOUT_MS = 10_000;
+
+/**
+ * Handle `ralphy doctor` - check engines, git, GitHub, browser and config
+ * before a run instead of failing halfway through one
+ */
+export async function runDoctor(workDir = process.cwd()): Promise<void> {
+	const { check: configCheck, config } = checkConfig(workDir);
+	const sections: [string, DoctorCheck[]][] = [
+		["Engines", await checkEngines(workDir, config)],
+		["Git", await checkGit(workDir)],
+		["GitHub", await checkGitHub(workDir)],
+		["Browser", [checkBrowser()]],
+		["Config", [configCheck]],
+	];
+
+	console.log("");
+	for (const [title, checks] of sections) {
+		console.log(pc.bold(`${title}:`));
+		for (const check of checks) {
+			console.log(formatCheck(check));
+		}
+		console.log("");
+	}
+
+	const checks = sections.flatMap(([, sectionChecks]) => sectionChecks);
+	const failed = checks.filter((check) => check.status === "fail").length;
+	const warned = checks.filter((check) => check.status === "warn").length;
+	if (failed > 0) {
+		logError(`${failed} problem(s) will stop ralphy from running`);
+		process.exitCode = 1;
+	} else if (warned > 0) {
+		logWarn(`Ready, but ${warned} optional feature(s) need setup`);
+	} else {
+		logSuccess("Everything looks good");
+	}
+}
+
+/**
+ * Format a check as a status line, followed by its fix when there is one
+ */
+export function formatCheck(check: DoctorCheck): string {
+	const icon =
+		check.status === "ok" ? pc.green("✓") : check.status === "warn" ? pc.yellow("!") : pc.red("✗");
+	const line = `  ${icon} ${check.name}: ${check.detail}`;
+	return check.fix ? `${line}\n    ${pc.dim(`→ ${check.fix}`)}` : line;
+}
+
+/**
+ * Validate .ralphy/config.yaml against the config schema
+ */
+export function checkConfig(workDir: string): { check: DoctorCheck; config?: RalphyConfig } {
+	const configPath = getConfigPath(workDir);
+	const name = ".ralphy/config.yaml";
+
+	if (!existsSync(configPath)) {
+		return {
+			check: { name, status: "warn", detail: "not found", fix: "Run 'ralphy --init'" },
+		};
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = YAML.parse(readFileSync(configPath, "utf-8"));
+	} catch (error) {
+		const message = error instanceof Error ? error.message.split("\n")[0] : String(error);
+		return {
+			check: { name, status: "fail", detail: `invalid YAML: ${message}`, fix: `Fix ${configPath}` },
+		};
+	}
+
+	const result = RalphyConfigSchema.safeParse(parsed ?? {});
+	if (!result.success) {
+		const issues = result.error.issues.map(
+			(issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+		);
+		return {
+			check: {
+				name,
+				status: "fail",
+				detail: issues.join("; "),
+				fix: `Fix these fields in ${configPath}`,
+			},
+		};
+	}
+
+	return { check: { name, status: "ok", detail: "valid" }, config: result.data };
+}
+
+/**
+ * Check every engine createEngine knows, including custom engines from config
+ */
+async function checkEngines(workDir: string, config?: RalphyConfig): Promise<DoctorCheck[]> {
+	const checks: DoctorCheck[] = [];
+
+	try {
+		registerCustomEngines(config?.engines ?? {});
+		setHttpConfig(config?.http);
+	} catch (error) {
+		checks.push({
+			name: "custom engines",
+			status: "fail",
+			detail: error instanceof Error ? error.message : String(error),
+			fix: "Rename the engine in the engines: section of .ralphy/config.yaml",
+		});
+	}
+
+	let available = 0;
+	// The mock engine replays a script for tests, it isn't something to install
+	for (const name of listEngines().filter((engineName) => engineName !== "mock")) {
+		const engine = createEngine(name);
+		const setup = ENGINE_SETUP[name];
+
+		if (SERVER_ENGINES.has(name)) {
+			// The engine logs why the server can't be reached
+			if (await engine.isAvailable()) {
+				available++;
+				checks.push({
+					name: engine.name,
+					status: "ok",
+					detail: `server at ${engine.cliCommand}, capabilities: ${describeCapabilities(engine.capabilities)}`,
+				});
+			} else {
+				checks.push({
+					name: engine.name,
+					status: "warn",
+					detail: `no server at ${engine.cliCommand}`,
+					fix: `Start an OpenAI-compatible server or set ${name}.base_url in .ralphy/config.yaml`,
+				});
+			}
+			continue;
+		}
+
+		if (!(await engine.isAvailable())) {
+			checks.push({
+				name: engine.name,
+				status: "warn",
+				detail: `'${engine.cliCommand}' not found`,
+				fix: setup ? `Install with: ${setup.install}` : `Put '${engine.cliCommand}' in your PATH`,
+			});
+			continue;
+		}
+
+		available++;
+		const details = [(await probeVersion(engine.cliCommand, workDir)) ?? "version unknown"];
+		if (setup) {
+			details.push(await describeAuth(engine.cliCommand, setup, workDir));
+		}
+		details.push(`capabilities: ${describeCapabilities(engine.capabilities)}`);
+		checks.push({ name: engine.name, status: "ok", detail: details.join(", ") });
+	}
+
+	if (available === 0) {
+		checks.push({
+			name: "engines",
+			status: "fail",
+			detail: "no engine CLI is installed",
+			fix: "Install one of the engines above (Claude Code is the default)",
+		});
+	}
+
+	return checks;
+}
+
+/**
+ * Describe how an engine authenticates, as far as that can be told from outside the CLI
+ */
+async function describeAuth(
+	command: string,
+	setup: { authEnv: string[]; authArgs?: string[] },
+	workDir: string,
+): Promise<string> {
+	const envVar = setup.authEnv.find((name) => process.env[name]);
+	if (envVar) {
+		return `auth: ${envVar} set`;
+	}
+	if (setup.authArgs) {
+		const { exitCode } = await execCommand(command, setup.authArgs, workDir, undefined, undefined, {
+			taskTimeoutMs: PROBE_TIMEOUT_MS,
+		});
+		return exitCode === 0 ? "auth: logged in" : "auth: not logged in";
+	}
+	return "auth: not detectable (uses the CLI's own login)";
+}
+
+/**
+ * First line of a CLI's `--version` output, or undefined when it fails
+ */
+async function probeVersion(command: string, workDir: string): Promise<string | undefined> {
+	try {
+		const { stdout, stderr, exitCode } = await execCommand(
+			command,
+			["--version"],
+			workDir,
+			undefined,
+			undefined,
+			{ taskTimeoutMs: PROBE_TIMEOUT_MS },
+		);
+		if (exitCode !== 0) return undefined;
+		return (stdout.trim() || stderr.trim()).split("\n")[0] || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Check git and whether --parallel can use worktrees here
+ */
+async function checkGit(workDir: string): Promise<DoctorCheck[]> {
+	const version = await probeVersion("git", workDir);
+	if (!version) {
+		return [
+			{
+				name: "git",
+				status: "fail",
+				detail: "not found",
+				fix: "Install git from https://git-scm.com/downloads",
+			},
+		];
+	}
+
+	const worktrees: DoctorCheck = canUseWorktrees(workDir)
+		? { name: "worktrees", status: "ok", detail: "supported (--parallel)" }
+		: {
+				name: "worktrees",
+				status: "warn",
+				detail: "not usable in this directory",
+				fix: "Run ralphy from the main checkout of a git repository, or use --parallel --sandbox",
+			};
+	return [{ name: "git", status: "ok", detail: version }, worktrees];
+}
+
+/**
+ * Check the gh CLI (--create-pr, --sync-issue) and GITHUB_TOKEN (--github)
+ */
+async function checkGitHub(workDir: string): Promise<DoctorCheck[]> {
+	let gh: DoctorCheck;
+	if (!(await commandExists("gh"))) {
+		gh = {
+			name: "gh",
+			status: "warn",
+			detail: "not found (needed for --create-pr and --sync-issue)",
+			fix: "Install from https://cli.github.com",
+		};
+	} else {
+		const { exitCode } = await execCommand(
+			"gh",
+			["auth", "status"],
+			workDir,
+			undefined,
+			undefined,
+			{
+				taskTimeoutMs: PROBE_TIMEOUT_MS,
+			},
+		);
+		gh =
+			exitCode === 0
+				? { name: "gh", status: "ok", detail: "authenticated" }
+				: {
+						name: "gh",
+						status: "warn",
+						detail: "not authenticated (needed for --create-pr and --sync-issue)",
+						fix: "Run 'gh auth login'",
+					};
+	}
+
+	const token: DoctorCheck = process.env.GITHUB_TOKEN
+		? { name: "GITHUB_TOKEN", status: "ok", detail: "set" }
+		: {
+				name: "GITHUB_TOKEN",
+				status: "warn",
+				detail: "not set (--github issue sources are rate-limited and can't see private repos)",
+				fix: "export GITHUB_TOKEN=<token with repo scope>",
+			};
+
+	return [gh, token];
+}
+
+/**
+ * Check the agent-browser CLI used by --browser
+ */
+function checkBrowser(): DoctorCheck {
+	return isAgentBrowserInstalled()
+		? { name: "agent-browser", status: "ok", detail: "installed" }
+		: {
+				name: "agent-browser",
+				status: "warn",
+				detail: "not found (needed for --browser)",
+				fix: "Install from https://agent-browser.dev",
+			};
+}
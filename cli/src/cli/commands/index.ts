@@ -2,3 +2,6 @@ export * from "./init.ts";
 export * from "./config.ts";
 export * from "./task.ts";
 export * from "./run.ts";
+export * from "./telemetry.ts";
+export * from "./resume.ts";
+export * from "./doctor.ts";
@@ -0,0 +1,127 @@
+import { existsSync } from "node:fs";
+import { loadConfig } from "../../config/loader.ts";
+import {
+	createEngine,
+	registerCustomEngines,
+	setHttpConfig,
+	setMockScript,
+} from "../../engines/index.ts";
+import { MERGE_STASH_MESSAGE, mergeCompletedBranches } from "../../execution/parallel.ts";
+import { clearRunState, readRunState } from "../../execution/run-state.ts";
+import { cleanupSandbox } from "../../execution/sandbox.ts";
+import { getCurrentBranch, popNamedStash, returnToBaseBranch } from "../../git/branch.ts";
+import { abortMerge, branchExists, isMergeInProgress } from "../../git/merge.ts";
+import { cleanupAgentWorktree } from "../../git/worktree.ts";
+import { CachedTaskSource, createTaskSource } from "../../tasks/index.ts";
+import { logDebug, logInfo, logSuccess, logWarn, setVerbose } from "../../ui/logger.ts";
+import { runLoop } from "./run.ts";
+
+/**
+ * Handle `ralphy resume` - recover an interrupted run from .ralphy/run-state.json
+ *
+ * 1. Abort a half-finished merge
+ * 2. Remove worktrees/sandboxes of unfinished tasks
+ * 3. Persist completions that were journaled but not flushed
+ * 4. Re-merge finished branches and restore the merge stash
+ * 5. Rerun the remaining tasks with the original options
+ */
+export async function runResume(workDir = process.cwd()): Promise<void> {
+	const state = readRunState(workDir);
+	if (!state) {
+		logInfo("No interrupted run to resume.");
+		return;
+	}
+
+	const { options } = state;
+	setVerbose(options.verbose);
+	logInfo(`Resuming run started at ${state.startedAt}`);
+
+	if (await isMergeInProgress(workDir)) {
+		logWarn("Aborting interrupted merge");
+		await abortMerge(workDir);
+	}
+
+	// Unfinished tasks are rerun from scratch, so drop their isolated copies
+	for (const task of Object.values(state.tasks)) {
+		if (task.status === "completed") continue;
+
+		if (task.worktreeDir && existsSync(task.worktreeDir)) {
+			const cleanup = await cleanupAgentWorktree(task.worktreeDir, task.branch ?? "", workDir);
+			if (cleanup.leftInPlace) {
+				logInfo(`Worktree left in place (uncommitted changes): ${task.worktreeDir}`);
+			}
+		}
+		if (task.sandboxDir && existsSync(task.sandboxDir)) {
+			await cleanupSandbox(task.sandboxDir);
+			logDebug(`Cleaned up sandbox: ${task.sandboxDir}`);
+		}
+	}
+
+	// Completions may not have been flushed to the PRD before the crash
+	const taskSource = new CachedTaskSource(
+		createTaskSource({
+			type: options.prdSource,
+			filePath: options.prdFile,
+			repo: options.githubRepo,
+			label: options.githubLabel,
+		}),
+	);
+	const remainingIds = new Set((await taskSource.getAllTasks()).map((task) => task.id));
+	for (const [id, task] of Object.entries(state.tasks)) {
+		if (task.status === "completed" && remainingIds.has(id)) {
+			logDebug(`Marking journaled completion: ${task.title}`);
+			await taskSource.markComplete(id);
+		}
+	}
+	await taskSource.flush();
+	taskSource.dispose();
+
+	// Re-merge branches of finished tasks that were not merged yet
+	if (options.parallel && !options.skipMerge) {
+		const alreadyMerged = new Set(state.merge?.merged ?? []);
+		const candidates = Object.values(state.tasks)
+			.filter((task) => task.status === "completed" && task.branch)
+			.map((task) => task.branch as string)
+			.filter((branch) => !alreadyMerged.has(branch));
+
+		const branches: string[] = [];
+		for (const branch of candidates) {
+			if (await branchExists(branch, workDir)) {
+				branches.push(branch);
+			}
+		}
+
+		const targetBranch = state.merge?.targetBranch || state.baseBranch;
+		if (branches.length > 0 && targetBranch) {
+			const config = loadConfig(workDir);
+			registerCustomEngines(config?.engines ?? {});
+			setHttpConfig(config?.http);
+			setMockScript(options.mockScript);
+			const engine = createEngine(options.aiEngine);
+			await mergeCompletedBranches(
+				branches,
+				targetBranch,
+				engine,
+				workDir,
+				options.modelOverride,
+				options.engineArgs,
+			);
+		}
+	}
+
+	if (state.startingBranch && (await getCurrentBranch(workDir)) !== state.startingBranch) {
+		logDebug(`Restoring starting branch: ${state.startingBranch}`);
+		await returnToBaseBranch(state.startingBranch, workDir);
+	}
+
+	if (state.merge?.stashed) {
+		if (await popNamedStash(MERGE_STASH_MESSAGE, workDir)) {
+			logSuccess("Restored local changes stashed before the merge phase");
+		} else {
+			logWarn(`Could not restore stash "${MERGE_STASH_MESSAGE}"; check \`git stash list\``);
+		}
+	}
+	// Recovery is done; rerun whatever is left (this starts a fresh journal)
+	clearRunState(workDir);
+	await runLoop(options);
+}
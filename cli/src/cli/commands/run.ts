@@ -1,20 +1,38 @@
 import { existsSync } from "node:fs";
-import { loadConfig } from "../../config/loader.ts";
+import { loadConfig, loadPermissions } from "../../config/loader.ts";
 import type { RuntimeOptions } from "../../config/types.ts";
-import { createEngine, isEngineAvailable } from "../../engines/index.ts";
-import type { AIEngineName } from "../../engines/types.ts";
+import { flushAllProgressWrites } from "../../config/writer.ts";
+import {
+	createEngineWithFallback,
+	describeCapabilities,
+	findUnenforcedPermissions,
+	findUnsupportedSettings,
+	registerCustomEngines,
+	setHttpConfig,
+	setMockScript,
+	setPricing,
+	startRecording,
+	startReplay,
+} from "../../engines/index.ts";
 import { isBrowserAvailable } from "../../execution/browser.ts";
 import { runParallel } from "../../execution/parallel.ts";
+import { clearRunState, startRunState } from "../../execution/run-state.ts";
 import { type ExecutionResult, runSequential } from "../../execution/sequential.ts";
+import { installSignalHandlers, onForceShutdown } from "../../execution/shutdown.ts";
+import { validateTaskEngines } from "../../execution/task-engine.ts";
 import { getDefaultBaseBranch } from "../../git/branch.ts";
 import { sendNotifications } from "../../notifications/webhook.ts";
 import { CachedTaskSource, createTaskSource } from "../../tasks/index.ts";
+import { endTelemetry, initTelemetry } from "../../telemetry/index.ts";
 import {
+	formatCost,
 	formatDuration,
 	formatTokens,
+	logDebug,
 	logError,
 	logInfo,
 	logSuccess,
+	logWarn,
 	setVerbose,
 } from "../../ui/logger.ts";
 import { notifyAllComplete } from "../../ui/notify.ts";
@@ -55,14 +73,38 @@ export async function runLoop(options: RuntimeOptions): Promise<void> {
 		process.exit(1);
 	}
 
-	// Check engine availability
-	const engine = createEngine(options.aiEngine as AIEngineName);
-	const available = await isEngineAvailable(options.aiEngine as AIEngineName);
+	// Check engine availability (a fallback chain moves past missing CLIs)
+	registerCustomEngines(config?.engines ?? {});
+	setMockScript(options.mockScript);
+	setPricing(config?.pricing ?? {});
+	setHttpConfig(config?.http);
+	if (options.replayDir) {
+		startReplay(options.replayDir);
+		logInfo(`Replaying engine transcripts from ${options.replayDir}`);
+	} else if (options.record) {
+		logInfo(`Recording engine transcripts to ${startRecording(workDir)}`);
+	}
+	const engine = createEngineWithFallback(
+		options.aiEngine,
+		options.engineFallback ?? config?.engine_fallback,
+	);
+	const available = await engine.isAvailable();
 
 	if (!available) {
 		logError(`${engine.name} CLI not found. Make sure '${engine.cliCommand}' is in your PATH.`);
 		process.exit(1);
 	}
+	logDebug(`${engine.name} capabilities: ${describeCapabilities(engine.capabilities)}`);
+	const unsupported = findUnsupportedSettings(engine, {
+		modelOverride: options.modelOverride,
+		budget: options.maxCost !== undefined || options.maxTokens !== undefined,
+	});
+	for (const warning of unsupported) {
+		logWarn(warning);
+	}
+	for (const warning of findUnenforcedPermissions(engine, loadPermissions(workDir))) {
+		logWarn(warning);
+	}
 
 	// Create task source with caching for better performance
 	// Caching reduces file I/O by loading tasks once and batching writes
@@ -81,6 +123,9 @@ export async function runLoop(options: RuntimeOptions): Promise<void> {
 		return;
 	}
 
+	// Engines named by tasks must exist before any task starts
+	await validateTaskEngines(await taskSource.getAllTasks());
+
 	// Get base branch if needed
 	let baseBranch = options.baseBranch;
 	if ((options.branchPerTask || options.parallel || options.createPr) && !baseBranch) {
@@ -110,7 +155,28 @@ export async function runLoop(options: RuntimeOptions): Promise<void> {
 	// Build active settings for display
 	const activeSettings = buildActiveSettings(options);
 
+	initTelemetry(options.aiEngine, options.parallel ? "parallel" : "sequential", {
+		enabled: options.telemetry !== undefined,
+		level: options.telemetry,
+		tags: options.telemetryTags,
+	});
+
+	// Journal the run so `ralphy resume` can recover from a crash
+	if (!options.dryRun) {
+		startRunState(workDir, options);
+	}
+
+	// First Ctrl-C stops scheduling; a second one force quits after saving completions
+	const uninstallSignalHandlers = installSignalHandlers();
+	const unregisterFlush = onForceShutdown(async () => {
+		await taskSource.flush();
+		await flushAllProgressWrites();
+		await endTelemetry();
+	});
+
 	// Run tasks
+	const budget = { maxCost: options.maxCost, maxTokens: options.maxTokens };
+	const timeouts = { taskTimeoutMs: options.taskTimeoutMs, idleTimeoutMs: options.idleTimeoutMs };
 	let result: ExecutionResult;
 	if (options.parallel) {
 		result = await runParallel({
@@ -139,6 +205,9 @@ export async function runLoop(options: RuntimeOptions): Promise<void> {
 			skipMerge: options.skipMerge,
 			engineArgs: options.engineArgs,
 			syncIssue: options.syncIssue,
+			addFollowups: options.addFollowups,
+			budget,
+			timeouts,
 		});
 	} else {
 		result = await runSequential({
@@ -163,12 +232,23 @@ export async function runLoop(options: RuntimeOptions): Promise<void> {
 			skipMerge: options.skipMerge,
 			engineArgs: options.engineArgs,
 			syncIssue: options.syncIssue,
+			addFollowups: options.addFollowups,
+			budget,
+			timeouts,
 		});
 	}
 
 	// Flush any pending task completions to disk and cleanup
+	unregisterFlush();
 	await taskSource.flush();
 	taskSource.dispose();
+	clearRunState(workDir);
+
+	const telemetry = await endTelemetry();
+	if (telemetry) {
+		logInfo(`Telemetry saved to ${telemetry.outputDir}`);
+	}
+	uninstallSignalHandlers();
 
 	// Summary
 	const duration = Date.now() - startTime;
@@ -177,10 +257,22 @@ export async function runLoop(options: RuntimeOptions): Promise<void> {
 	logInfo("Summary:");
 	console.log(`  Completed: ${result.tasksCompleted}`);
 	console.log(`  Failed:    ${result.tasksFailed}`);
+	if (result.tasksSkipped > 0) {
+		console.log(`  Skipped:   ${result.tasksSkipped} (dependency failed)`);
+	}
 	console.log(`  Duration:  ${formatDuration(duration)}`);
+	for (const { from, to, reason } of engine.getSwitches?.() ?? []) {
+		console.log(`  Engine:    ${from} -> ${to} (${reason.split("\n")[0]})`);
+	}
 	if (result.totalInputTokens > 0 || result.totalOutputTokens > 0) {
 		console.log(`  Tokens:    ${formatTokens(result.totalInputTokens, result.totalOutputTokens)}`);
 	}
+	if (result.totalCostUsd > 0) {
+		console.log(`  Cost:      ${formatCost(result.totalCostUsd)}`);
+	}
+	if (result.budgetExceeded) {
+		console.log(`  Budget:    ${result.budgetExceeded}`);
+	}
 	console.log("=".repeat(50));
 
 	// Send webhook notifications
@@ -188,6 +280,7 @@ export async function runLoop(options: RuntimeOptions): Promise<void> {
 	await sendNotifications(config, status, {
 		tasksCompleted: result.tasksCompleted,
 		tasksFailed: result.tasksFailed,
+		costUsd: result.totalCostUsd,
 	});
 
 	if (result.tasksCompleted > 0) {
@@ -1,13 +1,44 @@
-import { loadConfig } from "../../config/loader.ts";
+import { loadBoundaryViolationPolicy, loadConfig, loadPermissions } from "../../config/loader.ts";
 import type { RuntimeOptions } from "../../config/types.ts";
-import { logTaskProgress } from "../../config/writer.ts";
-import { createEngine, isEngineAvailable } from "../../engines/index.ts";
-import type { AIEngineName } from "../../engines/types.ts";
+import { flushAllProgressWrites, logTaskProgress } from "../../config/writer.ts";
+import {
+	createEngineWithFallback,
+	describeCapabilities,
+	findUnenforcedPermissions,
+	findUnsupportedSettings,
+	registerCustomEngines,
+	setHttpConfig,
+	setMockScript,
+	setPricing,
+	startRecording,
+	startReplay,
+	withEstimatedCost,
+} from "../../engines/index.ts";
+import { createAgentEventHandler } from "../../execution/agent-events.ts";
+import { BoundaryGuard, loadProtectedPaths } from "../../execution/boundary-guard.ts";
 import { isBrowserAvailable } from "../../execution/browser.ts";
+import { applyCompletionStatus } from "../../execution/completion-status.ts";
 import { buildPrompt } from "../../execution/prompt.ts";
+import { RetryContext } from "../../execution/retry-context.ts";
 import { isRetryableError, withRetry } from "../../execution/retry.ts";
+import { installSignalHandlers, onForceShutdown } from "../../execution/shutdown.ts";
+import { type VerificationResult, ensureVerified } from "../../execution/verification.ts";
 import { sendNotifications } from "../../notifications/webhook.ts";
-import { formatTokens, logError, logInfo, setVerbose } from "../../ui/logger.ts";
+import {
+	endTelemetry,
+	initTelemetry,
+	recordTaskComplete,
+	recordTaskStart,
+} from "../../telemetry/index.ts";
+import {
+	formatCost,
+	formatTokens,
+	logDebug,
+	logError,
+	logInfo,
+	logWarn,
+	setVerbose,
+} from "../../ui/logger.ts";
 import { notifyTaskComplete, notifyTaskFailed } from "../../ui/notify.ts";
 import { buildActiveSettings } from "../../ui/settings.ts";
 import { ProgressSpinner } from "../../ui/spinner.ts";
@@ -22,14 +53,35 @@ export async function runTask(task: string, options: RuntimeOptions): Promise<vo
 	// Set verbose mode
 	setVerbose(options.verbose);
 
-	// Check engine availability
-	const engine = createEngine(options.aiEngine as AIEngineName);
-	const available = await isEngineAvailable(options.aiEngine as AIEngineName);
+	// Check engine availability (a fallback chain moves past missing CLIs)
+	registerCustomEngines(config?.engines ?? {});
+	setMockScript(options.mockScript);
+	setPricing(config?.pricing ?? {});
+	setHttpConfig(config?.http);
+	if (options.replayDir) {
+		startReplay(options.replayDir);
+		logInfo(`Replaying engine transcripts from ${options.replayDir}`);
+	} else if (options.record) {
+		logInfo(`Recording engine transcripts to ${startRecording(workDir)}`);
+	}
+	const engine = createEngineWithFallback(
+		options.aiEngine,
+		options.engineFallback ?? config?.engine_fallback,
+	);
+	const available = await engine.isAvailable();
 
 	if (!available) {
 		logError(`${engine.name} CLI not found. Make sure '${engine.cliCommand}' is in your PATH.`);
 		process.exit(1);
 	}
+	logDebug(`${engine.name} capabilities: ${describeCapabilities(engine.capabilities)}`);
+	for (const warning of findUnsupportedSettings(engine, { modelOverride: options.modelOverride })) {
+		logWarn(warning);
+	}
+	const permissions = loadPermissions(workDir);
+	for (const warning of findUnenforcedPermissions(engine, permissions)) {
+		logWarn(warning);
+	}
 
 	logInfo(`Running task with ${engine.name}...`);
 
@@ -39,14 +91,16 @@ export async function runTask(task: string, options: RuntimeOptions): Promise<vo
 	}
 
 	// Build prompt
-	const prompt = buildPrompt({
+	const promptOptions = {
 		task,
+		engine,
 		autoCommit: options.autoCommit,
 		workDir,
 		browserEnabled: options.browserEnabled,
 		skipTests: options.skipTests,
 		skipLint: options.skipLint,
-	});
+	};
+	const prompt = buildPrompt(promptOptions);
 
 	// Build active settings for display
 	const activeSettings = buildActiveSettings(options);
@@ -61,55 +115,114 @@ export async function runTask(task: string, options: RuntimeOptions): Promise<vo
 		return;
 	}
 
+	initTelemetry(options.aiEngine, "single", {
+		enabled: options.telemetry !== undefined,
+		level: options.telemetry,
+		tags: options.telemetryTags,
+	});
+	recordTaskStart();
+	const retryContext = new RetryContext(workDir);
+
+	// A second Ctrl-C kills the engine; save what we have before exiting
+	const uninstallSignalHandlers = installSignalHandlers();
+	onForceShutdown(async () => {
+		spinner.error("Interrupted");
+		logTaskProgress(task, "failed", workDir);
+		await flushAllProgressWrites();
+		await endTelemetry();
+	});
+
 	try {
-		const result = await withRetry(
+		const boundaryGuard = await BoundaryGuard.start({
+			workDir,
+			boundaries: loadProtectedPaths(workDir),
+			policy: loadBoundaryViolationPolicy(workDir),
+		});
+		const attemptResult = await withRetry(
 			async () => {
-				spinner.updateStep("Working");
+				// Tell retries what went wrong last time, continuing the engine session if possible
+				const previousAttempt = await retryContext.getPreviousAttempt();
+				const attemptPrompt = previousAttempt
+					? buildPrompt({ ...promptOptions, previousAttempt })
+					: prompt;
+				const resume = retryContext.getResume(engine, previousAttempt);
+				spinner.updateStep(resume ? "Resuming" : "Working");
 
 				// Build engine options
 				const engineOptions = {
 					...(options.modelOverride && { modelOverride: options.modelOverride }),
 					...(options.engineArgs &&
 						options.engineArgs.length > 0 && { engineArgs: options.engineArgs }),
+					timeouts: {
+						taskTimeoutMs: options.taskTimeoutMs,
+						idleTimeoutMs: options.idleTimeoutMs,
+					},
+					...(resume && { resume }),
+					taskId: "task",
+					autoCommit: options.autoCommit,
+					permissions,
 				};
 
-				// Use streaming if available
-				if (engine.executeStreaming) {
-					return await engine.executeStreaming(
-						prompt,
-						workDir,
-						(step) => {
-							spinner.updateStep(step);
-						},
-						engineOptions,
-					);
-				}
+				// Only count the task as done once the configured commands pass
+				const verificationOptions = {
+					configDir: workDir,
+					workDir,
+					skipTests: options.skipTests,
+					skipLint: options.skipLint,
+					boundaries: boundaryGuard,
+					onStep: (step: string) => spinner.updateStep(step),
+					onFailure: (verification: VerificationResult) =>
+						retryContext.recordVerification(verification),
+				};
 
-				const res = await engine.execute(prompt, workDir, engineOptions);
+				// Use streaming if available
+				const res =
+					engine.capabilities.streaming && engine.executeStreaming
+						? await engine.executeStreaming(
+								attemptPrompt,
+								workDir,
+								createAgentEventHandler((step) => spinner.updateStep(step)),
+								engineOptions,
+							)
+						: await engine.execute(attemptPrompt, workDir, engineOptions);
+				retryContext.recordSession(engine, res);
 
 				if (!res.success && res.error && isRetryableError(res.error)) {
 					throw new Error(res.error);
 				}
 
-				return res;
+				return await ensureVerified(applyCompletionStatus(res), verificationOptions);
 			},
 			{
 				maxRetries: options.maxRetries,
 				retryDelay: options.retryDelay,
-				onRetry: (attempt) => {
+				onRetry: (attempt, error) => {
+					retryContext.recordError(error);
 					spinner.updateStep(`Retry ${attempt}`);
 				},
 			},
 		);
 
+		const result = withEstimatedCost(attemptResult, engine.id, options.modelOverride);
+
+		recordTaskComplete(
+			result.success,
+			result.inputTokens,
+			result.outputTokens,
+			prompt,
+			result.response,
+		);
+
 		if (result.success) {
 			const tokens = formatTokens(result.inputTokens, result.outputTokens);
-			spinner.success(`Done ${tokens}`);
+			const cost = result.costUsd !== undefined ? ` ${formatCost(result.costUsd)}` : "";
+			spinner.success(`Done ${tokens}${cost}`);
 
 			logTaskProgress(task, "completed", workDir);
 			await sendNotifications(config, "completed", {
 				tasksCompleted: 1,
 				tasksFailed: 0,
+				costUsd: result.costUsd,
 			});
 			notifyTaskComplete(task);
 
@@ -127,12 +240,15 @@ export async function runTask(task: string, options: RuntimeOptions): Promise<vo
 			await sendNotifications(config, "failed", {
 				tasksCompleted: 0,
 				tasksFailed: 1,
+				costUsd: result.costUsd,
 			});
 			notifyTaskFailed(task, result.error || "Unknown error");
+			await endTelemetry();
 			process.exit(1);
 		}
 	} catch (error) {
 		const errorMsg = error instanceof Error ? error.message : String(error);
+		recordTaskComplete(false, 0, 0, prompt);
 		spinner.error(errorMsg);
 		logTaskProgress(task, "failed", workDir);
 		await sendNotifications(config, "failed", {
@@ -140,6 +256,8 @@ export async function runTask(task: string, options: RuntimeOptions): Promise<vo
 			tasksFailed: 1,
 		});
 		notifyTaskFailed(task, errorMsg);
+		await endTelemetry();
 		process.exit(1);
 	}
+	uninstallSignalHandlers();
 }
@@ -9,7 +9,7 @@ import {
 import { logError, logInfo, logSuccess, logWarn } from "../../ui/logger.ts";
 
 /**
- * Handle export-telemetry command
+ * Handle `ralphy telemetry export` command
  */
 export async function exportTelemetryCommand(
 	format?: string,
@@ -45,7 +45,7 @@ export async function exportTelemetryCommand(
 		const exportFormat = validateFormat(format || "raw");
 		if (!exportFormat) {
 			logError(`Invalid format: ${format}`);
-			logInfo("Valid formats: deepeval, openai, raw");
+			logInfo("Valid formats: deepeval, openai, raw, all");
 			return;
 		}
 
@@ -1,7 +1,8 @@
 import { existsSync, readFileSync } from "node:fs";
 import { join } from "node:path";
 import YAML from "yaml";
-import { type RalphyConfig, RalphyConfigSchema } from "./types.ts";
+import type { EnginePermissions } from "../engines/types.ts";
+import { type BoundaryViolationPolicy, type RalphyConfig, RalphyConfigSchema } from "./types.ts";
 
 export const RALPHY_DIR = ".ralphy";
 export const CONFIG_FILE = "config.yaml";
@@ -72,6 +73,30 @@ export function loadBoundaries(workDir = process.cwd()): string[] {
 	return config?.boundaries.never_touch ?? [];
 }
 
+/**
+ * Get what to do when a task changes a protected path
+ */
+export function loadBoundaryViolationPolicy(workDir = process.cwd()): BoundaryViolationPolicy {
+	const config = loadConfig(workDir);
+	return config?.boundaries.on_violation ?? "revert";
+}
+
+/**
+ * Get the permission rules for engines: never_touch paths become read-only paths
+ */
+export function loadPermissions(workDir = process.cwd()): EnginePermissions {
+	const config = loadConfig(workDir);
+	return {
+		deniedPaths: config?.permissions.deny_paths ?? [],
+		readOnlyPaths: [
+			...(config?.boundaries.never_touch ?? []),
+			...(config?.permissions.read_only_paths ?? []),
+		],
+		disallowedTools: config?.permissions.disallowed_tools ?? [],
+		network: config?.permissions.network ?? true,
+	};
+}
+
 /**
  * Get test command from config
  */
@@ -37,8 +37,93 @@ export const BoundariesSchema = z.object({
 		.nullable()
 		.transform((v) => v ?? [])
 		.default([]),
+	/** What to do when a task changes a protected path: revert it, or also fail the task */
+	on_violation: z.enum(["revert", "fail"]).default("revert"),
 });
 
+/**
+ * What to do when a task changes a protected path
+ */
+export type BoundaryViolationPolicy = z.infer<typeof BoundariesSchema>["on_violation"];
+
+/**
+ * Permissions schema - rules engines enforce through their own permission settings
+ */
+export const PermissionsSchema = z.object({
+	/** Paths the agent may neither read nor modify */
+	deny_paths: z
+		.array(z.string())
+		.nullable()
+		.transform((v) => v ?? [])
+		.default([]),
+	/** Paths the agent may read but not modify (added to boundaries.never_touch) */
+	read_only_paths: z
+		.array(z.string())
+		.nullable()
+		.transform((v) => v ?? [])
+		.default([]),
+	/** Engine tools the agent may not use, by the engine's own tool name */
+	disallowed_tools: z
+		.array(z.string())
+		.nullable()
+		.transform((v) => v ?? [])
+		.default([]),
+	/** Whether the agent may use the network */
+	network: z.boolean().default(true),
+});
+
+/**
+ * Custom engine schema - drives any agent CLI without writing an engine class
+ */
+export const CustomEngineSchema = z.object({
+	/** Display name (defaults to the engine's key) */
+	name: z.string().optional(),
+	/** CLI command to run */
+	command: z.string(),
+	/** Argument template; `{prompt}` and `{model}` are substituted */
+	args: z.array(z.string()).default([]),
+	/** How the prompt reaches the CLI */
+	prompt_via: z.enum(["arg", "stdin", "file"]).default("arg"),
+	/** How to read the CLI's output */
+	output: z.enum(["text", "stream-json", "json"]).default("text"),
+	/** Dot paths into JSON output (output: json) */
+	response_path: z.string().default(""),
+	input_tokens_path: z.string().default(""),
+	output_tokens_path: z.string().default(""),
+});
+
+export type CustomEngineConfig = z.infer<typeof CustomEngineSchema>;
+
+/**
+ * HTTP engine schema - an OpenAI-compatible chat-completions endpoint (--engine http)
+ */
+export const HttpEngineSchema = z.object({
+	/** API base URL, up to and including /v1 */
+	base_url: z.string().default("http://localhost:11434/v1"),
+	/** Model to request (--model overrides it) */
+	model: z.string().default(""),
+	/** Environment variable holding the API key, sent as a Bearer token */
+	api_key_env: z.string().default(""),
+	/** Model turns before giving up on a task */
+	max_turns: z.number().int().positive().default(50),
+});
+
+export type HttpEngineConfig = z.infer<typeof HttpEngineSchema>;
+
+/**
+ * Model price schema - US dollars per million tokens
+ */
+export const ModelPriceSchema = z.object({
+	input: z.number().nonnegative(),
+	output: z.number().nonnegative(),
+	/** Cached prompt reads (defaults to the input price) */
+	cache_read: z.number().nonnegative().optional(),
+	/** Prompt cache writes (defaults to the input price) */
+	cache_write: z.number().nonnegative().optional(),
+});
+
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
 /**
  * Full Ralphy config schema
  */
@@ -51,7 +136,20 @@ export const RalphyConfigSchema = z.object({
 		.transform((v) => v ?? [])
 		.default([]),
 	boundaries: BoundariesSchema.default({}),
+	permissions: PermissionsSchema.default({}),
 	notifications: NotificationsSchema.default({}),
+	/** Custom engines by name, selectable with --engine <name> */
+	engines: z.record(z.string(), CustomEngineSchema).default({}),
+	/** Endpoint of the built-in http engine */
+	http: HttpEngineSchema.default({}),
+	/** Prices by engine, model or `engine/model`, merged over the built-in table */
+	pricing: z.record(z.string(), ModelPriceSchema).default({}),
+	/** Engines to switch to when the primary one is rate-limited or unavailable */
+	engine_fallback: z
+		.array(z.string())
+		.nullable()
+		.transform((v) => v ?? [])
+		.default([]),
 });
 
 /**
@@ -105,6 +203,8 @@ export interface RuntimeOptions {
 	syncIssue?: number;
 	/** Auto-commit changes */
 	autoCommit: boolean;
+	/** Append follow-up tasks reported by agents to the PRD */
+	addFollowups?: boolean;
 	/** Browser automation mode: 'auto' | 'true' | 'false' */
 	browserEnabled: "auto" | "true" | "false";
 	/** Override default model for the engine */
@@ -115,6 +215,26 @@ export interface RuntimeOptions {
 	useSandbox?: boolean;
 	/** Additional arguments to pass to the engine CLI */
 	engineArgs?: string[];
+	/** Engines to fall back to, in order (overrides engine_fallback in config) */
+	engineFallback?: string[];
+	/** Script file for the mock engine */
+	mockScript?: string;
+	/** Run budget in dollars (--max-cost) */
+	maxCost?: number;
+	/** Run budget in input + output tokens (--max-tokens) */
+	maxTokens?: number;
+	/** Wall-clock limit for each engine run (--task-timeout) */
+	taskTimeoutMs?: number;
+	/** Kill an engine that writes no output for this long (--idle-timeout) */
+	idleTimeoutMs?: number;
+	/** Save each engine call's prompt, CLI output and result under .ralphy/recordings/ */
+	record?: boolean;
+	/** Feed recorded CLI output to the engines instead of running them (--replay) */
+	replayDir?: string;
+	/** Telemetry privacy level (undefined = telemetry disabled) */
+	telemetry?: "anonymous" | "full";
+	/** Tags attached to the telemetry session */
+	telemetryTags?: string[];
 }
 
 /**
@@ -44,6 +44,8 @@ boundaries:
     # - "src/legacy/**"
     # - "migrations/**"
     # - "*.lock"
+  # Changes to these paths are reverted after each task; "fail" also fails the task
+  on_violation: revert
 `;
 }
 
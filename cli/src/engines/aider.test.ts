@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, spyOn } from "bun:test";
+import { tmpdir } from "node:os";
+import { AiderEngine, parseAiderUsage } from "./aider.ts";
+import * as baseModule from "./base.ts";
+
+const OUTPUT = `Aider v0.86.1
+Main model: anthropic/claude-sonnet-4 with diff edit format
+Git repo: .git with 42 files
+Added the dark mode toggle to the settings page.
+Tokens: 12k sent, 1.2k cache write, 8.5k cache hit, 300 received. Cost: $0.03 message, $0.03 session.
+Applied edit to src/settings.tsx
+Tokens: 2.4k sent, 1.1k received. Cost: $0.0125 message, $0.0425 session.
+Commit 1a2b3c4 feat: add dark mode toggle`;
+
+describe("parseAiderUsage", () => {
+	it("sums token and cost lines over every model call", () => {
+		const { costUsd, ...tokens } = parseAiderUsage(OUTPUT);
+
+		expect(tokens).toEqual({
+			inputTokens: 14400,
+			outputTokens: 1400,
+			cacheWriteTokens: 1200,
+			cacheReadTokens: 8500,
+		});
+		expect(costUsd).toBeCloseTo(0.0425);
+	});
+
+	it("reads token lines without a cost", () => {
+		expect(parseAiderUsage("Tokens: 1.5M sent, 271 received.")).toEqual({
+			inputTokens: 1_500_000,
+			outputTokens: 271,
+		});
+	});
+});
+
+describe("AiderEngine", () => {
+	const engine = new AiderEngine();
+	const workDir = tmpdir();
+	let capturedArgs: string[] = [];
+
+	const mockAider = (stdout: string, exitCode = 0) =>
+		spyOn(baseModule, "execCommand").mockImplementation(async (_cmd, args) => {
+			capturedArgs = args;
+			return { stdout, stderr: "", exitCode };
+		});
+
+	afterEach(() => {
+		capturedArgs = [];
+	});
+
+	it("runs non-interactively and returns the answer without status lines", async () => {
+		const spy = mockAider(OUTPUT);
+
+		const result = await engine.execute("add dark mode", workDir, {
+			modelOverride: "sonnet",
+			engineArgs: ["--map-tokens", "0"],
+		});
+		spy.mockRestore();
+
+		expect(result.success).toBe(true);
+		expect(result.response).toBe("Added the dark mode toggle to the settings page.");
+		expect(result.costUsd).toBeCloseTo(0.0425);
+		expect(capturedArgs).toContain("--yes-always");
+		expect(capturedArgs).toContain("--message-file");
+		expect(capturedArgs.slice(-4)).toEqual(["--model", "sonnet", "--map-tokens", "0"]);
+	});
+
+	it("maps autoCommit onto Aider's auto-commits", async () => {
+		const spy = mockAider("Done");
+
+		await engine.execute("task", workDir, { autoCommit: false });
+		expect(capturedArgs).toContain("--no-auto-commits");
+		await engine.execute("task", workDir, { autoCommit: true });
+		expect(capturedArgs).toContain("--auto-commits");
+		await engine.execute("task", workDir);
+		expect(capturedArgs.some((arg) => arg.includes("auto-commits"))).toBe(false);
+		spy.mockRestore();
+	});
+
+	it("reports litellm errors Aider didn't recover from", async () => {
+		const spy = mockAider(
+			"litellm.RateLimitError: AnthropicException - rate limited\nRetrying in 0.2 seconds...\nTokens: 1k sent, 10 received.\nlitellm.AuthenticationError: invalid x-api-key",
+		);
+
+		const result = await engine.execute("task", workDir);
+		spy.mockRestore();
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("Authentication failed: invalid x-api-key");
+	});
+});
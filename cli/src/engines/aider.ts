@@ -0,0 +1,264 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { logDebug } from "../ui/logger.ts";
+import { BaseAIEngine, execCommand, execCommandStreaming, formatCommandError } from "./base.ts";
+import { type AgentEventParser, createTextEventParser } from "./events.ts";
+import type { AIResult, AgentEventCallback, EngineCapabilities, EngineOptions } from "./types.ts";
+
+/** Directory for temporary prompt files */
+const TEMP_DIR = join(tmpdir(), "ralphy-aider");
+
+/** `Tokens: 12k sent, 1.2k cache write, 8.5k cache hit, 300 received. Cost: $0.03 message, ...` */
+const TOKENS_PATTERN = /^Tokens:\s+(.+?)\.(?=\s|$)(?:\s+Cost:\s+\$([\d.]+) message)?/;
+
+/** Status lines Aider prints around the model's answer */
+const STATUS_PATTERNS = [
+	/^Aider v/,
+	/^(?:Main|Weak|Editor) model:/,
+	/^Git repo:/,
+	/^Repo-map:/,
+	/^Tokens:/,
+	/^Applied edit to /,
+	/^Commit [0-9a-f]{7,} /,
+	/^https:\/\/aider\.chat\//,
+];
+
+/** litellm errors Aider reports, e.g. `litellm.RateLimitError: ...` */
+const LITELLM_ERROR_PATTERN = /litellm\.(\w+Error):\s*(.*)/;
+
+/**
+ * Token counts and cost Aider reported, summed over every model call of the run
+ */
+export interface AiderUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cacheReadTokens?: number;
+	cacheWriteTokens?: number;
+	costUsd?: number;
+}
+
+/**
+ * Parse an Aider token count like "271", "2.4k" or "1.2M"
+ */
+function parseTokenCount(value: string): number {
+	const number = Number.parseFloat(value);
+	if (Number.isNaN(number)) return 0;
+	const suffix = value.trim().slice(-1).toLowerCase();
+	return Math.round(suffix === "k" ? number * 1000 : suffix === "m" ? number * 1_000_000 : number);
+}
+
+/**
+ * Sum the `Tokens: ... Cost: ...` lines Aider prints after each model call
+ */
+export function parseAiderUsage(output: string): AiderUsage {
+	const usage: AiderUsage = { inputTokens: 0, outputTokens: 0 };
+	for (const line of output.split("\n")) {
+		const match = line.trim().match(TOKENS_PATTERN);
+		if (!match) continue;
+
+		for (const part of match[1].split(",")) {
+			const [, count, label] = part.trim().match(/^([\d.]+[kKmM]?)\s+(.+)$/) ?? [];
+			if (!count) continue;
+			const tokens = parseTokenCount(count);
+			if (label === "sent") usage.inputTokens += tokens;
+			else if (label === "received") usage.outputTokens += tokens;
+			else if (label === "cache hit") usage.cacheReadTokens = (usage.cacheReadTokens ?? 0) + tokens;
+			else if (label === "cache write")
+				usage.cacheWriteTokens = (usage.cacheWriteTokens ?? 0) + tokens;
+		}
+		if (match[2]) {
+			usage.costUsd = (usage.costUsd ?? 0) + Number.parseFloat(match[2]);
+		}
+	}
+	return usage;
+}
+
+/**
+ * Aider's plain-text output: applied edits and per-call token lines, everything
+ * else as text
+ */
+function createAiderEventParser(): AgentEventParser {
+	const text = createTextEventParser();
+
+	return (line) => {
+		const trimmed = line.trim();
+		const edit = trimmed.match(/^Applied edit to (.+)$/);
+		if (edit?.[1]) {
+			return [{ type: "file_edit", path: edit[1] }];
+		}
+		if (TOKENS_PATTERN.test(trimmed)) {
+			const { inputTokens, outputTokens } = parseAiderUsage(trimmed);
+			return [{ type: "token_usage", inputTokens, outputTokens }];
+		}
+		return text(line);
+	};
+}
+
+/**
+ * Aider AI Engine
+ * https://aider.chat
+ *
+ * Runs Aider non-interactively with the prompt in a --message-file. Aider commits
+ * its own edits by default; ralphy's autoCommit option switches that on or off.
+ */
+export class AiderEngine extends BaseAIEngine {
+	id = "aider";
+	name = "Aider";
+	cliCommand = "aider";
+	capabilities: EngineCapabilities = {
+		streaming: true,
+		modelOverride: true,
+		stdinPrompt: false,
+		sessionResume: false,
+		tokenReporting: true,
+		costReporting: true,
+		nativePermissions: false,
+	};
+
+	/**
+	 * Build command arguments for Aider
+	 * @param promptFilePath Path to the temporary file containing the prompt
+	 */
+	private buildArgs(promptFilePath: string, options?: EngineOptions): string[] {
+		const args = [
+			"--yes-always",
+			"--no-pretty",
+			"--no-stream",
+			"--no-check-update",
+			"--no-show-release-notes",
+			"--message-file",
+			promptFilePath,
+		];
+		if (options?.autoCommit === false) {
+			args.push("--no-auto-commits", "--no-dirty-commits");
+		} else if (options?.autoCommit) {
+			args.push("--auto-commits");
+		}
+		if (options?.modelOverride) {
+			args.push("--model", options.modelOverride);
+		}
+		// Add any additional engine-specific arguments
+		if (options?.engineArgs && options.engineArgs.length > 0) {
+			args.push(...options.engineArgs);
+		}
+		return args;
+	}
+
+	/**
+	 * Write the prompt to a uniquely named temp file (parallel agents run side by side)
+	 */
+	private createPromptFile(prompt: string): string {
+		mkdirSync(TEMP_DIR, { recursive: true });
+		const filepath = join(TEMP_DIR, `prompt-${randomUUID()}.md`);
+		writeFileSync(filepath, prompt, "utf-8");
+		return filepath;
+	}
+
+	private cleanupPromptFile(filepath: string): void {
+		try {
+			unlinkSync(filepath);
+		} catch {
+			logDebug(`[Aider] Failed to cleanup prompt file: ${filepath}`);
+		}
+	}
+
+	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
+		const promptFilePath = this.createPromptFile(prompt);
+		try {
+			const { stdout, stderr, exitCode } = await execCommand(
+				this.cliCommand,
+				this.buildArgs(promptFilePath, options),
+				workDir,
+				undefined,
+				undefined,
+				options?.timeouts,
+			);
+			return this.toResult(stdout + stderr, exitCode);
+		} finally {
+			this.cleanupPromptFile(promptFilePath);
+		}
+	}
+
+	async executeStreaming(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		const promptFilePath = this.createPromptFile(prompt);
+		try {
+			const parseEvents = createAiderEventParser();
+			const outputLines: string[] = [];
+
+			const { exitCode } = await execCommandStreaming(
+				this.cliCommand,
+				this.buildArgs(promptFilePath, options),
+				workDir,
+				(line) => {
+					outputLines.push(line);
+
+					for (const event of parseEvents(line)) {
+						onEvent(event);
+					}
+				},
+				undefined,
+				undefined,
+				options?.timeouts,
+			);
+
+			return this.toResult(outputLines.join("\n"), exitCode);
+		} finally {
+			this.cleanupPromptFile(promptFilePath);
+		}
+	}
+
+	private toResult(output: string, exitCode: number): AIResult {
+		const usage = parseAiderUsage(output);
+		const response = output
+			.split("\n")
+			.filter((line) => !STATUS_PATTERNS.some((pattern) => pattern.test(line.trim())))
+			.join("\n")
+			.trim();
+
+		// Aider reports API failures from litellm and may still exit 0
+		const error = this.checkAiderErrors(output);
+		if (error) {
+			return { success: false, response: "", ...usage, error };
+		}
+
+		// If command failed with non-zero exit code, provide a meaningful error
+		if (exitCode !== 0) {
+			return {
+				success: false,
+				response,
+				...usage,
+				error: formatCommandError(exitCode, output),
+			};
+		}
+
+		return { success: true, response: response || "Task completed", ...usage };
+	}
+
+	/**
+	 * Turn litellm errors into messages the retry classifier understands. Aider
+	 * retries transient errors itself, so an error followed by a model reply is ignored.
+	 */
+	private checkAiderErrors(output: string): string | null {
+		let match: RegExpMatchArray | null = null;
+		for (const line of output.split("\n")) {
+			if (TOKENS_PATTERN.test(line.trim())) {
+				match = null;
+			} else {
+				match = line.match(LITELLM_ERROR_PATTERN) ?? match;
+			}
+		}
+		if (!match) return null;
+
+		const [, type, message] = match;
+		if (type === "RateLimitError") return `Rate limit exceeded: ${message}`;
+		if (type === "AuthenticationError") return `Authentication failed: ${message}`;
+		return `${type}: ${message}`;
+	}
+}
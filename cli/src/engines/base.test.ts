@@ -1,7 +1,12 @@
 import { describe, expect, it } from "bun:test";
+import { isRetryableError } from "../execution/retry.ts";
 import {
+	TIMEOUT_EXIT_CODE,
 	checkForErrors,
+	execCommand,
+	execCommandStreaming,
 	extractAuthenticationError,
+	extractSessionId,
 	formatCommandError,
 	parseStreamJsonResult,
 } from "./base.ts";
@@ -38,6 +43,25 @@ describe("parseStreamJsonResult", () => {
 		expect(result.outputTokens).toBe(0);
 	});
 
+	it("should read cache tokens, cost and duration from the result", () => {
+		const output = `{"type":"result","result":"Done","total_cost_usd":0.12,"duration_ms":4000,"usage":{"input_tokens":10,"output_tokens":5,"cache_read_input_tokens":300,"cache_creation_input_tokens":40}}`;
+
+		const result = parseStreamJsonResult(output);
+
+		expect(result.cacheReadTokens).toBe(300);
+		expect(result.cacheWriteTokens).toBe(40);
+		expect(result.costUsd).toBe(0.12);
+		expect(result.durationMs).toBe(4000);
+	});
+
+	it("should pick up the session id from the init line", () => {
+		const output = `{"type":"system","subtype":"init","session_id":"abc-123"}
+{"type":"result","result":"Done","session_id":"abc-123","usage":{"input_tokens":1,"output_tokens":1}}`;
+
+		expect(parseStreamJsonResult(output).sessionId).toBe("abc-123");
+		expect(extractSessionId('{"type":"step_start","sessionID":"ses_42"}')).toBe("ses_42");
+	});
+
 	it("should handle non-JSON lines gracefully", () => {
 		const output = `Some plain text
 {"type":"result","result":"Done","usage":{"input_tokens":50,"output_tokens":25}}
@@ -310,3 +334,63 @@ More content that would normally appear`;
 		expect(error).toBe("Invalid API key · Please run /login");
 	});
 });
+
+describe("process timeouts", () => {
+	it("kills the whole process group after the idle timeout", async () => {
+		// The background sleep keeps the output pipe open unless its group is killed too
+		const start = Date.now();
+		const { stdout, stderr, exitCode } = await execCommand(
+			"sh",
+			["-c", "echo started; sleep 30 & wait"],
+			process.cwd(),
+			undefined,
+			undefined,
+			{ idleTimeoutMs: 200 },
+		);
+
+		expect(exitCode).toBe(TIMEOUT_EXIT_CODE);
+		const error = formatCommandError(exitCode, stdout + stderr);
+		expect(error).toBe("Engine timeout: no output for 200ms (idle timeout), killed the process");
+		expect(isRetryableError(error)).toBe(true);
+		expect(Date.now() - start).toBeLessThan(5000);
+	});
+
+	it("stops a chatty process at the task timeout and reports it as the last line", async () => {
+		const lines: string[] = [];
+		const { exitCode } = await execCommandStreaming(
+			"sh",
+			["-c", "while true; do echo tick; sleep 0.05; done"],
+			process.cwd(),
+			(line) => lines.push(line),
+			undefined,
+			undefined,
+			{ taskTimeoutMs: 300, idleTimeoutMs: 1000 },
+		);
+
+		expect(exitCode).toBe(TIMEOUT_EXIT_CODE);
+		expect(lines[0]).toBe("tick");
+		expect(lines[lines.length - 1]).toContain("(task timeout)");
+	});
+
+	it("kills the process once its abort signal fires, without reporting a timeout", async () => {
+		const controller = new AbortController();
+		const lines: string[] = [];
+		const { exitCode } = await execCommandStreaming(
+			"sh",
+			["-c", "while true; do echo tick; sleep 0.05; done"],
+			process.cwd(),
+			(line) => {
+				lines.push(line);
+				controller.abort("out of budget");
+			},
+			undefined,
+			undefined,
+			{ signal: controller.signal },
+		);
+
+		expect(exitCode).toBe(TIMEOUT_EXIT_CODE);
+		const error = formatCommandError(exitCode, lines.join("\n"));
+		expect(error).toContain("Engine stopped: out of budget, killed the process");
+		expect(isRetryableError(error)).toBe(false);
+	});
+});
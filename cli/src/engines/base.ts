@@ -1,10 +1,141 @@
 import { spawn, spawnSync } from "node:child_process";
-import type { AIEngine, AIResult, EngineOptions, ProgressCallback } from "./types.ts";
+import { formatDuration } from "../ui/logger.ts";
+import { getTranscript } from "./recording.ts";
+import type {
+	AIEngine,
+	AIResult,
+	AgentEventCallback,
+	EngineCapabilities,
+	EngineOptions,
+	ProcessTimeouts,
+} from "./types.ts";
 
 // Check if running in Bun
 const isBun = typeof Bun !== "undefined";
 const isWindows = process.platform === "win32";
 
+/**
+ * PIDs of running child processes. On Unix each one leads its own process group
+ * (spawned detached), so a terminal Ctrl-C doesn't reach it and it can be
+ * killed together with its children on forced shutdown.
+ */
+const activeProcesses = new Set<number>();
+
+function trackProcess(pid: number | undefined): () => void {
+	if (pid === undefined) {
+		return () => {};
+	}
+	activeProcesses.add(pid);
+	return () => {
+		activeProcesses.delete(pid);
+	};
+}
+
+/**
+ * Kill all running child processes (and their process groups on Unix)
+ * Returns the number of processes signalled
+ */
+export function killActiveProcesses(signal: NodeJS.Signals = "SIGTERM"): number {
+	let killed = 0;
+	for (const pid of activeProcesses) {
+		try {
+			// A negative PID targets the whole process group
+			process.kill(isWindows ? pid : -pid, signal);
+			killed++;
+		} catch {
+			// Process already exited
+		}
+	}
+	activeProcesses.clear();
+	return killed;
+}
+
+/**
+ * Exit code reported for a process killed by the watchdog (the same one timeout(1) uses)
+ */
+export const TIMEOUT_EXIT_CODE = 124;
+
+/** Start of the error reported for a run that hit a timeout */
+export const TIMEOUT_MESSAGE_PREFIX = "Engine timeout:";
+
+/** Time a timed-out process group gets to exit before it is sent SIGKILL */
+const KILL_GRACE_MS = 5000;
+
+function signalProcessGroup(pid: number, signal: NodeJS.Signals): void {
+	try {
+		process.kill(isWindows ? pid : -pid, signal);
+	} catch {
+		// Process already exited
+	}
+}
+
+interface Watchdog {
+	/** Reset the idle timer; called whenever the process writes output */
+	touch: () => void;
+	/** Clear all timers once the process has exited */
+	stop: () => void;
+	/** Why the process was killed, or null while it is within its limits */
+	readonly reason: string | null;
+}
+
+/**
+ * Kill a process and its process group once it exceeds its wall-clock or idle
+ * limit, or its abort signal fires: SIGTERM first, then SIGKILL if it is still
+ * around after a grace period.
+ */
+function startWatchdog(pid: number | undefined, timeouts: ProcessTimeouts = {}): Watchdog {
+	const { taskTimeoutMs, idleTimeoutMs, signal } = timeouts;
+	let reason: string | null = null;
+	let idleTimer: ReturnType<typeof setTimeout> | undefined;
+	let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+	const kill = (why: string) => {
+		if (reason || pid === undefined) return;
+		reason = why;
+		signalProcessGroup(pid, "SIGTERM");
+		killTimer = setTimeout(() => signalProcessGroup(pid, "SIGKILL"), KILL_GRACE_MS);
+	};
+	const expire = (message: string) =>
+		kill(`${TIMEOUT_MESSAGE_PREFIX} ${message}, killed the process`);
+	// Not a timeout, so the run isn't retried as one
+	const abort = () => kill(`Engine stopped: ${String(signal?.reason)}, killed the process`);
+	if (signal?.aborted) {
+		abort();
+	} else {
+		signal?.addEventListener("abort", abort, { once: true });
+	}
+
+	const taskTimer = taskTimeoutMs
+		? setTimeout(
+				() => expire(`still running after ${formatDuration(taskTimeoutMs)} (task timeout)`),
+				taskTimeoutMs,
+			)
+		: undefined;
+
+	const touch = () => {
+		if (!idleTimeoutMs || reason) return;
+		clearTimeout(idleTimer);
+		idleTimer = setTimeout(
+			() => expire(`no output for ${formatDuration(idleTimeoutMs)} (idle timeout)`),
+			idleTimeoutMs,
+		);
+	};
+	touch();
+
+	return {
+		touch,
+		stop: () => {
+			signal?.removeEventListener("abort", abort);
+			clearTimeout(taskTimer);
+			clearTimeout(idleTimer);
+			clearTimeout(killTimer);
+		},
+		get reason() {
+			return reason;
+		},
+	};
+}
+
 /**
  * Check if a command is available in PATH
  */
@@ -27,9 +158,31 @@ export async function commandExists(command: string): Promise<boolean> {
 	}
 }
 
+/**
+ * Read a stream to the end, calling onData for each chunk
+ */
+async function readText(stream: ReadableStream<Uint8Array>, onData: () => void): Promise<string> {
+	const reader = stream.getReader();
+	const decoder = new TextDecoder();
+	let text = "";
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			onData();
+			text += decoder.decode(value, { stream: true });
+		}
+		return text + decoder.decode();
+	} finally {
+		reader.releaseLock();
+	}
+}
+
 /**
  * Execute a command and return stdout
  * @param stdinContent - Optional content to pass via stdin (useful for multi-line prompts on Windows)
+ * @param timeouts - Kill the process when it runs or stays silent too long. A killed
+ * process exits with TIMEOUT_EXIT_CODE and the reason is appended to stderr.
  */
 export async function execCommand(
 	command: string,
@@ -37,6 +190,31 @@ export async function execCommand(
 	workDir: string,
 	env?: Record<string, string>,
 	stdinContent?: string,
+	timeouts?: ProcessTimeouts,
+): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+	// Engine calls under --record/--replay
+	const transcript = getTranscript(workDir);
+	if (transcript?.replaying) {
+		const recorded = transcript.replay(command, args);
+		return {
+			stdout: recorded.stdout ?? recorded.lines?.join("\n") ?? "",
+			stderr: recorded.stderr ?? "",
+			exitCode: recorded.exitCode,
+		};
+	}
+
+	const result = await spawnCommand(command, args, workDir, env, stdinContent, timeouts);
+	transcript?.record({ command, args, env, stdin: stdinContent, ...result });
+	return result;
+}
+
+async function spawnCommand(
+	command: string,
+	args: string[],
+	workDir: string,
+	env?: Record<string, string>,
+	stdinContent?: string,
+	timeouts?: ProcessTimeouts,
 ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
 	if (isBun) {
 		// On Windows, run through cmd.exe to handle .cmd wrappers (npm global packages)
@@ -47,7 +225,10 @@ export async function execCommand(
 			stdout: "pipe",
 			stderr: "pipe",
 			env: { ...process.env, ...env },
+			detached: !isWindows,
 		});
+		const untrack = trackProcess(proc.pid);
+		const watchdog = startWatchdog(proc.pid, timeouts);
 
 		// Write stdin content if provided
 		if (stdinContent && proc.stdin) {
@@ -55,13 +236,21 @@ export async function execCommand(
 			proc.stdin.end();
 		}
 
-		const [stdout, stderr, exitCode] = await Promise.all([
-			new Response(proc.stdout).text(),
-			new Response(proc.stderr).text(),
-			proc.exited,
-		]);
-
-		return { stdout, stderr, exitCode };
+		try {
+			const [stdout, stderr, exitCode] = await Promise.all([
+				readText(proc.stdout, watchdog.touch),
+				readText(proc.stderr, watchdog.touch),
+				proc.exited,
+			]);
+
+			if (watchdog.reason) {
+				return { stdout, stderr: `${stderr}\n${watchdog.reason}`, exitCode: TIMEOUT_EXIT_CODE };
+			}
+			return { stdout, stderr, exitCode };
+		} finally {
+			watchdog.stop();
+			untrack();
+		}
 	}
 
 	// Node.js fallback - use shell on Windows to execute .cmd wrappers
@@ -71,7 +260,10 @@ export async function execCommand(
 			env: { ...process.env, ...env },
 			stdio: [stdinContent ? "pipe" : "ignore", "pipe", "pipe"],
 			shell: isWindows, // Required on Windows for npm global commands (.cmd wrappers)
+			detached: !isWindows,
 		});
+		const untrack = trackProcess(proc.pid);
+		const watchdog = startWatchdog(proc.pid, timeouts);
 
 		// Write stdin content if provided
 		if (stdinContent && proc.stdin) {
@@ -83,18 +275,28 @@ export async function execCommand(
 		let stderr = "";
 
 		proc.stdout?.on("data", (data) => {
+			watchdog.touch();
 			stdout += data.toString();
 		});
 
 		proc.stderr?.on("data", (data) => {
+			watchdog.touch();
 			stderr += data.toString();
 		});
 
 		proc.on("close", (exitCode) => {
+			watchdog.stop();
+			untrack();
+			if (watchdog.reason) {
+				resolve({ stdout, stderr: `${stderr}\n${watchdog.reason}`, exitCode: TIMEOUT_EXIT_CODE });
+				return;
+			}
 			resolve({ stdout, stderr, exitCode: exitCode ?? 1 });
 		});
 
 		proc.on("error", (err) => {
+			watchdog.stop();
+			untrack();
 			// Maintain backward compatibility - don't reject, include error in stderr
 			stderr += `\nSpawn error: ${err.message}`;
 			resolve({ stdout, stderr, exitCode: 1 });
@@ -103,32 +305,72 @@ export async function execCommand(
 }
 
 /**
- * Parse token counts from stream-json output (Claude/Qwen format)
+ * Usage and response fields an engine reads from its output
  */
-export function parseStreamJsonResult(output: string): {
-	response: string;
-	inputTokens: number;
-	outputTokens: number;
-} {
+export type ParsedEngineOutput = Pick<
+	AIResult,
+	| "response"
+	| "inputTokens"
+	| "outputTokens"
+	| "cacheReadTokens"
+	| "cacheWriteTokens"
+	| "costUsd"
+	| "durationMs"
+	| "sessionId"
+>;
+
+/**
+ * Parse token counts, cache usage and reported cost from stream-json output (Claude/Qwen format)
+ */
+export function parseStreamJsonResult(output: string): ParsedEngineOutput {
 	const lines = output.split("\n").filter(Boolean);
-	let response = "";
-	let inputTokens = 0;
-	let outputTokens = 0;
+	let result: ParsedEngineOutput = { response: "", inputTokens: 0, outputTokens: 0 };
 
 	for (const line of lines) {
 		try {
 			const parsed = JSON.parse(line);
 			if (parsed.type === "result") {
-				response = parsed.result || "Task completed";
-				inputTokens = parsed.usage?.input_tokens || 0;
-				outputTokens = parsed.usage?.output_tokens || 0;
+				result = {
+					response: parsed.result || "Task completed",
+					inputTokens: parsed.usage?.input_tokens || 0,
+					outputTokens: parsed.usage?.output_tokens || 0,
+					cacheReadTokens: parsed.usage?.cache_read_input_tokens || undefined,
+					cacheWriteTokens: parsed.usage?.cache_creation_input_tokens || undefined,
+					costUsd: typeof parsed.total_cost_usd === "number" ? parsed.total_cost_usd : undefined,
+					durationMs: typeof parsed.duration_ms === "number" ? parsed.duration_ms : undefined,
+				};
+			}
+		} catch {
+			// Ignore non-JSON lines
+		}
+	}
+
+	return {
+		...result,
+		response: result.response || "Task completed",
+		sessionId: extractSessionId(output),
+	};
+}
+
+/**
+ * Find the session id in JSON output (`session_id` for Claude/Qwen, `sessionID` for OpenCode)
+ */
+export function extractSessionId(output: string): string | undefined {
+	const lines = output.split("\n").filter(Boolean);
+
+	for (const line of lines) {
+		try {
+			const parsed = JSON.parse(line);
+			const sessionId = parsed.session_id ?? parsed.sessionID ?? parsed.part?.sessionID;
+			if (typeof sessionId === "string" && sessionId) {
+				return sessionId;
 			}
 		} catch {
 			// Ignore non-JSON lines
 		}
 	}
 
-	return { response: response || "Task completed", inputTokens, outputTokens };
+	return undefined;
 }
 
 /**
@@ -218,13 +460,19 @@ export function formatCommandError(exitCode: number, output: string): string {
 		return `Command failed with exit code ${exitCode}`;
 	}
 
+	// A process killed by the watchdog ends its output with the reason
+	const lines = trimmed.split("\n").filter(Boolean);
+	const lastLine = lines[lines.length - 1];
+	if (exitCode === TIMEOUT_EXIT_CODE && lastLine.startsWith(TIMEOUT_MESSAGE_PREFIX)) {
+		return lastLine;
+	}
+
 	// Check for authentication errors first - return the clean message if found
 	const authError = extractAuthenticationError(output);
 	if (authError) {
 		return authError;
 	}
 
-	const lines = trimmed.split("\n").filter(Boolean);
 	const snippet = lines.slice(-12).join("\n");
 	return `Command failed with exit code ${exitCode}. Output:\n${snippet}`;
 }
@@ -235,6 +483,7 @@ export function formatCommandError(exitCode: number, output: string): string {
 async function readStream(
 	stream: ReadableStream<Uint8Array>,
 	onLine: (line: string) => void,
+	onData: () => void,
 ): Promise<void> {
 	const reader = stream.getReader();
 	const decoder = new TextDecoder();
@@ -243,6 +492,7 @@ async function readStream(
 		while (true) {
 			const { done, value } = await reader.read();
 			if (done) break;
+			onData();
 			buffer += decoder.decode(value, { stream: true });
 			const lines = buffer.split("\n");
 			buffer = lines.pop() || "";
@@ -259,6 +509,8 @@ async function readStream(
 /**
  * Execute a command with streaming output, calling onLine for each line
  * @param stdinContent - Optional content to pass via stdin (useful for multi-line prompts on Windows)
+ * @param timeouts - Kill the process when it runs or stays silent too long. A killed
+ * process exits with TIMEOUT_EXIT_CODE and the reason is reported as its last line.
  */
 export async function execCommandStreaming(
 	command: string,
@@ -267,6 +519,48 @@ export async function execCommandStreaming(
 	onLine: (line: string) => void,
 	env?: Record<string, string>,
 	stdinContent?: string,
+	timeouts?: ProcessTimeouts,
+): Promise<{ exitCode: number }> {
+	// Engine calls under --record/--replay
+	const transcript = getTranscript(workDir);
+	if (transcript?.replaying) {
+		const recorded = transcript.replay(command, args);
+		const lines =
+			recorded.lines ?? `${recorded.stdout ?? ""}\n${recorded.stderr ?? ""}`.split("\n");
+		for (const line of lines) {
+			if (line.trim()) onLine(line);
+		}
+		return { exitCode: recorded.exitCode };
+	}
+	if (!transcript) {
+		return spawnCommandStreaming(command, args, workDir, onLine, env, stdinContent, timeouts);
+	}
+
+	const lines: string[] = [];
+	const { exitCode } = await spawnCommandStreaming(
+		command,
+		args,
+		workDir,
+		(line) => {
+			lines.push(line);
+			onLine(line);
+		},
+		env,
+		stdinContent,
+		timeouts,
+	);
+	transcript.record({ command, args, env, stdin: stdinContent, lines, exitCode });
+	return { exitCode };
+}
+
+async function spawnCommandStreaming(
+	command: string,
+	args: string[],
+	workDir: string,
+	onLine: (line: string) => void,
+	env?: Record<string, string>,
+	stdinContent?: string,
+	timeouts?: ProcessTimeouts,
 ): Promise<{ exitCode: number }> {
 	if (isBun) {
 		// On Windows, run through cmd.exe to handle .cmd wrappers (npm global packages)
@@ -277,7 +571,10 @@ export async function execCommandStreaming(
 			stdout: "pipe",
 			stderr: "pipe",
 			env: { ...process.env, ...env },
+			detached: !isWindows,
 		});
+		const untrack = trackProcess(proc.pid);
+		const watchdog = startWatchdog(proc.pid, timeouts);
 
 		// Write stdin content if provided
 		if (stdinContent && proc.stdin) {
@@ -285,11 +582,23 @@ export async function execCommandStreaming(
 			proc.stdin.end();
 		}
 
-		// Process both stdout and stderr in parallel
-		await Promise.all([readStream(proc.stdout, onLine), readStream(proc.stderr, onLine)]);
+		try {
+			// Process both stdout and stderr in parallel
+			await Promise.all([
+				readStream(proc.stdout, onLine, watchdog.touch),
+				readStream(proc.stderr, onLine, watchdog.touch),
+			]);
 
-		const exitCode = await proc.exited;
-		return { exitCode };
+			const exitCode = await proc.exited;
+			if (watchdog.reason) {
+				onLine(watchdog.reason);
+				return { exitCode: TIMEOUT_EXIT_CODE };
+			}
+			return { exitCode };
+		} finally {
+			watchdog.stop();
+			untrack();
+		}
 	}
 
 	// Node.js fallback - use shell on Windows to execute .cmd wrappers
@@ -299,7 +608,10 @@ export async function execCommandStreaming(
 			env: { ...process.env, ...env },
 			stdio: [stdinContent ? "pipe" : "ignore", "pipe", "pipe"],
 			shell: isWindows, // Required on Windows for npm global commands (.cmd wrappers)
+			detached: !isWindows,
 		});
+		const untrack = trackProcess(proc.pid);
+		const watchdog = startWatchdog(proc.pid, timeouts);
 
 		// Write stdin content if provided
 		if (stdinContent && proc.stdin) {
@@ -320,23 +632,34 @@ export async function execCommandStreaming(
 		};
 
 		proc.stdout?.on("data", (data) => {
+			watchdog.touch();
 			stdoutBuffer += data.toString();
 			stdoutBuffer = processBuffer(stdoutBuffer);
 		});
 
 		proc.stderr?.on("data", (data) => {
+			watchdog.touch();
 			stderrBuffer += data.toString();
 			stderrBuffer = processBuffer(stderrBuffer, true);
 		});
 
 		proc.on("close", (exitCode) => {
+			watchdog.stop();
+			untrack();
 			// Process any remaining data
 			if (stdoutBuffer.trim()) onLine(stdoutBuffer);
 			if (stderrBuffer.trim()) onLine(stderrBuffer);
+			if (watchdog.reason) {
+				onLine(watchdog.reason);
+				resolve({ exitCode: TIMEOUT_EXIT_CODE });
+				return;
+			}
 			resolve({ exitCode: exitCode ?? 1 });
 		});
 
 		proc.on("error", (err) => {
+			watchdog.stop();
+			untrack();
 			// Maintain backward compatibility - don't reject, report error via onLine
 			onLine(`Spawn error: ${err.message}`);
 			resolve({ exitCode: 1 });
@@ -344,106 +667,14 @@ export async function execCommandStreaming(
 	});
 }
 
-/**
- * Check if a file path looks like a test file
- */
-function isTestFile(filePath: string): boolean {
-	const lower = filePath.toLowerCase();
-	return (
-		lower.includes(".test.") ||
-		lower.includes(".spec.") ||
-		lower.includes("__tests__") ||
-		lower.includes("_test.go")
-	);
-}
-
-/**
- * Detect the current step from a JSON output line
- * Returns step name like "Reading code", "Implementing", etc.
- */
-export function detectStepFromOutput(line: string): string | null {
-	// Fast path: skip non-JSON lines
-	const trimmed = line.trim();
-	if (!trimmed.startsWith("{")) {
-		return null;
-	}
-
-	try {
-		const parsed = JSON.parse(trimmed);
-
-		// Extract specific fields for pattern matching (avoid stringifying entire object)
-		const toolName =
-			parsed.tool?.toLowerCase() ||
-			parsed.name?.toLowerCase() ||
-			parsed.tool_name?.toLowerCase() ||
-			"";
-		const command = parsed.command?.toLowerCase() || "";
-		const filePath = (parsed.file_path || parsed.filePath || parsed.path || "").toLowerCase();
-		const description = (parsed.description || "").toLowerCase();
-
-		// Check tool name first to determine operation type
-		const isReadOperation = toolName === "read" || toolName === "glob" || toolName === "grep";
-		const isWriteOperation = toolName === "write" || toolName === "edit";
-
-		// Reading code - check this early to avoid misclassifying reads of test files
-		if (isReadOperation) {
-			return "Reading code";
-		}
-
-		// Git commit
-		if (command.includes("git commit") || description.includes("git commit")) {
-			return "Committing";
-		}
-
-		// Git add/staging
-		if (command.includes("git add") || description.includes("git add")) {
-			return "Staging";
-		}
-
-		// Linting - check command for lint tools
-		if (
-			command.includes("lint") ||
-			command.includes("eslint") ||
-			command.includes("biome") ||
-			command.includes("prettier")
-		) {
-			return "Linting";
-		}
-
-		// Testing - check command for test runners
-		if (
-			command.includes("vitest") ||
-			command.includes("jest") ||
-			command.includes("bun test") ||
-			command.includes("npm test") ||
-			command.includes("pytest") ||
-			command.includes("go test")
-		) {
-			return "Testing";
-		}
-
-		// Writing tests - only for write operations to test files
-		if (isWriteOperation && isTestFile(filePath)) {
-			return "Writing tests";
-		}
-
-		// Writing/Editing code
-		if (isWriteOperation) {
-			return "Implementing";
-		}
-
-		return null;
-	} catch {
-		return null;
-	}
-}
-
 /**
  * Base implementation for AI engines
  */
 export abstract class BaseAIEngine implements AIEngine {
+	abstract id: string;
 	abstract name: string;
 	abstract cliCommand: string;
+	abstract capabilities: EngineCapabilities;
 
 	async isAvailable(): Promise<boolean> {
 		return commandExists(this.cliCommand);
@@ -452,12 +683,12 @@ export abstract class BaseAIEngine implements AIEngine {
 	abstract execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult>;
 
 	/**
-	 * Execute with streaming progress updates (optional implementation)
+	 * Execute while reporting agent events (optional implementation)
 	 */
 	executeStreaming?(
 		prompt: string,
 		workDir: string,
-		onProgress: ProgressCallback,
+		onEvent: AgentEventCallback,
 		options?: EngineOptions,
 	): Promise<AIResult>;
 }
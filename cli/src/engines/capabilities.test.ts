@@ -0,0 +1,63 @@
+import { describe, expect, it } from "bun:test";
+import {
+	describeCapabilities,
+	findUnenforcedPermissions,
+	findUnsupportedSettings,
+} from "./capabilities.ts";
+import { ClaudeEngine } from "./claude.ts";
+import { CodexEngine } from "./codex.ts";
+import { CursorEngine } from "./cursor.ts";
+import { MockEngine } from "./mock.ts";
+
+describe("describeCapabilities", () => {
+	it("lists enabled capabilities in display order", () => {
+		expect(describeCapabilities(new CursorEngine().capabilities)).toBe(
+			"streaming, model override, stdin prompt",
+		);
+	});
+});
+
+describe("findUnsupportedSettings", () => {
+	it("warns about settings the engine can't honor", () => {
+		expect(
+			findUnsupportedSettings(new ClaudeEngine(), { modelOverride: "opus", budget: true }),
+		).toEqual([]);
+		expect(findUnsupportedSettings(new MockEngine(), { modelOverride: "opus" })).toEqual([
+			"Mock can't select a model, ignoring --model opus",
+		]);
+		expect(findUnsupportedSettings(new CursorEngine(), { budget: true })).toEqual([
+			"Cursor Agent doesn't report tokens or cost, so --max-cost/--max-tokens can't stop the run",
+		]);
+	});
+});
+
+describe("findUnenforcedPermissions", () => {
+	const permissions = {
+		deniedPaths: ["secrets/**"],
+		readOnlyPaths: ["src/legacy/**"],
+		disallowedTools: [],
+		network: false,
+	};
+
+	it("warns about rules the engine can't enforce natively", () => {
+		expect(findUnenforcedPermissions(new ClaudeEngine(), permissions)).toEqual([
+			"Claude Code can't enforce permissions.network: false; the agent is only asked to follow it",
+		]);
+		expect(findUnenforcedPermissions(new CodexEngine(), permissions)).toEqual([
+			"Codex can't enforce permissions.deny_paths; the agent is only asked to follow it",
+			"Codex can't enforce read-only paths (boundaries.never_touch, permissions.read_only_paths); the agent is only asked to follow it",
+		]);
+		expect(findUnenforcedPermissions(new CursorEngine(), permissions)).toHaveLength(3);
+	});
+
+	it("stays quiet without rules", () => {
+		expect(
+			findUnenforcedPermissions(new CursorEngine(), {
+				deniedPaths: [],
+				readOnlyPaths: [],
+				disallowedTools: [],
+				network: true,
+			}),
+		).toEqual([]);
+	});
+});
@@ -0,0 +1,98 @@
+import type {
+	AIEngine,
+	EngineCapabilities,
+	EnginePermissions,
+	PermissionSupport,
+} from "./types.ts";
+
+/** Display names for each capability, in display order */
+export const CAPABILITY_LABELS: Record<keyof EngineCapabilities, string> = {
+	streaming: "streaming",
+	modelOverride: "model override",
+	stdinPrompt: "stdin prompt",
+	sessionResume: "session resume",
+	tokenReporting: "token reporting",
+	costReporting: "cost reporting",
+	nativePermissions: "native permissions",
+};
+
+/**
+ * List the capabilities an engine has ("streaming, model override, ...")
+ */
+export function describeCapabilities(capabilities: EngineCapabilities): string {
+	const keys = Object.keys(CAPABILITY_LABELS) as (keyof EngineCapabilities)[];
+	const enabled = keys.filter((key) => capabilities[key]).map((key) => CAPABILITY_LABELS[key]);
+	return enabled.join(", ") || "none";
+}
+
+/**
+ * Run settings that only work on engines with the matching capability
+ */
+export interface CapabilityRequirements {
+	/** --model */
+	modelOverride?: string;
+	/** --max-cost / --max-tokens */
+	budget?: boolean;
+}
+
+/**
+ * Describe the requested settings an engine can't honor, so the run can warn up front
+ */
+export function findUnsupportedSettings(
+	engine: AIEngine,
+	requested: CapabilityRequirements,
+): string[] {
+	const { capabilities } = engine;
+	const unsupported: string[] = [];
+
+	if (requested.modelOverride && !capabilities.modelOverride) {
+		unsupported.push(
+			`${engine.name} can't select a model, ignoring --model ${requested.modelOverride}`,
+		);
+	}
+	if (requested.budget && !capabilities.tokenReporting && !capabilities.costReporting) {
+		unsupported.push(
+			`${engine.name} doesn't report tokens or cost, so --max-cost/--max-tokens can't stop the run`,
+		);
+	}
+
+	return unsupported;
+}
+
+/**
+ * Permission rules an engine enforces itself, undefined without native permissions
+ */
+export function getNativePermissionSupport(
+	engine: Pick<AIEngine, "capabilities" | "permissionSupport">,
+): PermissionSupport | undefined {
+	return engine.capabilities.nativePermissions ? engine.permissionSupport : undefined;
+}
+
+/**
+ * Describe the permission rules an engine can't enforce natively, so the run can
+ * warn that they are only instructions in the prompt
+ */
+export function findUnenforcedPermissions(
+	engine: AIEngine,
+	permissions: EnginePermissions,
+): string[] {
+	const support = getNativePermissionSupport(engine);
+	const rules: string[] = [];
+
+	if (permissions.deniedPaths.length > 0 && !support?.deniedPaths) {
+		rules.push("permissions.deny_paths");
+	}
+	if (permissions.readOnlyPaths.length > 0 && !support?.readOnlyPaths) {
+		rules.push("read-only paths (boundaries.never_touch, permissions.read_only_paths)");
+	}
+	if (permissions.disallowedTools.length > 0 && !support?.disallowedTools) {
+		rules.push("permissions.disallowed_tools");
+	}
+	if (!permissions.network && !support?.network) {
+		rules.push("permissions.network: false");
+	}
+
+	return rules.map(
+		(rule) => `${engine.name} can't enforce ${rule}; the agent is only asked to follow it`,
+	);
+}
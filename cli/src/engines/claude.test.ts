@@ -0,0 +1,34 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import { tmpdir } from "node:os";
+import * as baseModule from "./base.ts";
+import { ClaudeEngine } from "./claude.ts";
+
+describe("ClaudeEngine permissions", () => {
+	it("turns permission rules into --disallowedTools rules", async () => {
+		let capturedArgs: string[] = [];
+		const spy = spyOn(baseModule, "execCommand").mockImplementation(async (_cmd, args) => {
+			capturedArgs = args;
+			return { stdout: "", stderr: "", exitCode: 0 };
+		});
+
+		await new ClaudeEngine().execute("task", tmpdir(), {
+			permissions: {
+				deniedPaths: [".env"],
+				readOnlyPaths: ["src/legacy/**"],
+				disallowedTools: ["Bash(git push:*)"],
+				network: false,
+			},
+		});
+		spy.mockRestore();
+
+		const start = capturedArgs.indexOf("--disallowedTools");
+		expect(capturedArgs.slice(start + 1, capturedArgs.indexOf("--verbose"))).toEqual([
+			"Read(.env)",
+			"Edit(.env)",
+			"Edit(src/legacy/**)",
+			"Bash(git push:*)",
+			"WebFetch",
+			"WebSearch",
+		]);
+	});
+});
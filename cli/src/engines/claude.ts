@@ -1,28 +1,87 @@
 import {
 	BaseAIEngine,
 	checkForErrors,
-	detectStepFromOutput,
 	execCommand,
 	execCommandStreaming,
+	extractSessionId,
 	formatCommandError,
 	parseStreamJsonResult,
 } from "./base.ts";
-import type { AIResult, EngineOptions, ProgressCallback } from "./types.ts";
+import { createClaudeEventParser } from "./events.ts";
+import type {
+	AIResult,
+	AgentEventCallback,
+	EngineCapabilities,
+	EngineOptions,
+	EnginePermissions,
+	PermissionSupport,
+} from "./types.ts";
 
 const isWindows = process.platform === "win32";
 
+/**
+ * Permission rules for --disallowedTools. Read and Edit rules cover every built-in
+ * tool that reads or edits files; deny rules hold even with --dangerously-skip-permissions.
+ */
+function toDisallowedTools(permissions: EnginePermissions | undefined): string[] {
+	if (!permissions) {
+		return [];
+	}
+	return [
+		...permissions.deniedPaths.flatMap((path) => [`Read(${path})`, `Edit(${path})`]),
+		...permissions.readOnlyPaths.map((path) => `Edit(${path})`),
+		...permissions.disallowedTools,
+		// Web tools only: shell commands can still reach the network
+		...(permissions.network ? [] : ["WebFetch", "WebSearch"]),
+	];
+}
+
 /**
  * Claude Code AI Engine
  */
 export class ClaudeEngine extends BaseAIEngine {
+	id = "claude";
 	name = "Claude Code";
 	cliCommand = "claude";
-
-	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
-		const args = ["--dangerously-skip-permissions", "--verbose", "--output-format", "stream-json"];
+	capabilities: EngineCapabilities = {
+		streaming: true,
+		modelOverride: true,
+		stdinPrompt: true,
+		sessionResume: true,
+		tokenReporting: true,
+		costReporting: true,
+		nativePermissions: true,
+	};
+	permissionSupport: PermissionSupport = {
+		deniedPaths: true,
+		readOnlyPaths: true,
+		disallowedTools: true,
+		network: false,
+	};
+
+	/**
+	 * Build command arguments; the prompt goes via stdin on Windows
+	 */
+	private buildArgs(
+		prompt: string,
+		options?: EngineOptions,
+	): { args: string[]; stdinContent?: string } {
+		const disallowedTools = toDisallowedTools(options?.permissions);
+		const args = [
+			"--dangerously-skip-permissions",
+			// The list is variadic, so it must be followed by another flag
+			...(disallowedTools.length > 0 ? ["--disallowedTools", ...disallowedTools] : []),
+			"--verbose",
+			"--output-format",
+			"stream-json",
+		];
 		if (options?.modelOverride) {
 			args.push("--model", options.modelOverride);
 		}
+		// Continue the earlier conversation; it already holds the full task prompt
+		if (options?.resume) {
+			args.push("--resume", options.resume.sessionId);
+		}
 		// Add any additional engine-specific arguments
 		if (options?.engineArgs && options.engineArgs.length > 0) {
 			args.push(...options.engineArgs);
@@ -30,13 +89,17 @@ export class ClaudeEngine extends BaseAIEngine {
 
 		// On Windows, pass prompt via stdin to avoid cmd.exe argument parsing issues with multi-line content
 		// On other platforms, pass as argument for compatibility
-		let stdinContent: string | undefined;
+		const input = options?.resume?.prompt ?? prompt;
 		if (isWindows) {
 			args.push("-p"); // Enable print mode, prompt comes from stdin
-			stdinContent = prompt;
-		} else {
-			args.push("-p", prompt);
+			return { args, stdinContent: input };
 		}
+		args.push("-p", input);
+		return { args };
+	}
+
+	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
+		const { args, stdinContent } = this.buildArgs(prompt, options);
 
 		const { stdout, stderr, exitCode } = await execCommand(
 			this.cliCommand,
@@ -44,6 +107,7 @@ export class ClaudeEngine extends BaseAIEngine {
 			workDir,
 			undefined,
 			stdinContent,
+			options?.timeouts,
 		);
 
 		const output = stdout + stderr;
@@ -56,57 +120,38 @@ export class ClaudeEngine extends BaseAIEngine {
 				response: "",
 				inputTokens: 0,
 				outputTokens: 0,
+				sessionId: extractSessionId(output),
 				error,
 			};
 		}
 
 		// Parse result
-		const { response, inputTokens, outputTokens } = parseStreamJsonResult(output);
+		const parsed = parseStreamJsonResult(output);
 
 		// If command failed with non-zero exit code, provide a meaningful error
 		if (exitCode !== 0) {
 			return {
 				success: false,
-				response,
-				inputTokens,
-				outputTokens,
+				...parsed,
 				error: formatCommandError(exitCode, output),
 			};
 		}
 
 		return {
 			success: true,
-			response,
-			inputTokens,
-			outputTokens,
+			...parsed,
 		};
 	}
 
 	async executeStreaming(
 		prompt: string,
 		workDir: string,
-		onProgress: ProgressCallback,
+		onEvent: AgentEventCallback,
 		options?: EngineOptions,
 	): Promise<AIResult> {
-		const args = ["--dangerously-skip-permissions", "--verbose", "--output-format", "stream-json"];
-		if (options?.modelOverride) {
-			args.push("--model", options.modelOverride);
-		}
-		// Add any additional engine-specific arguments
-		if (options?.engineArgs && options.engineArgs.length > 0) {
-			args.push(...options.engineArgs);
-		}
-
-		// On Windows, pass prompt via stdin to avoid cmd.exe argument parsing issues with multi-line content
-		// On other platforms, pass as argument for compatibility
-		let stdinContent: string | undefined;
-		if (isWindows) {
-			args.push("-p"); // Enable print mode, prompt comes from stdin
-			stdinContent = prompt;
-		} else {
-			args.push("-p", prompt);
-		}
+		const { args, stdinContent } = this.buildArgs(prompt, options);
 
+		const parseEvents = createClaudeEventParser();
 		const outputLines: string[] = [];
 
 		const { exitCode } = await execCommandStreaming(
@@ -116,14 +161,13 @@ export class ClaudeEngine extends BaseAIEngine {
 			(line) => {
 				outputLines.push(line);
 
-				// Detect and report step changes
-				const step = detectStepFromOutput(line);
-				if (step) {
-					onProgress(step);
+				for (const event of parseEvents(line)) {
+					onEvent(event);
 				}
 			},
 			undefined,
 			stdinContent,
+			options?.timeouts,
 		);
 
 		const output = outputLines.join("\n");
@@ -136,29 +180,26 @@ export class ClaudeEngine extends BaseAIEngine {
 				response: "",
 				inputTokens: 0,
 				outputTokens: 0,
+				sessionId: extractSessionId(output),
 				error,
 			};
 		}
 
 		// Parse result
-		const { response, inputTokens, outputTokens } = parseStreamJsonResult(output);
+		const parsed = parseStreamJsonResult(output);
 
 		// If command failed with non-zero exit code, provide a meaningful error
 		if (exitCode !== 0) {
 			return {
 				success: false,
-				response,
-				inputTokens,
-				outputTokens,
+				...parsed,
 				error: formatCommandError(exitCode, output),
 			};
 		}
 
 		return {
 			success: true,
-			response,
-			inputTokens,
-			outputTokens,
+			...parsed,
 		};
 	}
 }
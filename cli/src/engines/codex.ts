@@ -1,7 +1,14 @@
-import { existsSync, readFileSync, rmSync, unlinkSync } from "node:fs";
+import { existsSync, readFileSync, unlinkSync } from "node:fs";
 import { join } from "node:path";
-import { BaseAIEngine, execCommand, formatCommandError } from "./base.ts";
-import type { AIResult, EngineOptions } from "./types.ts";
+import { BaseAIEngine, execCommand, execCommandStreaming, formatCommandError } from "./base.ts";
+import { createCodexEventParser } from "./events.ts";
+import type {
+	AIResult,
+	AgentEventCallback,
+	EngineCapabilities,
+	EngineOptions,
+	PermissionSupport,
+} from "./types.ts";
 
 const isWindows = process.platform === "win32";
 
@@ -9,93 +16,161 @@ const isWindows = process.platform === "win32";
  * Codex AI Engine
  */
 export class CodexEngine extends BaseAIEngine {
+	id = "codex";
 	name = "Codex";
 	cliCommand = "codex";
+	capabilities: EngineCapabilities = {
+		streaming: true,
+		modelOverride: true,
+		stdinPrompt: true,
+		sessionResume: false,
+		tokenReporting: false,
+		costReporting: false,
+		nativePermissions: true,
+	};
+	permissionSupport: PermissionSupport = {
+		deniedPaths: false,
+		readOnlyPaths: false,
+		disallowedTools: false,
+		network: true,
+	};
+
+	/**
+	 * Build command arguments; the prompt goes via stdin on Windows
+	 */
+	private buildArgs(
+		prompt: string,
+		lastMessageFile: string,
+		options?: EngineOptions,
+	): { args: string[]; stdinContent?: string } {
+		const args = ["exec", "--full-auto", "--json", "--output-last-message", lastMessageFile];
+		// --full-auto runs in the workspace-write sandbox; make sure it keeps the network off
+		if (options?.permissions && !options.permissions.network) {
+			args.push("-c", "sandbox_workspace_write.network_access=false");
+		}
+		if (options?.modelOverride) {
+			args.push("--model", options.modelOverride);
+		}
+		// Add any additional engine-specific arguments
+		if (options?.engineArgs && options.engineArgs.length > 0) {
+			args.push(...options.engineArgs);
+		}
+
+		// On Windows, pass prompt via stdin to avoid cmd.exe argument parsing issues with multi-line content
+		if (isWindows) {
+			return { args, stdinContent: prompt };
+		}
+		args.push(prompt);
+		return { args };
+	}
+
+	/**
+	 * Remove the last-message file, ignoring errors
+	 */
+	private cleanupLastMessageFile(lastMessageFile: string): void {
+		if (existsSync(lastMessageFile)) {
+			try {
+				unlinkSync(lastMessageFile);
+			} catch {
+				// Ignore cleanup errors
+			}
+		}
+	}
+
+	private toResult(output: string, exitCode: number, lastMessageFile: string): AIResult {
+		// Read the last message from the file
+		let response = "";
+		if (existsSync(lastMessageFile)) {
+			response = readFileSync(lastMessageFile, "utf-8");
+			// Remove the "Task completed successfully." prefix if present
+			response = response.replace(/^Task completed successfully\.\s*/i, "").trim();
+		}
+
+		// Check for errors in output
+		if (output.includes('"type":"error"')) {
+			const errorMatch = output.match(/"message":"([^"]+)"/);
+			return {
+				success: false,
+				response: "",
+				inputTokens: 0,
+				outputTokens: 0,
+				error: errorMatch?.[1] || "Unknown error",
+			};
+		}
+
+		// If command failed with non-zero exit code, provide a meaningful error
+		if (exitCode !== 0) {
+			return {
+				success: false,
+				response: response || "Task completed",
+				inputTokens: 0,
+				outputTokens: 0,
+				error: formatCommandError(exitCode, output),
+			};
+		}
+
+		return {
+			success: true,
+			response: response || "Task completed",
+			inputTokens: 0, // Codex doesn't expose token counts
+			outputTokens: 0,
+		};
+	}
 
 	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
 		// Codex uses a separate file for the last message
 		const lastMessageFile = join(workDir, `.codex-last-message-${Date.now()}-${process.pid}.txt`);
 
 		try {
-			const args = ["exec", "--full-auto", "--json", "--output-last-message", lastMessageFile];
-			if (options?.modelOverride) {
-				args.push("--model", options.modelOverride);
-			}
-			// Add any additional engine-specific arguments
-			if (options?.engineArgs && options.engineArgs.length > 0) {
-				args.push(...options.engineArgs);
-			}
-
-			// On Windows, pass prompt via stdin to avoid cmd.exe argument parsing issues with multi-line content
-			let stdinContent: string | undefined;
-			if (isWindows) {
-				stdinContent = prompt;
-			} else {
-				args.push(prompt);
-			}
-
+			const { args, stdinContent } = this.buildArgs(prompt, lastMessageFile, options);
 			const { stdout, stderr, exitCode } = await execCommand(
 				this.cliCommand,
 				args,
 				workDir,
 				undefined,
 				stdinContent,
+				options?.timeouts,
 			);
 
-			const output = stdout + stderr;
-
-			// Read the last message from the file
-			let response = "";
-			if (existsSync(lastMessageFile)) {
-				response = readFileSync(lastMessageFile, "utf-8");
-				// Remove the "Task completed successfully." prefix if present
-				response = response.replace(/^Task completed successfully\.\s*/i, "").trim();
-				// Clean up the temp file
-				try {
-					unlinkSync(lastMessageFile);
-				} catch {
-					// Ignore cleanup errors
-				}
-			}
+			return this.toResult(stdout + stderr, exitCode, lastMessageFile);
+		} finally {
+			// Ensure cleanup
+			this.cleanupLastMessageFile(lastMessageFile);
+		}
+	}
 
-			// Check for errors in output
-			if (output.includes('"type":"error"')) {
-				const errorMatch = output.match(/"message":"([^"]+)"/);
-				return {
-					success: false,
-					response: "",
-					inputTokens: 0,
-					outputTokens: 0,
-					error: errorMatch?.[1] || "Unknown error",
-				};
-			}
+	async executeStreaming(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		const lastMessageFile = join(workDir, `.codex-last-message-${Date.now()}-${process.pid}.txt`);
 
-			// If command failed with non-zero exit code, provide a meaningful error
-			if (exitCode !== 0) {
-				return {
-					success: false,
-					response: response || "Task completed",
-					inputTokens: 0,
-					outputTokens: 0,
-					error: formatCommandError(exitCode, output),
-				};
-			}
+		try {
+			const { args, stdinContent } = this.buildArgs(prompt, lastMessageFile, options);
+			const parseEvents = createCodexEventParser();
+			const outputLines: string[] = [];
 
-			return {
-				success: true,
-				response: response || "Task completed",
-				inputTokens: 0, // Codex doesn't expose token counts
-				outputTokens: 0,
-			};
+			const { exitCode } = await execCommandStreaming(
+				this.cliCommand,
+				args,
+				workDir,
+				(line) => {
+					outputLines.push(line);
+
+					for (const event of parseEvents(line)) {
+						onEvent(event);
+					}
+				},
+				undefined,
+				stdinContent,
+				options?.timeouts,
+			);
+
+			return this.toResult(outputLines.join("\n"), exitCode, lastMessageFile);
 		} finally {
-			// Ensure cleanup
-			if (existsSync(lastMessageFile)) {
-				try {
-					unlinkSync(lastMessageFile);
-				} catch {
-					// Ignore
-				}
-			}
+			this.cleanupLastMessageFile(lastMessageFile);
 		}
 	}
 }
@@ -630,8 +630,7 @@ model-name 1000 in, 500 out, 200 cached`,
 			expect(result.response).toBe("Response text");
 			expect(result.inputTokens).toBe(1000);
 			expect(result.outputTokens).toBe(500);
-			expect(result.cost).toBeDefined();
-			expect(result.cost).toMatch(/duration:\d+/);
+			expect(result.durationMs).toBeGreaterThan(0);
 
 			spy.mockRestore();
 		});
@@ -657,4 +656,33 @@ model-name 1000 in, 500 out, 200 cached`,
 			spy.mockRestore();
 		});
 	});
+
+	describe("Streaming", () => {
+		it.skipIf(process.platform === "win32")(
+			"should report progress events from output lines",
+			async () => {
+				const spy = spyOn(baseModule, "execCommandStreaming").mockImplementation(
+					async (_cmd: string, _args: string[], _workDir: string, onLine) => {
+						onLine("Reading src/app.ts");
+						onLine("$ npm test");
+						onLine("All done");
+						onLine("model-name 100 in, 50 out, 0 cached");
+						return { exitCode: 0 };
+					},
+				);
+				const events: string[] = [];
+
+				const result = await engine.executeStreaming("test", testWorkDir, (event) =>
+					events.push(event.type),
+				);
+
+				expect(events).toEqual(["file_read", "shell_command", "assistant_text", "assistant_text"]);
+				expect(result.success).toBe(true);
+				expect(result.inputTokens).toBe(100);
+				expect(result.outputTokens).toBe(50);
+
+				spy.mockRestore();
+			},
+		);
+	});
 });
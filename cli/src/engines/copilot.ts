@@ -3,19 +3,28 @@ import { mkdirSync, unlinkSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { logDebug } from "../ui/logger.ts";
-import { BaseAIEngine, checkForErrors, execCommand, formatCommandError } from "./base.ts";
-import type { AIResult, EngineOptions } from "./types.ts";
+import {
+	BaseAIEngine,
+	checkForErrors,
+	execCommand,
+	execCommandStreaming,
+	formatCommandError,
+} from "./base.ts";
+import { createTextEventParser } from "./events.ts";
+import type { AIResult, AgentEventCallback, EngineCapabilities, EngineOptions } from "./types.ts";
 
 /** Directory for temporary prompt files */
 const TEMP_DIR = join(tmpdir(), "ralphy-copilot");
 
+const isWindows = process.platform === "win32";
+
 /**
  * GitHub Copilot CLI AI Engine
  *
- * Note: executeStreaming is intentionally not implemented for Copilot
- * because the streaming function can hang on Windows due to how
- * Bun handles cmd.exe stream completion. The non-streaming execute()
- * method works reliably.
+ * Note: Copilot prints plain text, so executeStreaming reports progress from
+ * line heuristics. Streaming is off on Windows (capabilities.streaming) because
+ * it can hang due to how Bun handles cmd.exe stream completion; executeStreaming
+ * still falls back to execute() there if called directly.
  *
  * Note: All engine output is captured internally for parsing and not displayed
  * to the end user. This is by design - the spinner shows step progress while
@@ -27,8 +36,18 @@ const TEMP_DIR = join(tmpdir(), "ralphy-copilot");
  * would be lost if passed as a command line string.
  */
 export class CopilotEngine extends BaseAIEngine {
+	id = "copilot";
 	name = "GitHub Copilot";
 	cliCommand = "copilot";
+	capabilities: EngineCapabilities = {
+		streaming: !isWindows,
+		modelOverride: true,
+		stdinPrompt: false,
+		sessionResume: false,
+		tokenReporting: true,
+		costReporting: false,
+		nativePermissions: false,
+	};
 
 	/**
 	 * Create a temporary file containing the prompt.
@@ -113,66 +132,117 @@ export class CopilotEngine extends BaseAIEngine {
 			logDebug(`[Copilot] Command: ${this.cliCommand} ${args.join(" ")}`);
 
 			const startTime = Date.now();
-			const { stdout, stderr, exitCode } = await execCommand(this.cliCommand, args, workDir);
+			const { stdout, stderr, exitCode } = await execCommand(
+				this.cliCommand,
+				args,
+				workDir,
+				undefined,
+				undefined,
+				options?.timeouts,
+			);
 			const durationMs = Date.now() - startTime;
 
-			const output = stdout + stderr;
+			return this.toResult(stdout + stderr, exitCode, durationMs);
+		} finally {
+			// Always clean up the temporary prompt file
+			this.cleanupPromptFile(promptFilePath);
+		}
+	}
 
-			// Debug logging
-			logDebug(`[Copilot] Exit code: ${exitCode}`);
-			logDebug(`[Copilot] Duration: ${durationMs}ms`);
-			logDebug(`[Copilot] Output length: ${output.length} chars`);
-			logDebug(`[Copilot] Output preview: ${output.substring(0, 500)}...`);
-
-			// Check for JSON errors (from base)
-			const jsonError = checkForErrors(output);
-			if (jsonError) {
-				return {
-					success: false,
-					response: "",
-					inputTokens: 0,
-					outputTokens: 0,
-					error: jsonError,
-				};
-			}
+	async executeStreaming(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		if (isWindows) {
+			return this.execute(prompt, workDir, options);
+		}
 
-			// Check for Copilot-specific errors (plain text)
-			const copilotError = this.checkCopilotErrors(output);
-			if (copilotError) {
-				return {
-					success: false,
-					response: "",
-					inputTokens: 0,
-					outputTokens: 0,
-					error: copilotError,
-				};
-			}
+		const promptFilePath = this.createPromptFile(prompt);
 
-			// Parse Copilot output - extract response and token counts
-			const { response, inputTokens, outputTokens } = this.parseOutput(output);
-
-			// If command failed with non-zero exit code, provide a meaningful error
-			if (exitCode !== 0) {
-				return {
-					success: false,
-					response,
-					inputTokens,
-					outputTokens,
-					error: formatCommandError(exitCode, output),
-				};
-			}
+		try {
+			const { args } = this.buildArgs(promptFilePath, options);
+			logDebug(`[Copilot] Command: ${this.cliCommand} ${args.join(" ")}`);
+
+			const parseEvents = createTextEventParser();
+			const outputLines: string[] = [];
+			const startTime = Date.now();
+
+			const { exitCode } = await execCommandStreaming(
+				this.cliCommand,
+				args,
+				workDir,
+				(line) => {
+					outputLines.push(line);
+
+					for (const event of parseEvents(line)) {
+						onEvent(event);
+					}
+				},
+				undefined,
+				undefined,
+				options?.timeouts,
+			);
 
+			return this.toResult(outputLines.join("\n"), exitCode, Date.now() - startTime);
+		} finally {
+			this.cleanupPromptFile(promptFilePath);
+		}
+	}
+
+	private toResult(output: string, exitCode: number, durationMs: number): AIResult {
+		// Debug logging
+		logDebug(`[Copilot] Exit code: ${exitCode}`);
+		logDebug(`[Copilot] Duration: ${durationMs}ms`);
+		logDebug(`[Copilot] Output length: ${output.length} chars`);
+		logDebug(`[Copilot] Output preview: ${output.substring(0, 500)}...`);
+
+		// Check for JSON errors (from base)
+		const jsonError = checkForErrors(output);
+		if (jsonError) {
+			return {
+				success: false,
+				response: "",
+				inputTokens: 0,
+				outputTokens: 0,
+				error: jsonError,
+			};
+		}
+
+		// Check for Copilot-specific errors (plain text)
+		const copilotError = this.checkCopilotErrors(output);
+		if (copilotError) {
 			return {
-				success: true,
+				success: false,
+				response: "",
+				inputTokens: 0,
+				outputTokens: 0,
+				error: copilotError,
+			};
+		}
+
+		// Parse Copilot output - extract response and token counts
+		const { response, inputTokens, outputTokens } = this.parseOutput(output);
+
+		// If command failed with non-zero exit code, provide a meaningful error
+		if (exitCode !== 0) {
+			return {
+				success: false,
 				response,
 				inputTokens,
 				outputTokens,
-				cost: durationMs > 0 ? `duration:${durationMs}` : undefined,
+				error: formatCommandError(exitCode, output),
 			};
-		} finally {
-			// Always clean up the temporary prompt file
-			this.cleanupPromptFile(promptFilePath);
 		}
+
+		return {
+			success: true,
+			response,
+			inputTokens,
+			outputTokens,
+			durationMs: durationMs > 0 ? durationMs : undefined,
+		};
 	}
 
 	/**
@@ -1,12 +1,12 @@
 import {
 	BaseAIEngine,
 	checkForErrors,
-	detectStepFromOutput,
 	execCommand,
 	execCommandStreaming,
 	formatCommandError,
 } from "./base.ts";
-import type { AIResult, EngineOptions, ProgressCallback } from "./types.ts";
+import { createCursorEventParser } from "./events.ts";
+import type { AIResult, AgentEventCallback, EngineCapabilities, EngineOptions } from "./types.ts";
 
 const isWindows = process.platform === "win32";
 
@@ -14,8 +14,18 @@ const isWindows = process.platform === "win32";
  * Cursor Agent AI Engine
  */
 export class CursorEngine extends BaseAIEngine {
+	id = "cursor";
 	name = "Cursor Agent";
 	cliCommand = "agent";
+	capabilities: EngineCapabilities = {
+		streaming: true,
+		modelOverride: true,
+		stdinPrompt: true,
+		sessionResume: false,
+		tokenReporting: false,
+		costReporting: false,
+		nativePermissions: false,
+	};
 
 	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
 		const args = ["--print", "--force", "--output-format", "stream-json"];
@@ -41,6 +51,7 @@ export class CursorEngine extends BaseAIEngine {
 			workDir,
 			undefined,
 			stdinContent,
+			options?.timeouts,
 		);
 
 		const output = stdout + stderr;
@@ -76,7 +87,7 @@ export class CursorEngine extends BaseAIEngine {
 			response,
 			inputTokens: 0, // Cursor doesn't provide token counts
 			outputTokens: 0,
-			cost: durationMs > 0 ? `duration:${durationMs}` : undefined,
+			durationMs: durationMs > 0 ? durationMs : undefined,
 		};
 	}
 
@@ -117,7 +128,7 @@ export class CursorEngine extends BaseAIEngine {
 	async executeStreaming(
 		prompt: string,
 		workDir: string,
-		onProgress: ProgressCallback,
+		onEvent: AgentEventCallback,
 		options?: EngineOptions,
 	): Promise<AIResult> {
 		const args = ["--print", "--force", "--output-format", "stream-json"];
@@ -137,6 +148,7 @@ export class CursorEngine extends BaseAIEngine {
 			args.push(prompt);
 		}
 
+		const parseEvents = createCursorEventParser();
 		const outputLines: string[] = [];
 
 		const { exitCode } = await execCommandStreaming(
@@ -146,14 +158,13 @@ export class CursorEngine extends BaseAIEngine {
 			(line) => {
 				outputLines.push(line);
 
-				// Detect and report step changes
-				const step = detectStepFromOutput(line);
-				if (step) {
-					onProgress(step);
+				for (const event of parseEvents(line)) {
+					onEvent(event);
 				}
 			},
 			undefined,
 			stdinContent,
+			options?.timeouts,
 		);
 
 		const output = outputLines.join("\n");
@@ -189,7 +200,7 @@ export class CursorEngine extends BaseAIEngine {
 			response,
 			inputTokens: 0,
 			outputTokens: 0,
-			cost: durationMs > 0 ? `duration:${durationMs}` : undefined,
+			durationMs: durationMs > 0 ? durationMs : undefined,
 		};
 	}
 }
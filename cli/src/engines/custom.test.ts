@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { tmpdir } from "node:os";
+import { CustomEngineSchema } from "../config/types.ts";
+import { CustomEngine, buildCustomEngineArgs, parseCustomEngineOutput } from "./custom.ts";
+import { createEngine, registerCustomEngines } from "./index.ts";
+
+describe("buildCustomEngineArgs", () => {
+	it("substitutes prompt and model placeholders", () => {
+		const config = CustomEngineSchema.parse({
+			command: "agent",
+			args: ["run", "--model", "{model}", "--task={prompt}"],
+		});
+
+		expect(buildCustomEngineArgs(config, "do it", { modelOverride: "fast" })).toEqual([
+			"run",
+			"--model",
+			"fast",
+			"--task=do it",
+		]);
+	});
+
+	it("keeps $ sequences in the prompt and model as they are", () => {
+		const config = CustomEngineSchema.parse({
+			command: "agent",
+			args: ["--model={model}", "--task={prompt}"],
+		});
+		const prompt = "kill $$ and echo $'a' then $& done $`";
+
+		expect(buildCustomEngineArgs(config, prompt, { modelOverride: "m$&" })).toEqual([
+			"--model=m$&",
+			`--task=${prompt}`,
+		]);
+	});
+
+	it("drops model arguments and their flag when no model is set", () => {
+		const config = CustomEngineSchema.parse({
+			command: "agent",
+			args: ["--model", "{model}", "--temp={model}", "--yes"],
+		});
+
+		expect(buildCustomEngineArgs(config, "do it")).toEqual(["--yes", "do it"]);
+	});
+
+	it("does not append the prompt when it comes via stdin", () => {
+		const config = CustomEngineSchema.parse({ command: "agent", prompt_via: "stdin" });
+
+		expect(buildCustomEngineArgs(config, "", { engineArgs: ["--fast"] })).toEqual(["--fast"]);
+	});
+
+	it("drops prompt arguments and their flag when the prompt comes via stdin", () => {
+		const config = CustomEngineSchema.parse({
+			command: "agent",
+			args: ["run", "--task", "{prompt}", "--yes"],
+			prompt_via: "stdin",
+		});
+
+		expect(buildCustomEngineArgs(config, "")).toEqual(["run", "--yes"]);
+	});
+});
+
+describe("parseCustomEngineOutput", () => {
+	it("reads response and tokens from JSON paths", () => {
+		const config = CustomEngineSchema.parse({
+			command: "agent",
+			output: "json",
+			response_path: "result.text",
+			input_tokens_path: "usage.in",
+			output_tokens_path: "usage.out",
+		});
+		const stdout = `log line\n${JSON.stringify({ result: { text: "done" }, usage: { in: 12, out: 3 } })}\n`;
+
+		expect(parseCustomEngineOutput(config, stdout)).toEqual({
+			response: "done",
+			inputTokens: 12,
+			outputTokens: 3,
+		});
+	});
+
+	it("uses plain text output as the response", () => {
+		const config = CustomEngineSchema.parse({ command: "agent" });
+
+		expect(parseCustomEngineOutput(config, "all done\n").response).toBe("all done");
+	});
+});
+
+describe("CustomEngine", () => {
+	it("runs the configured command", async () => {
+		const engine = new CustomEngine(
+			"echo-bot",
+			CustomEngineSchema.parse({ command: "echo", args: ["agent:", "{prompt}"] }),
+		);
+
+		const result = await engine.execute("hello", tmpdir());
+
+		expect(engine.name).toBe("echo-bot");
+		expect(result).toMatchObject({ success: true, response: "agent: hello" });
+	});
+
+	it("derives its capabilities from the config", () => {
+		const engine = new CustomEngine(
+			"json-bot",
+			CustomEngineSchema.parse({
+				command: "bot",
+				args: ["--model", "{model}"],
+				prompt_via: "stdin",
+				output: "json",
+				input_tokens_path: "usage.input",
+			}),
+		);
+
+		expect(engine.capabilities).toMatchObject({
+			streaming: false,
+			modelOverride: true,
+			stdinPrompt: true,
+			tokenReporting: true,
+			costReporting: false,
+		});
+	});
+});
+
+describe("createEngine", () => {
+	afterEach(() => registerCustomEngines({}));
+
+	it("creates registered custom engines by name", () => {
+		registerCustomEngines({ "echo-bot": CustomEngineSchema.parse({ command: "echo" }) });
+
+		expect(createEngine("echo-bot")).toBeInstanceOf(CustomEngine);
+	});
+
+	it("rejects names that are neither built-in nor registered", () => {
+		expect(() => createEngine("echo-bot")).toThrow("Unknown AI engine: echo-bot");
+	});
+});
@@ -0,0 +1,254 @@
+import { randomUUID } from "node:crypto";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CustomEngineConfig } from "../config/types.ts";
+import { logDebug } from "../ui/logger.ts";
+import {
+	BaseAIEngine,
+	type ParsedEngineOutput,
+	checkForErrors,
+	execCommand,
+	execCommandStreaming,
+	formatCommandError,
+	parseStreamJsonResult,
+} from "./base.ts";
+import { createClaudeEventParser, createTextEventParser } from "./events.ts";
+import type { AIResult, AgentEventCallback, EngineCapabilities, EngineOptions } from "./types.ts";
+
+/** Directory for temporary prompt files (prompt_via: file) */
+const TEMP_DIR = join(tmpdir(), "ralphy-custom");
+
+/**
+ * The placeholder in an argument that has no value (`{model}` without a model,
+ * `{prompt}` when the prompt goes to stdin), if any
+ */
+function findUnfilledPlaceholder(
+	arg: string,
+	model: string | undefined,
+	promptViaStdin: boolean,
+): string | undefined {
+	if (arg.includes("{model}") && !model) return "{model}";
+	if (arg.includes("{prompt}") && promptViaStdin) return "{prompt}";
+	return undefined;
+}
+
+/**
+ * Build the argument list from the template.
+ *
+ * `{prompt}` becomes the prompt (arg) or prompt file path (file); it is appended
+ * when the template doesn't mention it. Without a model, arguments containing
+ * `{model}` are dropped together with the flag right before them
+ * (`["--model", "{model}"]` disappears as a pair). Arguments containing `{prompt}`
+ * are dropped the same way when the prompt goes to stdin.
+ */
+export function buildCustomEngineArgs(
+	config: CustomEngineConfig,
+	prompt: string,
+	options?: EngineOptions,
+): string[] {
+	const model = options?.modelOverride;
+	const promptViaStdin = config.prompt_via === "stdin";
+	const args: string[] = [];
+
+	for (const arg of config.args) {
+		const unfilled = findUnfilledPlaceholder(arg, model, promptViaStdin);
+		if (unfilled) {
+			if (arg === unfilled && args.at(-1)?.startsWith("-")) {
+				args.pop();
+			}
+			continue;
+		}
+		// Replacer functions, so "$&" or "$$" in the prompt aren't read as replacement patterns
+		args.push(arg.replaceAll("{model}", () => model ?? "").replaceAll("{prompt}", () => prompt));
+	}
+
+	if (!promptViaStdin && !config.args.some((arg) => arg.includes("{prompt}"))) {
+		args.push(prompt);
+	}
+	if (options?.engineArgs && options.engineArgs.length > 0) {
+		args.push(...options.engineArgs);
+	}
+	return args;
+}
+
+/**
+ * Read a value at a dot path (`usage.input_tokens`, `choices.0.text`)
+ */
+function getJsonPath(value: unknown, path: string): unknown {
+	let current = value;
+	for (const key of path.split(".")) {
+		if (current === null || typeof current !== "object") {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[key];
+	}
+	return current;
+}
+
+/**
+ * Parse the CLI's JSON output: the whole output, or else its last JSON line
+ */
+function parseJsonOutput(stdout: string): unknown {
+	try {
+		return JSON.parse(stdout.trim());
+	} catch {
+		const lines = stdout.split("\n").filter(Boolean).reverse();
+		for (const line of lines) {
+			try {
+				return JSON.parse(line);
+			} catch {
+				// Ignore non-JSON lines
+			}
+		}
+		return undefined;
+	}
+}
+
+/**
+ * Extract response and token counts according to the configured output format
+ */
+export function parseCustomEngineOutput(
+	config: CustomEngineConfig,
+	stdout: string,
+): ParsedEngineOutput {
+	if (config.output === "stream-json") {
+		return parseStreamJsonResult(stdout);
+	}
+
+	if (config.output === "json") {
+		const parsed = parseJsonOutput(stdout);
+		const response = config.response_path ? getJsonPath(parsed, config.response_path) : undefined;
+		return {
+			response: typeof response === "string" && response ? response : stdout.trim(),
+			inputTokens: Number(getJsonPath(parsed, config.input_tokens_path)) || 0,
+			outputTokens: Number(getJsonPath(parsed, config.output_tokens_path)) || 0,
+		};
+	}
+
+	return { response: stdout.trim() || "Task completed", inputTokens: 0, outputTokens: 0 };
+}
+
+/**
+ * Engine declared in the `engines:` section of .ralphy/config.yaml
+ */
+export class CustomEngine extends BaseAIEngine {
+	id: string;
+	name: string;
+	cliCommand: string;
+	capabilities: EngineCapabilities;
+
+	constructor(
+		key: string,
+		private readonly config: CustomEngineConfig,
+	) {
+		super();
+		this.id = key;
+		this.name = config.name || key;
+		this.cliCommand = config.command;
+		// Derived from the config: what the template passes and which output format is parsed
+		this.capabilities = {
+			streaming: config.output !== "json",
+			modelOverride: config.args.some((arg) => arg.includes("{model}")),
+			stdinPrompt: config.prompt_via === "stdin",
+			sessionResume: false,
+			tokenReporting:
+				config.output === "stream-json" ||
+				(config.output === "json" && !!(config.input_tokens_path || config.output_tokens_path)),
+			costReporting: config.output === "stream-json",
+			nativePermissions: false,
+		};
+	}
+
+	/**
+	 * Resolve the prompt argument, writing it to a temp file for prompt_via: file.
+	 * Returns the value for `{prompt}`, stdin content and a cleanup function.
+	 */
+	private preparePrompt(prompt: string): {
+		promptArg: string;
+		stdinContent?: string;
+		cleanup: () => void;
+	} {
+		if (this.config.prompt_via === "stdin") {
+			return { promptArg: "", stdinContent: prompt, cleanup: () => {} };
+		}
+		if (this.config.prompt_via === "file") {
+			mkdirSync(TEMP_DIR, { recursive: true });
+			const filepath = join(TEMP_DIR, `prompt-${randomUUID()}.md`);
+			writeFileSync(filepath, prompt, "utf-8");
+			return { promptArg: filepath, cleanup: () => rmSync(filepath, { force: true }) };
+		}
+		return { promptArg: prompt, cleanup: () => {} };
+	}
+
+	private toResult(stdout: string, output: string, exitCode: number): AIResult {
+		const error = checkForErrors(output);
+		if (error) {
+			return { success: false, response: "", inputTokens: 0, outputTokens: 0, error };
+		}
+
+		const parsed = parseCustomEngineOutput(this.config, stdout);
+		if (exitCode !== 0) {
+			return { success: false, ...parsed, error: formatCommandError(exitCode, output) };
+		}
+		return { success: true, ...parsed };
+	}
+
+	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
+		const { promptArg, stdinContent, cleanup } = this.preparePrompt(prompt);
+		try {
+			const args = buildCustomEngineArgs(this.config, promptArg, options);
+			logDebug(`[${this.name}] Command: ${this.cliCommand} (${args.length} args)`);
+
+			const { stdout, stderr, exitCode } = await execCommand(
+				this.cliCommand,
+				args,
+				workDir,
+				undefined,
+				stdinContent,
+				options?.timeouts,
+			);
+			return this.toResult(stdout, stdout + stderr, exitCode);
+		} finally {
+			cleanup();
+		}
+	}
+
+	async executeStreaming(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		// A single JSON document can't be read line by line, and stderr would corrupt it
+		if (!this.capabilities.streaming) {
+			return this.execute(prompt, workDir, options);
+		}
+
+		const { promptArg, stdinContent, cleanup } = this.preparePrompt(prompt);
+		try {
+			const args = buildCustomEngineArgs(this.config, promptArg, options);
+			const parseEvents =
+				this.config.output === "stream-json" ? createClaudeEventParser() : createTextEventParser();
+			const outputLines: string[] = [];
+			const { exitCode } = await execCommandStreaming(
+				this.cliCommand,
+				args,
+				workDir,
+				(line) => {
+					outputLines.push(line);
+					for (const event of parseEvents(line)) {
+						onEvent(event);
+					}
+				},
+				undefined,
+				stdinContent,
+				options?.timeouts,
+			);
+			const output = outputLines.join("\n");
+			return this.toResult(output, output, exitCode);
+		} finally {
+			cleanup();
+		}
+	}
+}
@@ -1,12 +1,18 @@
 import {
 	BaseAIEngine,
 	checkForErrors,
-	detectStepFromOutput,
 	execCommand,
 	execCommandStreaming,
 	formatCommandError,
 } from "./base.ts";
-import type { AIResult, EngineOptions, ProgressCallback } from "./types.ts";
+import { createDroidEventParser } from "./events.ts";
+import type {
+	AIResult,
+	AgentEventCallback,
+	EngineCapabilities,
+	EngineOptions,
+	PermissionSupport,
+} from "./types.ts";
 
 const isWindows = process.platform === "win32";
 
@@ -14,11 +20,30 @@ const isWindows = process.platform === "win32";
  * Factory Droid AI Engine
  */
 export class DroidEngine extends BaseAIEngine {
+	id = "droid";
 	name = "Factory Droid";
 	cliCommand = "droid";
+	capabilities: EngineCapabilities = {
+		streaming: true,
+		modelOverride: true,
+		stdinPrompt: true,
+		sessionResume: false,
+		tokenReporting: false,
+		costReporting: false,
+		nativePermissions: true,
+	};
+	permissionSupport: PermissionSupport = {
+		deniedPaths: false,
+		readOnlyPaths: false,
+		disallowedTools: true,
+		network: false,
+	};
 
 	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
 		const args = ["exec", "--output-format", "stream-json", "--auto", "medium"];
+		if (options?.permissions && options.permissions.disallowedTools.length > 0) {
+			args.push("--disabled-tools", options.permissions.disallowedTools.join(","));
+		}
 		if (options?.modelOverride) {
 			args.push("--model", options.modelOverride);
 		}
@@ -41,6 +66,7 @@ export class DroidEngine extends BaseAIEngine {
 			workDir,
 			undefined,
 			stdinContent,
+			options?.timeouts,
 		);
 
 		const output = stdout + stderr;
@@ -76,7 +102,7 @@ export class DroidEngine extends BaseAIEngine {
 			response,
 			inputTokens: 0, // Droid doesn't expose token counts in exec mode
 			outputTokens: 0,
-			cost: durationMs > 0 ? `duration:${durationMs}` : undefined,
+			durationMs: durationMs > 0 ? durationMs : undefined,
 		};
 	}
 
@@ -107,10 +133,13 @@ export class DroidEngine extends BaseAIEngine {
 	async executeStreaming(
 		prompt: string,
 		workDir: string,
-		onProgress: ProgressCallback,
+		onEvent: AgentEventCallback,
 		options?: EngineOptions,
 	): Promise<AIResult> {
 		const args = ["exec", "--output-format", "stream-json", "--auto", "medium"];
+		if (options?.permissions && options.permissions.disallowedTools.length > 0) {
+			args.push("--disabled-tools", options.permissions.disallowedTools.join(","));
+		}
 		if (options?.modelOverride) {
 			args.push("--model", options.modelOverride);
 		}
@@ -127,6 +156,7 @@ export class DroidEngine extends BaseAIEngine {
 			args.push(prompt);
 		}
 
+		const parseEvents = createDroidEventParser();
 		const outputLines: string[] = [];
 
 		const { exitCode } = await execCommandStreaming(
@@ -136,14 +166,13 @@ export class DroidEngine extends BaseAIEngine {
 			(line) => {
 				outputLines.push(line);
 
-				// Detect and report step changes
-				const step = detectStepFromOutput(line);
-				if (step) {
-					onProgress(step);
+				for (const event of parseEvents(line)) {
+					onEvent(event);
 				}
 			},
 			undefined,
 			stdinContent,
+			options?.timeouts,
 		);
 
 		const output = outputLines.join("\n");
@@ -179,7 +208,7 @@ export class DroidEngine extends BaseAIEngine {
 			response,
 			inputTokens: 0,
 			outputTokens: 0,
-			cost: durationMs > 0 ? `duration:${durationMs}` : undefined,
+			durationMs: durationMs > 0 ? durationMs : undefined,
 		};
 	}
 }
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "bun:test";
+import {
+	createClaudeEventParser,
+	createCodexEventParser,
+	createCursorEventParser,
+	createDroidEventParser,
+	createGeminiEventParser,
+	createOpenCodeEventParser,
+	createTextEventParser,
+	describeEvent,
+} from "./events.ts";
+
+const line = (value: unknown) => JSON.stringify(value);
+
+describe("createClaudeEventParser", () => {
+	it("parses tool calls, text, results and usage", () => {
+		const parse = createClaudeEventParser();
+
+		expect(
+			parse(
+				line({
+					type: "assistant",
+					message: {
+						content: [
+							{ type: "text", text: "Let me look" },
+							{ type: "tool_use", id: "t1", name: "Read", input: { file_path: "src/a.ts" } },
+						],
+					},
+				}),
+			),
+		).toEqual([
+			{ type: "assistant_text", text: "Let me look" },
+			{ type: "tool_call_start", tool: "Read", input: { file_path: "src/a.ts" } },
+			{ type: "file_read", path: "src/a.ts" },
+		]);
+		expect(
+			parse(
+				line({
+					type: "user",
+					message: { content: [{ type: "tool_result", tool_use_id: "t1", content: "code" }] },
+				}),
+			),
+		).toEqual([{ type: "tool_call_end", tool: "Read", success: true, output: "code" }]);
+		expect(
+			parse(line({ type: "result", result: "done", usage: { input_tokens: 5, output_tokens: 2 } })),
+		).toEqual([{ type: "token_usage", inputTokens: 5, outputTokens: 2 }]);
+	});
+
+	it("ignores non-JSON lines", () => {
+		expect(createClaudeEventParser()("Loading...")).toEqual([]);
+	});
+
+	it("skips fields with unexpected types", () => {
+		const parse = createClaudeEventParser();
+
+		expect(parse("[1, 2]")).toEqual([]);
+		expect(
+			parse(
+				line({ type: "assistant", message: { content: ["text", { type: "text", text: 42 }] } }),
+			),
+		).toEqual([]);
+		expect(parse(line({ type: "result", usage: { input_tokens: "5" }, is_error: true }))).toEqual([
+			{ type: "token_usage", inputTokens: 0, outputTokens: 0 },
+			{ type: "error", message: "Unknown error" },
+		]);
+	});
+});
+
+describe("engine-specific parsers", () => {
+	it("parses Cursor tool calls", () => {
+		const parse = createCursorEventParser();
+
+		expect(
+			parse(
+				line({
+					type: "tool_call",
+					subtype: "started",
+					tool_call: { shellToolCall: { args: { command: "bun test" } } },
+				}),
+			),
+		).toContainEqual({ type: "shell_command", command: "bun test" });
+	});
+
+	it("parses Gemini tool use and stats", () => {
+		const parse = createGeminiEventParser();
+		parse(line({ type: "tool_use", tool_name: "write_file", tool_id: "g1", parameters: {} }));
+
+		expect(parse(line({ type: "tool_result", tool_id: "g1", status: "error" }))).toEqual([
+			{ type: "tool_call_end", tool: "write_file", success: false, output: undefined },
+		]);
+		expect(parse(line({ type: "result", stats: { input_tokens: 3, output_tokens: 1 } }))).toEqual([
+			{ type: "token_usage", inputTokens: 3, outputTokens: 1 },
+		]);
+	});
+
+	it("parses Droid tool calls", () => {
+		const parse = createDroidEventParser();
+
+		expect(
+			parse(
+				line({ type: "tool_call", id: "d1", toolName: "Edit", parameters: { file_path: "x.ts" } }),
+			),
+		).toContainEqual({ type: "file_edit", path: "x.ts" });
+	});
+
+	it("parses OpenCode tool parts and step tokens", () => {
+		const parse = createOpenCodeEventParser();
+
+		expect(
+			parse(
+				line({
+					type: "tool_use",
+					part: { tool: "edit", state: { status: "completed", input: { filePath: "a.test.ts" } } },
+				}),
+			),
+		).toEqual([
+			{ type: "tool_call_start", tool: "edit", input: { filePath: "a.test.ts" } },
+			{ type: "file_edit", path: "a.test.ts" },
+			{ type: "tool_call_end", tool: "edit", success: true, output: undefined },
+		]);
+		expect(parse(line({ type: "step_finish", part: { tokens: { input: 9, output: 4 } } }))).toEqual(
+			[{ type: "token_usage", inputTokens: 9, outputTokens: 4 }],
+		);
+	});
+
+	it("parses Codex items and turn usage", () => {
+		const parse = createCodexEventParser();
+
+		expect(
+			parse(line({ type: "item.started", item: { type: "command_execution", command: "ls" } })),
+		).toContainEqual({ type: "shell_command", command: "ls" });
+		expect(
+			parse(
+				line({
+					type: "item.completed",
+					item: { type: "file_change", changes: [{ path: "src/a.ts", kind: "update" }] },
+				}),
+			),
+		).toEqual([{ type: "file_edit", path: "src/a.ts" }]);
+		expect(parse(line({ type: "turn.failed", error: { message: "quota exceeded" } }))).toEqual([
+			{ type: "error", message: "quota exceeded" },
+		]);
+	});
+});
+
+describe("createTextEventParser", () => {
+	it("guesses file and shell activity from plain-text lines", () => {
+		const parse = createTextEventParser();
+
+		expect(parse("Reading src/app.ts")).toEqual([{ type: "file_read", path: "src/app.ts" }]);
+		expect(parse("Edited `src/app.test.ts`")).toEqual([
+			{ type: "file_edit", path: "src/app.test.ts" },
+		]);
+		expect(parse("$ bun test")).toEqual([{ type: "shell_command", command: "bun test" }]);
+		expect(parse("Running: git commit -m 'feat'")).toEqual([
+			{ type: "shell_command", command: "git commit -m 'feat'" },
+		]);
+		expect(parse("I updated the README")).toEqual([
+			{ type: "assistant_text", text: "I updated the README" },
+		]);
+		expect(parse("   ")).toEqual([]);
+	});
+});
+
+describe("describeEvent", () => {
+	it("maps events to progress steps", () => {
+		expect(describeEvent({ type: "file_read", path: "a.ts" })).toBe("Reading code");
+		expect(describeEvent({ type: "file_edit", path: "src/a.ts" })).toBe("Implementing");
+		expect(describeEvent({ type: "file_edit", path: "src/a.test.ts" })).toBe("Writing tests");
+		expect(describeEvent({ type: "shell_command", command: "git commit -m x" })).toBe("Committing");
+		expect(describeEvent({ type: "shell_command", command: "npx vitest run" })).toBe("Testing");
+		expect(describeEvent({ type: "assistant_text", text: "hi" })).toBeNull();
+	});
+});
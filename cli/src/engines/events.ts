@@ -0,0 +1,512 @@
+/**
+ * Structured event emitted while an agent works
+ */
+export type AgentEvent =
+	| { type: "tool_call_start"; tool: string; input?: Record<string, unknown> }
+	| { type: "tool_call_end"; tool: string; success: boolean; output?: string }
+	| { type: "file_read"; path: string }
+	| { type: "file_edit"; path: string }
+	| { type: "shell_command"; command: string }
+	| { type: "assistant_text"; text: string }
+	| { type: "token_usage"; inputTokens: number; outputTokens: number }
+	| { type: "error"; message: string };
+
+/**
+ * Turns one line of an engine's native output into events. Parsers keep state
+ * across lines (e.g. tool call ids), so create one per execution.
+ */
+export type AgentEventParser = (line: string) => AgentEvent[];
+
+const READ_TOOLS = new Set([
+	"read",
+	"read_file",
+	"read_many_files",
+	"view",
+	"glob",
+	"grep",
+	"ls",
+	"list",
+	"list_directory",
+	"search",
+	"search_file_content",
+]);
+
+const EDIT_TOOLS = new Set([
+	"write",
+	"edit",
+	"multiedit",
+	"write_file",
+	"edit_file",
+	"replace",
+	"create",
+	"apply_patch",
+	"notebookedit",
+]);
+
+const SHELL_TOOLS = new Set([
+	"bash",
+	"shell",
+	"execute",
+	"exec",
+	"run_shell_command",
+	"command",
+	"terminal",
+]);
+
+/**
+ * Parse a JSON object line, or null for other output
+ */
+function parseLine(line: string): Record<string, unknown> | null {
+	const trimmed = line.trim();
+	if (!trimmed.startsWith("{")) {
+		return null;
+	}
+	try {
+		return asRecord(JSON.parse(trimmed)) ?? null;
+	} catch {
+		return null;
+	}
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+	return value && typeof value === "object" && !Array.isArray(value)
+		? (value as Record<string, unknown>)
+		: undefined;
+}
+
+/** The objects in a JSON array, ignoring anything else */
+function asRecords(value: unknown): Record<string, unknown>[] {
+	if (!Array.isArray(value)) return [];
+	return value.map(asRecord).filter((item): item is Record<string, unknown> => !!item);
+}
+
+function asString(value: unknown): string | undefined {
+	return typeof value === "string" ? value : undefined;
+}
+
+/** A token count, 0 when missing */
+function asCount(value: unknown): number {
+	return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/** `error.message` or `message`, whichever the engine sent */
+function errorMessage(parsed: Record<string, unknown>): string {
+	return asString(asRecord(parsed.error)?.message) || asString(parsed.message) || "Unknown error";
+}
+
+function stringify(value: unknown): string | undefined {
+	if (value === undefined || value === null) return undefined;
+	return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Events for a tool call starting: the call itself plus the file read/edit or
+ * shell command it represents, derived from the tool name and input
+ */
+function toolCallStart(tool: string, input?: Record<string, unknown>): AgentEvent[] {
+	const events: AgentEvent[] = [{ type: "tool_call_start", tool, input }];
+	const name = tool.toLowerCase();
+	const path = input?.file_path ?? input?.filePath ?? input?.absolute_path ?? input?.path;
+	const command = input?.command ?? input?.cmd;
+
+	if (SHELL_TOOLS.has(name) && typeof command === "string") {
+		events.push({ type: "shell_command", command });
+	} else if (EDIT_TOOLS.has(name) && typeof path === "string") {
+		events.push({ type: "file_edit", path });
+	} else if (READ_TOOLS.has(name) && typeof path === "string") {
+		events.push({ type: "file_read", path });
+	}
+	return events;
+}
+
+/**
+ * Claude Code stream-json (also used by Qwen-Code and custom stream-json engines)
+ */
+export function createClaudeEventParser(): AgentEventParser {
+	const toolNames = new Map<string, string>();
+
+	return (line) => {
+		const parsed = parseLine(line);
+		if (!parsed) return [];
+
+		const events: AgentEvent[] = [];
+		const content = asRecords(asRecord(parsed.message)?.content);
+
+		if (parsed.type === "assistant") {
+			for (const item of content) {
+				const text = asString(item.text);
+				const name = asString(item.name);
+				const id = asString(item.id);
+				if (item.type === "text" && text) {
+					events.push({ type: "assistant_text", text });
+				} else if (item.type === "tool_use" && name) {
+					if (id) toolNames.set(id, name);
+					events.push(...toolCallStart(name, asRecord(item.input)));
+				}
+			}
+		} else if (parsed.type === "user") {
+			for (const item of content) {
+				if (item.type === "tool_result") {
+					events.push({
+						type: "tool_call_end",
+						tool: toolNames.get(asString(item.tool_use_id) ?? "") ?? "unknown",
+						success: !item.is_error,
+						output: stringify(item.content),
+					});
+				}
+			}
+		} else if (parsed.type === "result") {
+			const usage = asRecord(parsed.usage);
+			if (usage) {
+				events.push({
+					type: "token_usage",
+					inputTokens: asCount(usage.input_tokens),
+					outputTokens: asCount(usage.output_tokens),
+				});
+			}
+			if (parsed.is_error) {
+				events.push({ type: "error", message: asString(parsed.result) || "Unknown error" });
+			}
+		} else if (parsed.type === "error") {
+			events.push({ type: "error", message: errorMessage(parsed) });
+		}
+		return events;
+	};
+}
+
+/**
+ * Cursor Agent stream-json: Claude-style messages plus `tool_call` started/completed
+ * events keyed by tool kind (`readToolCall`, `editToolCall`, `shellToolCall`, ...)
+ */
+export function createCursorEventParser(): AgentEventParser {
+	const claude = createClaudeEventParser();
+
+	return (line) => {
+		const parsed = parseLine(line);
+		if (parsed?.type !== "tool_call") {
+			return claude(line);
+		}
+
+		const toolCall = asRecord(parsed.tool_call) ?? {};
+		const [kind] = Object.keys(toolCall);
+		if (!kind) return [];
+		const call = asRecord(toolCall[kind]) ?? {};
+		const result = asRecord(call.result);
+		const tool = kind.replace(/ToolCall$/, "");
+		const normalized = tool === "shell" ? "bash" : tool;
+
+		if (parsed.subtype === "started") {
+			return toolCallStart(normalized, asRecord(call.args));
+		}
+		if (parsed.subtype === "completed") {
+			return [
+				{
+					type: "tool_call_end",
+					tool: normalized,
+					success: !result?.error && !result?.failure,
+					output: stringify(result?.success ?? result?.error),
+				},
+			];
+		}
+		return [];
+	};
+}
+
+/**
+ * Gemini CLI stream-json: `tool_use`/`tool_result`/`message` events with
+ * `result` stats; falls back to the Claude format for other lines
+ */
+export function createGeminiEventParser(): AgentEventParser {
+	const claude = createClaudeEventParser();
+	const toolNames = new Map<string, string>();
+
+	return (line) => {
+		const parsed = parseLine(line);
+		if (!parsed) return [];
+
+		const toolId = asString(parsed.tool_id);
+		switch (parsed.type) {
+			case "tool_use": {
+				const toolName = asString(parsed.tool_name);
+				if (toolId && toolName) toolNames.set(toolId, toolName);
+				return toolCallStart(toolName ?? "unknown", asRecord(parsed.parameters));
+			}
+			case "tool_result":
+				return [
+					{
+						type: "tool_call_end",
+						tool: toolNames.get(toolId ?? "") ?? "unknown",
+						success: parsed.status !== "error",
+						output: stringify(parsed.output ?? asRecord(parsed.error)?.message),
+					},
+				];
+			case "message":
+				return parsed.role === "assistant" && parsed.content
+					? [{ type: "assistant_text", text: String(parsed.content) }]
+					: [];
+			case "result": {
+				const stats = asRecord(parsed.stats);
+				if (stats) {
+					return [
+						{
+							type: "token_usage",
+							inputTokens: asCount(stats.input_tokens),
+							outputTokens: asCount(stats.output_tokens),
+						},
+					];
+				}
+				return claude(line);
+			}
+			default:
+				return claude(line);
+		}
+	};
+}
+
+/**
+ * Factory Droid stream-json: `tool_call`/`tool_result`/`message` events and a
+ * final `completion`
+ */
+export function createDroidEventParser(): AgentEventParser {
+	const toolNames = new Map<string, string>();
+
+	return (line) => {
+		const parsed = parseLine(line);
+		if (!parsed) return [];
+
+		const id = asString(parsed.id);
+		switch (parsed.type) {
+			case "tool_call": {
+				const toolName = asString(parsed.toolName);
+				if (id && toolName) toolNames.set(id, toolName);
+				return toolCallStart(toolName ?? "unknown", asRecord(parsed.parameters));
+			}
+			case "tool_result":
+				return [
+					{
+						type: "tool_call_end",
+						tool: toolNames.get(asString(parsed.toolId) ?? id ?? "") ?? "unknown",
+						success: !parsed.isError,
+						output: stringify(parsed.value),
+					},
+				];
+			case "message": {
+				const text = asString(parsed.text);
+				return parsed.role === "assistant" && text ? [{ type: "assistant_text", text }] : [];
+			}
+			case "completion": {
+				const usage = asRecord(parsed.usage);
+				return usage
+					? [
+							{
+								type: "token_usage",
+								inputTokens: asCount(usage.input_tokens),
+								outputTokens: asCount(usage.output_tokens),
+							},
+						]
+					: [];
+			}
+			case "error":
+				return [{ type: "error", message: asString(parsed.message) || "Unknown error" }];
+			default:
+				return [];
+		}
+	};
+}
+
+/**
+ * OpenCode `--format json`: `tool_use` parts (reported once finished), `text`
+ * parts and `step_finish` token counts
+ */
+export function createOpenCodeEventParser(): AgentEventParser {
+	return (line) => {
+		const parsed = parseLine(line);
+		if (!parsed) return [];
+
+		const part = asRecord(parsed.part) ?? {};
+		switch (parsed.type) {
+			case "tool_use": {
+				const tool = asString(part.tool) ?? "unknown";
+				const state = asRecord(part.state) ?? {};
+				const events = toolCallStart(tool, asRecord(state.input));
+				if (state.status === "completed" || state.status === "error") {
+					events.push({
+						type: "tool_call_end",
+						tool,
+						success: state.status === "completed",
+						output: stringify(state.output ?? state.error),
+					});
+				}
+				return events;
+			}
+			case "text": {
+				const text = asString(part.text);
+				return text ? [{ type: "assistant_text", text }] : [];
+			}
+			case "step_finish": {
+				const tokens = asRecord(part.tokens);
+				return [
+					{
+						type: "token_usage",
+						inputTokens: asCount(tokens?.input),
+						outputTokens: asCount(tokens?.output),
+					},
+				];
+			}
+			case "error": {
+				const error = asRecord(parsed.error);
+				return [
+					{
+						type: "error",
+						message:
+							asString(asRecord(error?.data)?.message) ||
+							asString(error?.message) ||
+							"Unknown error",
+					},
+				];
+			}
+			default:
+				return [];
+		}
+	};
+}
+
+/**
+ * Codex `exec --json`: `item.started`/`item.completed` for commands, file
+ * changes and messages, plus `turn.completed` usage
+ */
+export function createCodexEventParser(): AgentEventParser {
+	return (line) => {
+		const parsed = parseLine(line);
+		if (!parsed) return [];
+
+		const item = asRecord(parsed.item) ?? {};
+		const mcpTool = asString(item.tool) ?? "mcp";
+		switch (parsed.type) {
+			case "item.started":
+				if (item.type === "command_execution") {
+					return toolCallStart("bash", { command: item.command });
+				}
+				if (item.type === "mcp_tool_call") {
+					return toolCallStart(mcpTool, asRecord(item.arguments));
+				}
+				return [];
+			case "item.completed": {
+				if (item.type === "command_execution") {
+					return [
+						{
+							type: "tool_call_end",
+							tool: "bash",
+							success: item.exit_code === 0 || item.status === "completed",
+							output: asString(item.aggregated_output),
+						},
+					];
+				}
+				if (item.type === "mcp_tool_call") {
+					return [{ type: "tool_call_end", tool: mcpTool, success: item.status !== "failed" }];
+				}
+				if (item.type === "file_change") {
+					return asRecords(item.changes).flatMap((change): AgentEvent[] => {
+						const path = asString(change.path);
+						return path ? [{ type: "file_edit", path }] : [];
+					});
+				}
+				const text = asString(item.text);
+				if (item.type === "agent_message" && text) {
+					return [{ type: "assistant_text", text }];
+				}
+				return [];
+			}
+			case "turn.completed": {
+				const usage = asRecord(parsed.usage);
+				return [
+					{
+						type: "token_usage",
+						inputTokens: asCount(usage?.input_tokens),
+						outputTokens: asCount(usage?.output_tokens),
+					},
+				];
+			}
+			case "turn.failed":
+			case "error":
+				return [{ type: "error", message: errorMessage(parsed) }];
+			default:
+				return [];
+		}
+	};
+}
+
+const TEXT_SHELL_PATTERN =
+	/^(?:\$|>)\s+(.+)$|^(?:running|executing|run|exec)(?: command)?:?\s+`?([^`]+)`?$/i;
+const TEXT_EDIT_PATTERN =
+	/^(?:editing|edited|writing|wrote|creating|created|updating|updated|modifying|modified)(?: file)?:?\s+`?([^\s`]+)`?/i;
+const TEXT_READ_PATTERN =
+	/^(?:reading|read|viewing|viewed|opening|opened|searching|inspecting)(?: file)?:?\s+`?([^\s`]+)`?/i;
+
+/**
+ * Plain-text output (Copilot, custom text engines): no structured stream, so
+ * guess file reads/edits and shell commands from common line prefixes and
+ * report everything else as assistant text
+ */
+export function createTextEventParser(): AgentEventParser {
+	return (line) => {
+		const trimmed = line.trim();
+		if (!trimmed) return [];
+
+		const shell = trimmed.match(TEXT_SHELL_PATTERN);
+		const command = shell?.[1] ?? shell?.[2];
+		if (command) {
+			return [{ type: "shell_command", command: command.trim() }];
+		}
+
+		const edit = trimmed.match(TEXT_EDIT_PATTERN);
+		if (edit?.[1]) {
+			return [{ type: "file_edit", path: edit[1] }];
+		}
+
+		const read = trimmed.match(TEXT_READ_PATTERN);
+		if (read?.[1]) {
+			return [{ type: "file_read", path: read[1] }];
+		}
+
+		return [{ type: "assistant_text", text: trimmed }];
+	};
+}
+
+/**
+ * Check if a file path looks like a test file
+ */
+function isTestFile(filePath: string): boolean {
+	const lower = filePath.toLowerCase();
+	return (
+		lower.includes(".test.") ||
+		lower.includes(".spec.") ||
+		lower.includes("__tests__") ||
+		lower.includes("_test.go")
+	);
+}
+
+/**
+ * Describe an event as a short progress step ("Reading code", "Testing", ...)
+ * Returns null for events that don't change what the agent is doing.
+ */
+export function describeEvent(event: AgentEvent): string | null {
+	switch (event.type) {
+		case "file_read":
+			return "Reading code";
+		case "file_edit":
+			return isTestFile(event.path) ? "Writing tests" : "Implementing";
+		case "shell_command": {
+			const command = event.command.toLowerCase();
+			if (command.includes("git commit")) return "Committing";
+			if (command.includes("git add")) return "Staging";
+			if (/lint|eslint|biome|prettier/.test(command)) return "Linting";
+			if (/vitest|jest|bun test|npm test|pytest|go test|cargo test/.test(command)) {
+				return "Testing";
+			}
+			return "Running command";
+		}
+		default:
+			return null;
+	}
+}
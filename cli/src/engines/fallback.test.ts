@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import { FallbackEngine } from "./fallback.ts";
+import type { AIEngine, AIResult, EngineOptions } from "./types.ts";
+
+function fakeEngine(name: string, result: Partial<AIResult>, available = true) {
+	const calls: string[] = [];
+	const options: (EngineOptions | undefined)[] = [];
+	const engine: AIEngine = {
+		id: name.toLowerCase(),
+		name,
+		cliCommand: name.toLowerCase(),
+		capabilities: {
+			streaming: false,
+			modelOverride: true,
+			stdinPrompt: false,
+			sessionResume: false,
+			tokenReporting: false,
+			costReporting: false,
+			nativePermissions: false,
+		},
+		isAvailable: async () => available,
+		execute: async (prompt, _workDir, engineOptions) => {
+			calls.push(prompt);
+			options.push(engineOptions);
+			return { success: false, response: "", inputTokens: 0, outputTokens: 0, ...result };
+		},
+	};
+	return { engine, calls, options };
+}
+
+describe("FallbackEngine", () => {
+	it("switches to the next engine on quota errors and stays there", async () => {
+		const primary = fakeEngine("Claude", { error: "You've hit your limit" });
+		const backup = fakeEngine("Codex", { success: true, response: "done" });
+		const engine = new FallbackEngine([primary.engine, backup.engine]);
+
+		expect((await engine.execute("one", "/tmp")).response).toBe("done");
+		expect((await engine.execute("two", "/tmp")).response).toBe("done");
+
+		expect(primary.calls).toEqual(["one"]);
+		expect(backup.calls).toEqual(["one", "two"]);
+		expect(engine.name).toBe("Codex");
+		expect(engine.getSwitches()).toEqual([
+			{ from: "Claude", to: "Codex", reason: "You've hit your limit" },
+		]);
+	});
+
+	it("skips unavailable engines", async () => {
+		const primary = fakeEngine("Claude", { error: "API overloaded" });
+		const missing = fakeEngine("Gemini", { success: true }, false);
+		const backup = fakeEngine("Codex", { success: true, response: "done" });
+		const engine = new FallbackEngine([primary.engine, missing.engine, backup.engine]);
+
+		await engine.execute("task", "/tmp");
+
+		expect(missing.calls).toHaveLength(0);
+		expect(engine.name).toBe("Codex");
+	});
+
+	it("keeps other failures on the current engine", async () => {
+		const primary = fakeEngine("Claude", { error: "Tests failed" });
+		const backup = fakeEngine("Codex", { success: true });
+		const engine = new FallbackEngine([primary.engine, backup.engine]);
+
+		const result = await engine.execute("task", "/tmp");
+
+		expect(result.error).toBe("Tests failed");
+		expect(backup.calls).toHaveLength(0);
+		expect(engine.getSwitches()).toHaveLength(0);
+	});
+
+	it("only switches on a missing command when the engine's CLI is gone", async () => {
+		const error = "Command failed with exit code 1. Output:\nsh: 1: jest: command not found";
+		const working = fakeEngine("Claude", { error });
+		const backup = fakeEngine("Codex", { success: true, response: "done" });
+		const engine = new FallbackEngine([working.engine, backup.engine]);
+
+		expect((await engine.execute("task", "/tmp")).error).toBe(error);
+		expect(backup.calls).toHaveLength(0);
+
+		const missing = fakeEngine("Claude", { error: "Spawn error: spawn claude ENOENT" }, false);
+		const fallback = new FallbackEngine([missing.engine, backup.engine]);
+
+		expect((await fallback.execute("task", "/tmp")).response).toBe("done");
+		expect(fallback.name).toBe("Codex");
+	});
+
+	it("returns the last error when the chain is exhausted", async () => {
+		const primary = fakeEngine("Claude", { error: "quota exceeded" });
+		const backup = fakeEngine("Codex", { error: "rate limit reached" });
+		const engine = new FallbackEngine([primary.engine, backup.engine]);
+
+		expect((await engine.execute("task", "/tmp")).error).toBe("rate limit reached");
+	});
+
+	it("only resumes the session on the engine the call started with", async () => {
+		const primary = fakeEngine("Claude", { error: "quota exceeded" });
+		const backup = fakeEngine("Codex", { success: true });
+		const engine = new FallbackEngine([primary.engine, backup.engine]);
+		const resume = { sessionId: "abc", prompt: "continue" };
+
+		await engine.execute("task", "/tmp", { modelOverride: "sonnet", resume });
+
+		expect(primary.options[0]?.resume).toBe(resume);
+		expect(backup.options[0]).toEqual({ modelOverride: "sonnet", resume: undefined });
+	});
+
+	it("moves past a missing primary CLI when checking availability", async () => {
+		const primary = fakeEngine("Claude", { success: true }, false);
+		const backup = fakeEngine("Codex", { success: true });
+		const engine = new FallbackEngine([primary.engine, backup.engine]);
+
+		expect(await engine.isAvailable()).toBe(true);
+		expect(engine.name).toBe("Codex");
+	});
+});
@@ -0,0 +1,154 @@
+import { isFallbackError, isMissingCommandError } from "../execution/retry.ts";
+import { logDebug, logWarn } from "../ui/logger.ts";
+import type {
+	AIEngine,
+	AIResult,
+	AgentEventCallback,
+	EngineCapabilities,
+	EngineOptions,
+	EngineSwitch,
+	PermissionSupport,
+} from "./types.ts";
+
+/**
+ * Engine that delegates to the first engine of a chain and moves to the next
+ * available one when the current engine is rate-limited, overloaded or missing.
+ * The switch sticks for the rest of the run.
+ */
+export class FallbackEngine implements AIEngine {
+	private current = 0;
+	private readonly switches: EngineSwitch[] = [];
+
+	constructor(private readonly engines: AIEngine[]) {
+		if (engines.length === 0) {
+			throw new Error("Fallback chain needs at least one engine");
+		}
+	}
+
+	get id(): string {
+		return this.engines[this.current].id;
+	}
+
+	get name(): string {
+		return this.engines[this.current].name;
+	}
+
+	get cliCommand(): string {
+		return this.engines[this.current].cliCommand;
+	}
+
+	get capabilities(): EngineCapabilities {
+		return this.engines[this.current].capabilities;
+	}
+
+	get permissionSupport(): PermissionSupport | undefined {
+		return this.engines[this.current].permissionSupport;
+	}
+
+	getSwitches(): EngineSwitch[] {
+		return [...this.switches];
+	}
+
+	/**
+	 * Check the current engine, moving down the chain if it isn't installed
+	 */
+	async isAvailable(): Promise<boolean> {
+		const index = this.current;
+		if (await this.engines[index].isAvailable()) {
+			return true;
+		}
+		return this.switchFrom(index, `'${this.engines[index].cliCommand}' not installed`);
+	}
+
+	execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
+		return this.run(options, (engine, engineOptions) =>
+			engine.execute(prompt, workDir, engineOptions),
+		);
+	}
+
+	executeStreaming(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		return this.run(options, (engine, engineOptions) =>
+			engine.capabilities.streaming && engine.executeStreaming
+				? engine.executeStreaming(prompt, workDir, onEvent, engineOptions)
+				: engine.execute(prompt, workDir, engineOptions),
+		);
+	}
+
+	/**
+	 * Run an attempt on the current engine, moving down the chain on fallback errors.
+	 * A session to resume belongs to the engine the call started on, so engines
+	 * switched to mid-call start fresh with the full prompt.
+	 */
+	private async run(
+		options: EngineOptions | undefined,
+		attempt: (engine: AIEngine, options?: EngineOptions) => Promise<AIResult>,
+	): Promise<AIResult> {
+		const startIndex = this.current;
+		while (true) {
+			const index = this.current;
+			const engineOptions =
+				index === startIndex || !options?.resume ? options : { ...options, resume: undefined };
+			let result: AIResult;
+			try {
+				result = await attempt(this.engines[index], engineOptions);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				if ((await this.cannotServe(index, message)) && (await this.switchFrom(index, message))) {
+					continue;
+				}
+				throw error;
+			}
+
+			if (result.success || !result.error || !(await this.cannotServe(index, result.error))) {
+				return result;
+			}
+			if (!(await this.switchFrom(index, result.error))) {
+				return result;
+			}
+		}
+	}
+
+	/**
+	 * Whether the engine at `index` failed because it can't serve requests: quota and
+	 * overload errors, or a missing CLI (checked with isAvailable, since a command the
+	 * agent ran may have failed with the same message)
+	 */
+	private async cannotServe(index: number, error: string): Promise<boolean> {
+		if (isFallbackError(error)) {
+			return true;
+		}
+		return isMissingCommandError(error) && !(await this.engines[index].isAvailable());
+	}
+
+	/**
+	 * Move past the engine at `index`. Returns false when the chain is exhausted.
+	 */
+	private async switchFrom(index: number, reason: string): Promise<boolean> {
+		for (let next = index + 1; next < this.engines.length; next++) {
+			// Another parallel agent may have switched while we were waiting
+			if (this.current !== index) {
+				return true;
+			}
+			const candidate = this.engines[next];
+			if (!(await candidate.isAvailable())) {
+				logDebug(`Fallback engine ${candidate.name} not available, skipping`);
+				continue;
+			}
+			if (this.current !== index) {
+				return true;
+			}
+
+			const from = this.engines[index].name;
+			logWarn(`${from} failed (${reason.split("\n")[0]}), switching to ${candidate.name}`);
+			this.switches.push({ from, to: candidate.name, reason });
+			this.current = next;
+			return true;
+		}
+		return this.current !== index;
+	}
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as baseModule from "./base.ts";
+import { GeminiEngine } from "./gemini.ts";
+import type { EnginePermissions } from "./types.ts";
+
+const permissions: EnginePermissions = {
+	deniedPaths: [],
+	readOnlyPaths: [],
+	disallowedTools: ["run_shell_command"],
+	network: false,
+};
+
+describe("GeminiEngine settings", () => {
+	let dir: string;
+	let previousPath: string | undefined;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-gemini-test-"));
+		previousPath = process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+	});
+
+	afterEach(() => {
+		if (previousPath === undefined) {
+			Reflect.deleteProperty(process.env, "GEMINI_CLI_SYSTEM_SETTINGS_PATH");
+		} else {
+			process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = previousPath;
+		}
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	/** Run the engine and return the settings it pointed Gemini CLI at */
+	const runWithSettings = async (): Promise<unknown> => {
+		let settings: unknown;
+		const spy = spyOn(baseModule, "execCommand").mockImplementation(
+			async (_cmd, _args, _cwd, env) => {
+				const path = env?.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+				settings = path ? JSON.parse(readFileSync(path, "utf-8")) : undefined;
+				return { stdout: "", stderr: "", exitCode: 0 };
+			},
+		);
+		try {
+			await new GeminiEngine().execute("test prompt", dir, { permissions });
+		} finally {
+			spy.mockRestore();
+		}
+		return settings;
+	};
+
+	it("adds the exclusions to the existing system settings", async () => {
+		const systemSettings = join(dir, "system.json");
+		writeFileSync(
+			systemSettings,
+			JSON.stringify({
+				security: { auth: { enforcedType: "vertex-ai" } },
+				tools: { sandbox: true, exclude: ["web_fetch"] },
+			}),
+		);
+		process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = systemSettings;
+
+		expect(await runWithSettings()).toEqual({
+			security: { auth: { enforcedType: "vertex-ai" } },
+			tools: { sandbox: true, exclude: ["web_fetch", "run_shell_command", "google_web_search"] },
+		});
+	});
+
+	it("writes only the exclusions without system settings", async () => {
+		process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(dir, "missing.json");
+
+		expect(await runWithSettings()).toEqual({
+			tools: { exclude: ["run_shell_command", "web_fetch", "google_web_search"] },
+		});
+	});
+
+	it("leaves system settings it can't parse in place", async () => {
+		const systemSettings = join(dir, "system.json");
+		writeFileSync(systemSettings, "{ // policy\n}");
+		process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = systemSettings;
+
+		expect(await runWithSettings()).toBeUndefined();
+	});
+});
@@ -1,23 +1,147 @@
+import { randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { logDebug, logWarn } from "../ui/logger.ts";
 import {
 	BaseAIEngine,
 	checkForErrors,
-	detectStepFromOutput,
 	execCommand,
 	execCommandStreaming,
 	formatCommandError,
 	parseStreamJsonResult,
 } from "./base.ts";
-import type { AIResult, EngineOptions, ProgressCallback } from "./types.ts";
+import { createGeminiEventParser } from "./events.ts";
+import type {
+	AIResult,
+	AgentEventCallback,
+	EngineCapabilities,
+	EngineOptions,
+	PermissionSupport,
+} from "./types.ts";
 
 const isWindows = process.platform === "win32";
 
+/** Directory for temporary settings files */
+const TEMP_DIR = join(tmpdir(), "ralphy-gemini");
+
+/**
+ * System settings file Gemini CLI reads (admin and enterprise policy), as it locates it
+ */
+function systemSettingsPath(): string {
+	if (process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH) {
+		return process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+	}
+	if (process.platform === "darwin") {
+		return "/Library/Application Support/GeminiCli/settings.json";
+	}
+	if (isWindows) {
+		return "C:\\ProgramData\\gemini-cli\\settings.json";
+	}
+	return "/etc/gemini-cli/settings.json";
+}
+
+/**
+ * Read the system settings to build on, {} when there are none.
+ * Returns null when the file exists but can't be read as JSON.
+ */
+function readSystemSettings(): Record<string, unknown> | null {
+	const path = systemSettingsPath();
+	if (!existsSync(path)) {
+		return {};
+	}
+	try {
+		const settings: unknown = JSON.parse(readFileSync(path, "utf-8"));
+		if (settings && typeof settings === "object" && !Array.isArray(settings)) {
+			return settings as Record<string, unknown>;
+		}
+	} catch (error) {
+		logDebug(`[Gemini] Failed to parse ${path}: ${error}`);
+	}
+	return null;
+}
+
+/**
+ * Environment pointing Gemini CLI at a settings file
+ */
+function settingsEnv(settingsFile: string | undefined): Record<string, string> | undefined {
+	return settingsFile ? { GEMINI_CLI_SYSTEM_SETTINGS_PATH: settingsFile } : undefined;
+}
+
 /**
  * Gemini CLI AI Engine
  * https://github.com/google-gemini/gemini-cli
  */
 export class GeminiEngine extends BaseAIEngine {
+	id = "gemini";
 	name = "Gemini CLI";
 	cliCommand = "gemini";
+	capabilities: EngineCapabilities = {
+		streaming: true,
+		modelOverride: true,
+		stdinPrompt: true,
+		sessionResume: false,
+		tokenReporting: true,
+		costReporting: false,
+		nativePermissions: true,
+	};
+	permissionSupport: PermissionSupport = {
+		deniedPaths: false,
+		readOnlyPaths: false,
+		disallowedTools: true,
+		network: false,
+	};
+
+	/**
+	 * Write a settings file excluding the disallowed tools (and the web tools when the
+	 * network is off). Gemini CLI has no flag for this, so the file stands in for the
+	 * system settings, which take precedence over user and project settings. It is a
+	 * copy of the existing system settings with the exclusions added, so admin policy
+	 * still applies.
+	 * @returns The file path, or undefined when there is nothing to exclude
+	 */
+	private createSettingsFile(options?: EngineOptions): string | undefined {
+		const permissions = options?.permissions;
+		const exclude = [
+			...(permissions?.disallowedTools ?? []),
+			...(permissions && !permissions.network ? ["web_fetch", "google_web_search"] : []),
+		];
+		if (exclude.length === 0) {
+			return undefined;
+		}
+
+		const settings = readSystemSettings();
+		if (!settings) {
+			// Never replace a policy we can't carry over; the prompt still lists the rules
+			logWarn(`Couldn't read ${systemSettingsPath()}, not excluding Gemini tools`);
+			return undefined;
+		}
+		const tools =
+			settings.tools && typeof settings.tools === "object"
+				? (settings.tools as Record<string, unknown>)
+				: {};
+		const existing = Array.isArray(tools.exclude) ? tools.exclude : [];
+		const merged = {
+			...settings,
+			tools: { ...tools, exclude: [...new Set([...existing, ...exclude])] },
+		};
+
+		mkdirSync(TEMP_DIR, { recursive: true });
+		const filepath = join(TEMP_DIR, `settings-${randomUUID()}.json`);
+		writeFileSync(filepath, JSON.stringify(merged), "utf-8");
+		return filepath;
+	}
+
+	private cleanupSettingsFile(filepath: string | undefined): void {
+		if (!filepath) {
+			return;
+		}
+		try {
+			unlinkSync(filepath);
+		} catch {
+			logDebug(`[Gemini] Failed to cleanup settings file: ${filepath}`);
+		}
+	}
 
 	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
 		const args = ["--output-format", "stream-json", "--yolo"];
@@ -38,13 +162,15 @@ export class GeminiEngine extends BaseAIEngine {
 			args.push("-p", prompt);
 		}
 
+		const settingsFile = this.createSettingsFile(options);
 		const { stdout, stderr, exitCode } = await execCommand(
 			this.cliCommand,
 			args,
 			workDir,
-			undefined,
+			settingsEnv(settingsFile),
 			stdinContent,
-		);
+			options?.timeouts,
+		).finally(() => this.cleanupSettingsFile(settingsFile));
 
 		const output = stdout + stderr;
 
@@ -61,31 +187,27 @@ export class GeminiEngine extends BaseAIEngine {
 		}
 
 		// Parse result (same format as Claude/Qwen)
-		const { response, inputTokens, outputTokens } = parseStreamJsonResult(output);
+		const parsed = parseStreamJsonResult(output);
 
 		// If command failed with non-zero exit code, provide a meaningful error
 		if (exitCode !== 0) {
 			return {
 				success: false,
-				response,
-				inputTokens,
-				outputTokens,
+				...parsed,
 				error: formatCommandError(exitCode, output),
 			};
 		}
 
 		return {
 			success: true,
-			response,
-			inputTokens,
-			outputTokens,
+			...parsed,
 		};
 	}
 
 	async executeStreaming(
 		prompt: string,
 		workDir: string,
-		onProgress: ProgressCallback,
+		onEvent: AgentEventCallback,
 		options?: EngineOptions,
 	): Promise<AIResult> {
 		const args = ["--output-format", "stream-json", "--yolo"];
@@ -106,8 +228,10 @@ export class GeminiEngine extends BaseAIEngine {
 			args.push("-p", prompt);
 		}
 
+		const parseEvents = createGeminiEventParser();
 		const outputLines: string[] = [];
 
+		const settingsFile = this.createSettingsFile(options);
 		const { exitCode } = await execCommandStreaming(
 			this.cliCommand,
 			args,
@@ -115,15 +239,14 @@ export class GeminiEngine extends BaseAIEngine {
 			(line) => {
 				outputLines.push(line);
 
-				// Detect and report step changes
-				const step = detectStepFromOutput(line);
-				if (step) {
-					onProgress(step);
+				for (const event of parseEvents(line)) {
+					onEvent(event);
 				}
 			},
-			undefined,
+			settingsEnv(settingsFile),
 			stdinContent,
-		);
+			options?.timeouts,
+		).finally(() => this.cleanupSettingsFile(settingsFile));
 
 		const output = outputLines.join("\n");
 
@@ -140,24 +263,20 @@ export class GeminiEngine extends BaseAIEngine {
 		}
 
 		// Parse result (same format as Claude/Qwen)
-		const { response, inputTokens, outputTokens } = parseStreamJsonResult(output);
+		const parsed = parseStreamJsonResult(output);
 
 		// If command failed with non-zero exit code, provide a meaningful error
 		if (exitCode !== 0) {
 			return {
 				success: false,
-				response,
-				inputTokens,
-				outputTokens,
+				...parsed,
 				error: formatCommandError(exitCode, output),
 			};
 		}
 
 		return {
 			success: true,
-			response,
-			inputTokens,
-			outputTokens,
+			...parsed,
 		};
 	}
 }
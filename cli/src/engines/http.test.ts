@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AgentEvent } from "./events.ts";
+import { HttpEngine } from "./http.ts";
+
+interface ChatRequest {
+	model: string;
+	messages: { role: string; content: string | null }[];
+}
+
+/** Assistant message that calls one tool */
+const toolCall = (id: string, name: string, args: Record<string, unknown>) => ({
+	choices: [
+		{
+			message: {
+				role: "assistant",
+				content: null,
+				tool_calls: [{ id, type: "function", function: { name, arguments: JSON.stringify(args) } }],
+			},
+		},
+	],
+	usage: { prompt_tokens: 100, completion_tokens: 10 },
+});
+
+describe("HttpEngine", () => {
+	let dir: string;
+	let server: ReturnType<typeof Bun.serve>;
+	let replies: unknown[];
+	let requests: ChatRequest[];
+
+	const engine = (model = "local") =>
+		new HttpEngine({ base_url: `http://localhost:${server.port}/v1`, model });
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-http-"));
+		replies = [];
+		requests = [];
+		server = Bun.serve({
+			port: 0,
+			async fetch(request) {
+				if (new URL(request.url).pathname === "/v1/models") {
+					return Response.json({ data: [] });
+				}
+				requests.push((await request.json()) as ChatRequest);
+				return Response.json(replies.shift() ?? { error: "no reply scripted" });
+			},
+		});
+	});
+
+	afterEach(() => {
+		server.stop(true);
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("runs tool calls in the working directory until the model calls finish", async () => {
+		writeFileSync(join(dir, "input.txt"), "hello");
+		replies = [
+			toolCall("1", "read_file", { path: "input.txt" }),
+			toolCall("2", "write_file", { path: "out/result.txt", content: "HELLO" }),
+			toolCall("3", "run_shell", { command: "cat out/result.txt" }),
+			toolCall("4", "finish", { summary: "Uppercased the file" }),
+		];
+		const events: AgentEvent[] = [];
+
+		const result = await engine().executeStreaming("Uppercase input.txt", dir, (event) =>
+			events.push(event),
+		);
+
+		expect(result).toMatchObject({
+			success: true,
+			response: "Uppercased the file",
+			inputTokens: 400,
+			outputTokens: 40,
+		});
+		expect(readFileSync(join(dir, "out/result.txt"), "utf-8")).toBe("HELLO");
+		// Each tool result goes back to the model
+		const toolResults = requests[3].messages.filter((message) => message.role === "tool");
+		expect(toolResults.map((message) => message.content)).toEqual([
+			"hello",
+			"Wrote out/result.txt",
+			"exit code 0\nHELLO",
+		]);
+		expect(events).toContainEqual({ type: "file_edit", path: "out/result.txt" });
+		expect(events).toContainEqual({ type: "shell_command", command: "cat out/result.txt" });
+	});
+
+	it("refuses file paths outside the working directory", async () => {
+		replies = [
+			toolCall("1", "write_file", { path: "../escaped.txt", content: "x" }),
+			{ choices: [{ message: { role: "assistant", content: "Gave up" } }] },
+		];
+
+		const result = await engine().execute("Escape", dir);
+
+		expect(result.response).toBe("Gave up");
+		expect(existsSync(join(dir, "..", "escaped.txt"))).toBe(false);
+		expect(requests[1].messages.at(-1)?.content).toContain("outside the project directory");
+	});
+
+	it("prefers --model and requires a model", async () => {
+		replies = [{ choices: [{ message: { role: "assistant", content: "done" } }] }];
+
+		await engine().execute("Task", dir, { modelOverride: "qwen2.5-coder" });
+		const missing = await engine("").execute("Task", dir);
+
+		expect(requests[0].model).toBe("qwen2.5-coder");
+		expect(missing.success).toBe(false);
+		expect(missing.error).toContain("set http.model");
+	});
+
+	it("reports HTTP errors with their status code", async () => {
+		server.stop(true);
+		server = Bun.serve({
+			port: 0,
+			fetch: () => new Response("slow down", { status: 429 }),
+		});
+
+		const result = await engine().execute("Task", dir);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain("HTTP 429");
+		expect(await engine().isAvailable()).toBe(false);
+	});
+});
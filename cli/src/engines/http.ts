@@ -0,0 +1,390 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import type { HttpEngineConfig } from "../config/types.ts";
+import { formatDuration, logDebug, logWarn } from "../ui/logger.ts";
+import { TIMEOUT_MESSAGE_PREFIX, execCommand } from "./base.ts";
+import type {
+	AIEngine,
+	AIResult,
+	AgentEventCallback,
+	EngineCapabilities,
+	EngineOptions,
+} from "./types.ts";
+
+/** Local Ollama server; llama.cpp and vLLM serve the same API on their own ports */
+export const DEFAULT_HTTP_BASE_URL = "http://localhost:11434/v1";
+
+/** Tool output sent back to the model is cut to this many characters */
+const MAX_TOOL_OUTPUT = 20_000;
+
+/** How long isAvailable waits for the server to answer */
+const PROBE_TIMEOUT_MS = 5_000;
+
+const SYSTEM_PROMPT = `You are an autonomous coding agent working in a project directory.
+Use the tools to read files, write files and run shell commands. Paths are relative to the
+project directory. Work until the task is done, then call finish with a short summary.`;
+
+/**
+ * Tools the model can call, in chat-completions function format
+ */
+const TOOLS = [
+	{
+		type: "function",
+		function: {
+			name: "read_file",
+			description: "Read a text file",
+			parameters: {
+				type: "object",
+				properties: { path: { type: "string" } },
+				required: ["path"],
+			},
+		},
+	},
+	{
+		type: "function",
+		function: {
+			name: "write_file",
+			description: "Create or overwrite a text file",
+			parameters: {
+				type: "object",
+				properties: { path: { type: "string" }, content: { type: "string" } },
+				required: ["path", "content"],
+			},
+		},
+	},
+	{
+		type: "function",
+		function: {
+			name: "run_shell",
+			description: "Run a shell command in the project directory",
+			parameters: {
+				type: "object",
+				properties: { command: { type: "string" } },
+				required: ["command"],
+			},
+		},
+	},
+	{
+		type: "function",
+		function: {
+			name: "finish",
+			description: "Finish the task",
+			parameters: {
+				type: "object",
+				properties: { summary: { type: "string" } },
+				required: ["summary"],
+			},
+		},
+	},
+];
+
+interface ToolCall {
+	id: string;
+	function: { name: string; arguments: string };
+}
+
+interface ChatMessage {
+	role: "system" | "user" | "assistant" | "tool";
+	content: string | null;
+	tool_calls?: ToolCall[];
+	tool_call_id?: string;
+}
+
+interface ChatResponse {
+	choices?: { message?: ChatMessage }[];
+	usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Engine that talks to an OpenAI-compatible chat-completions endpoint directly
+ * (Ollama, llama.cpp, vLLM, ...) and runs its own tool loop: read file, write
+ * file, run shell and finish. File tools can't leave the working directory.
+ */
+export class HttpEngine implements AIEngine {
+	id = "http";
+	name = "OpenAI-compatible HTTP";
+	capabilities: EngineCapabilities = {
+		streaming: true,
+		modelOverride: true,
+		stdinPrompt: false,
+		sessionResume: false,
+		tokenReporting: true,
+		costReporting: false,
+		nativePermissions: false,
+	};
+	private readonly baseUrl: string;
+
+	constructor(private readonly config: Partial<HttpEngineConfig> = {}) {
+		this.baseUrl = (config.base_url || DEFAULT_HTTP_BASE_URL).replace(/\/+$/, "");
+	}
+
+	get cliCommand(): string {
+		return this.baseUrl;
+	}
+
+	/**
+	 * Check that the server answers GET /models
+	 */
+	async isAvailable(): Promise<boolean> {
+		try {
+			const response = await fetch(`${this.baseUrl}/models`, {
+				headers: this.headers(),
+				signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+			});
+			if (response.ok) {
+				return true;
+			}
+			logWarn(`${this.baseUrl}/models returned HTTP ${response.status}`);
+		} catch (error) {
+			logWarn(`No OpenAI-compatible server at ${this.baseUrl}: ${errorMessage(error)}`);
+		}
+		return false;
+	}
+
+	execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
+		return this.run(prompt, workDir, () => {}, options);
+	}
+
+	executeStreaming(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		return this.run(prompt, workDir, onEvent, options);
+	}
+
+	/**
+	 * Call the model until it calls finish, answers without tool calls or runs out of turns
+	 */
+	private async run(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		const result: AIResult = { success: false, response: "", inputTokens: 0, outputTokens: 0 };
+		const model = options?.modelOverride || this.config.model;
+		if (!model) {
+			result.error =
+				"No model for the http engine: set http.model in .ralphy/config.yaml or pass --model";
+			return result;
+		}
+
+		const maxTurns = this.config.max_turns ?? 50;
+		const { taskTimeoutMs, idleTimeoutMs } = options?.timeouts ?? {};
+		const deadline = taskTimeoutMs ? Date.now() + taskTimeoutMs : undefined;
+		const messages: ChatMessage[] = [
+			{ role: "system", content: SYSTEM_PROMPT },
+			{ role: "user", content: prompt },
+		];
+
+		for (let turn = 1; turn <= maxTurns; turn++) {
+			const remaining = deadline === undefined ? undefined : deadline - Date.now();
+			if (remaining !== undefined && remaining <= 0) {
+				result.error = `${TIMEOUT_MESSAGE_PREFIX} still running after ${formatDuration(taskTimeoutMs ?? 0)} (task timeout)`;
+				return result;
+			}
+
+			const timeoutMs = minTimeout(remaining, idleTimeoutMs);
+			let chat: ChatResponse;
+			try {
+				chat = await this.complete(model, messages, timeoutMs);
+			} catch (error) {
+				result.error =
+					error instanceof Error && error.name === "TimeoutError"
+						? `${TIMEOUT_MESSAGE_PREFIX} no response from ${this.baseUrl} after ${formatDuration(timeoutMs ?? 0)}`
+						: errorMessage(error);
+				onEvent({ type: "error", message: result.error });
+				return result;
+			}
+
+			const inputTokens = chat.usage?.prompt_tokens ?? 0;
+			const outputTokens = chat.usage?.completion_tokens ?? 0;
+			result.inputTokens += inputTokens;
+			result.outputTokens += outputTokens;
+			onEvent({ type: "token_usage", inputTokens, outputTokens });
+
+			const message = chat.choices?.[0]?.message;
+			if (!message) {
+				result.error = `${this.baseUrl} returned no message`;
+				return result;
+			}
+			if (message.content) {
+				onEvent({ type: "assistant_text", text: message.content });
+			}
+
+			const toolCalls = message.tool_calls ?? [];
+			if (toolCalls.length === 0) {
+				// Models without tool support answer in plain text
+				result.success = true;
+				result.response = message.content ?? "";
+				return result;
+			}
+
+			messages.push({ role: "assistant", content: message.content ?? null, tool_calls: toolCalls });
+			for (const call of toolCalls) {
+				const args = parseArguments(call.function.arguments);
+				if (call.function.name === "finish") {
+					result.success = true;
+					result.response = String(args.summary ?? message.content ?? "Task completed");
+					return result;
+				}
+
+				onEvent({ type: "tool_call_start", tool: call.function.name, input: args });
+				const output = await this.runTool(call.function.name, args, workDir, onEvent, {
+					taskTimeoutMs: deadline === undefined ? undefined : Math.max(deadline - Date.now(), 1),
+					idleTimeoutMs,
+				});
+				onEvent({ type: "tool_call_end", tool: call.function.name, success: output.success });
+				messages.push({
+					role: "tool",
+					tool_call_id: call.id,
+					content: truncate(output.text),
+				});
+			}
+		}
+
+		result.error = `Stopped after ${maxTurns} model turns without calling finish`;
+		return result;
+	}
+
+	/**
+	 * POST one chat-completions request
+	 */
+	private async complete(
+		model: string,
+		messages: ChatMessage[],
+		timeoutMs: number | undefined,
+	): Promise<ChatResponse> {
+		let response: Response;
+		try {
+			response = await fetch(`${this.baseUrl}/chat/completions`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json", ...this.headers() },
+				body: JSON.stringify({ model, messages, tools: TOOLS, tool_choice: "auto" }),
+				signal: timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined,
+			});
+		} catch (error) {
+			if (error instanceof Error && error.name === "TimeoutError") {
+				throw error;
+			}
+			// Worded so the retry classifier treats it as a network error
+			throw new Error(`Connection to ${this.baseUrl} failed: ${errorMessage(error)}`);
+		}
+
+		const text = await response.text();
+		if (!response.ok) {
+			// Status codes keep the retry classifier working (429, 401, ...)
+			throw new Error(`HTTP ${response.status} from ${this.baseUrl}: ${text.slice(0, 500)}`);
+		}
+		logDebug(`[HTTP] ${text.slice(0, 200)}`);
+		return JSON.parse(text) as ChatResponse;
+	}
+
+	/**
+	 * Run a tool call. Failures are reported back to the model rather than ending the run.
+	 */
+	private async runTool(
+		name: string,
+		args: Record<string, unknown>,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		timeouts: EngineOptions["timeouts"],
+	): Promise<{ success: boolean; text: string }> {
+		try {
+			switch (name) {
+				case "read_file": {
+					const path = resolveInside(workDir, String(args.path ?? ""));
+					onEvent({ type: "file_read", path: String(args.path) });
+					if (!existsSync(path)) {
+						return { success: false, text: `File not found: ${args.path}` };
+					}
+					return { success: true, text: readFileSync(path, "utf-8") };
+				}
+				case "write_file": {
+					const path = resolveInside(workDir, String(args.path ?? ""));
+					onEvent({ type: "file_edit", path: String(args.path) });
+					mkdirSync(dirname(path), { recursive: true });
+					writeFileSync(path, String(args.content ?? ""), "utf-8");
+					return { success: true, text: `Wrote ${args.path}` };
+				}
+				case "run_shell": {
+					const command = String(args.command ?? "");
+					onEvent({ type: "shell_command", command });
+					const [shell, flag] = process.platform === "win32" ? ["cmd.exe", "/c"] : ["sh", "-c"];
+					const { stdout, stderr, exitCode } = await execCommand(
+						shell,
+						[flag, command],
+						workDir,
+						undefined,
+						undefined,
+						timeouts,
+					);
+					return {
+						success: exitCode === 0,
+						text: `exit code ${exitCode}\n${stdout}${stderr ? `\n${stderr}` : ""}`,
+					};
+				}
+				default:
+					return { success: false, text: `Unknown tool: ${name}` };
+			}
+		} catch (error) {
+			return { success: false, text: errorMessage(error) };
+		}
+	}
+
+	private headers(): Record<string, string> {
+		const apiKey = this.config.api_key_env ? process.env[this.config.api_key_env] : undefined;
+		return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+	}
+}
+
+/**
+ * Resolve a tool path, refusing paths outside the working directory
+ */
+function resolveInside(workDir: string, path: string): string {
+	const resolved = resolve(workDir, path);
+	const rel = relative(resolve(workDir), resolved);
+	if (!path || rel.startsWith("..") || isAbsolute(rel)) {
+		throw new Error(`Path is outside the project directory: ${path}`);
+	}
+	return resolved;
+}
+
+/**
+ * Parse tool call arguments; models sometimes send invalid JSON
+ */
+function parseArguments(json: string): Record<string, unknown> {
+	try {
+		const parsed = JSON.parse(json || "{}");
+		return parsed && typeof parsed === "object" ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Shorter of two optional timeouts
+ */
+function minTimeout(a: number | undefined, b: number | undefined): number | undefined {
+	if (a === undefined) return b;
+	if (b === undefined) return Math.max(a, 1);
+	return Math.max(Math.min(a, b), 1);
+}
+
+/**
+ * Cut long tool output so it doesn't fill the model's context
+ */
+function truncate(text: string): string {
+	return text.length > MAX_TOOL_OUTPUT
+		? `${text.slice(0, MAX_TOOL_OUTPUT)}\n... (${text.length - MAX_TOOL_OUTPUT} more characters)`
+		: text;
+}
+
+/**
+ * Message of a thrown value
+ */
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
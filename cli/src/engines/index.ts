@@ -1,4 +1,5 @@
 export * from "./types.ts";
+export * from "./events.ts";
 export * from "./base.ts";
 export * from "./claude.ts";
 export * from "./opencode.ts";
@@ -8,21 +9,116 @@ export * from "./qwen.ts";
 export * from "./droid.ts";
 export * from "./copilot.ts";
 export * from "./gemini.ts";
+export * from "./aider.ts";
+export * from "./http.ts";
+export * from "./fallback.ts";
+export * from "./custom.ts";
+export * from "./mock.ts";
+export * from "./pricing.ts";
+export * from "./capabilities.ts";
+export * from "./recording.ts";
 
+import type { CustomEngineConfig, HttpEngineConfig } from "../config/types.ts";
+import { AiderEngine } from "./aider.ts";
 import { ClaudeEngine } from "./claude.ts";
 import { CodexEngine } from "./codex.ts";
 import { CopilotEngine } from "./copilot.ts";
 import { CursorEngine } from "./cursor.ts";
+import { CustomEngine } from "./custom.ts";
 import { DroidEngine } from "./droid.ts";
+import { FallbackEngine } from "./fallback.ts";
 import { GeminiEngine } from "./gemini.ts";
+import { HttpEngine } from "./http.ts";
+import { MockEngine } from "./mock.ts";
 import { OpenCodeEngine } from "./opencode.ts";
 import { QwenEngine } from "./qwen.ts";
+import { RecordingEngine, getRecording } from "./recording.ts";
 import type { AIEngine, AIEngineName } from "./types.ts";
 
+const BUILT_IN_ENGINES: AIEngineName[] = [
+	"claude",
+	"opencode",
+	"cursor",
+	"codex",
+	"qwen",
+	"droid",
+	"copilot",
+	"gemini",
+	"aider",
+	"http",
+	"mock",
+];
+
+/**
+ * Whether a name is one of the built-in engines
+ */
+function isBuiltInEngine(name: string): name is AIEngineName {
+	return (BUILT_IN_ENGINES as string[]).includes(name);
+}
+
+/** Custom engines from the `engines:` section of .ralphy/config.yaml */
+const customEngines = new Map<string, CustomEngineConfig>();
+
+/** Script replayed by the mock engine (--mock-script) */
+let mockScriptPath: string | undefined;
+
+/** Endpoint settings of the http engine (`http:` in config) */
+let httpConfig: Partial<HttpEngineConfig> = {};
+
+/**
+ * Set the script file the mock engine replays
+ */
+export function setMockScript(path: string | undefined): void {
+	mockScriptPath = path;
+}
+
 /**
- * Create an AI engine by name
+ * Set the endpoint the http engine talks to
  */
-export function createEngine(name: AIEngineName): AIEngine {
+export function setHttpConfig(config: Partial<HttpEngineConfig> | undefined): void {
+	httpConfig = config ?? {};
+}
+
+/**
+ * Make custom engines from config available to createEngine
+ */
+export function registerCustomEngines(engines: Record<string, CustomEngineConfig>): void {
+	customEngines.clear();
+	for (const [name, config] of Object.entries(engines)) {
+		if (isBuiltInEngine(name)) {
+			throw new Error(`Custom engine "${name}" conflicts with a built-in engine`);
+		}
+		customEngines.set(name, config);
+	}
+}
+
+/**
+ * Names of all engines createEngine accepts (built-in, then registered custom engines)
+ */
+export function listEngines(): string[] {
+	return [...BUILT_IN_ENGINES, ...customEngines.keys()];
+}
+
+/**
+ * Create an AI engine by name (built-in or registered custom engine).
+ * Under --record/--replay the engine is wrapped in a RecordingEngine.
+ * Throws for a name that is neither.
+ */
+export function createEngine(name: string): AIEngine {
+	const engine = createBaseEngine(name);
+	const recording = getRecording();
+	return recording ? new RecordingEngine(engine, recording) : engine;
+}
+
+function createBaseEngine(name: string): AIEngine {
+	const custom = customEngines.get(name);
+	if (custom) {
+		return new CustomEngine(name, custom);
+	}
+	if (!isBuiltInEngine(name)) {
+		throw new Error(`Unknown AI engine: ${name} (available: ${listEngines().join(", ")})`);
+	}
+
 	switch (name) {
 		case "claude":
 			return new ClaudeEngine();
@@ -40,21 +136,37 @@ export function createEngine(name: AIEngineName): AIEngine {
 			return new CopilotEngine();
 		case "gemini":
 			return new GeminiEngine();
-		default:
-			throw new Error(`Unknown AI engine: ${name}`);
+		case "aider":
+			return new AiderEngine();
+		case "http":
+			return new HttpEngine(httpConfig);
+		case "mock":
+			return new MockEngine(mockScriptPath);
+	}
+}
+
+/**
+ * Create the engine for a run. With fallbacks, the engine is wrapped in a
+ * FallbackEngine that switches down the chain on quota/overload/missing-CLI errors.
+ */
+export function createEngineWithFallback(name: string, fallback: string[] = []): AIEngine {
+	const names = [...new Set([name, ...fallback])];
+	if (names.length === 1) {
+		return createEngine(name);
 	}
+	return new FallbackEngine(names.map((engineName) => createEngine(engineName)));
 }
 
 /**
  * Get the display name for an engine
  */
-export function getEngineName(name: AIEngineName): string {
+export function getEngineName(name: string): string {
 	return createEngine(name).name;
 }
 
 /**
  * Check if an engine is available
  */
-export async function isEngineAvailable(name: AIEngineName): Promise<boolean> {
+export async function isEngineAvailable(name: string): Promise<boolean> {
 	return createEngine(name).isAvailable();
 }
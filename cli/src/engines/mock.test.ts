@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import simpleGit from "simple-git";
+import { runSequential } from "../execution/sequential.ts";
+import { YamlTaskSource } from "../tasks/yaml.ts";
+import { MockEngine } from "./mock.ts";
+
+describe("MockEngine", () => {
+	let dir: string;
+	let scriptPath: string;
+
+	beforeEach(async () => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-mock-"));
+		scriptPath = join(dir, "mock.yaml");
+		const git = simpleGit(dir);
+		await git.init();
+		await git.addConfig("user.email", "test@example.com");
+		await git.addConfig("user.name", "Test");
+		await git.addConfig("commit.gpgsign", "false");
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("replays attempts in order and repeats the last one", async () => {
+		writeFileSync(
+			scriptPath,
+			[
+				"tasks:",
+				"  Add login:",
+				"    - rate_limit: true",
+				"    - response: logged in",
+				"      input_tokens: 10",
+				"      output_tokens: 5",
+			].join("\n"),
+		);
+		const engine = new MockEngine(scriptPath);
+
+		const first = await engine.execute("## Task\nAdd login", dir);
+		const second = await engine.execute("## Task\nAdd login", dir);
+		const third = await engine.execute("## Task\nAdd login", dir);
+
+		expect(first).toMatchObject({ success: false, error: "Rate limit exceeded (mock)" });
+		expect(second).toMatchObject({ success: true, response: "logged in", inputTokens: 10 });
+		expect(third.response).toBe("logged in");
+	});
+
+	it("falls back to the default step for unknown tasks", async () => {
+		writeFileSync(scriptPath, "default:\n  error: unscripted task\n");
+		const result = await new MockEngine(scriptPath).execute("Something else", dir);
+
+		expect(result).toMatchObject({ success: false, error: "unscripted task" });
+	});
+
+	it("drives runSequential end to end without a real agent", async () => {
+		writeFileSync(
+			scriptPath,
+			[
+				"tasks:",
+				"  Create greeting:",
+				"    files:",
+				"      src/greeting.txt: hello",
+				"    commit: Add greeting",
+				"  Remove readme:",
+				"    delete: [README.md]",
+				"    commit: Remove readme",
+			].join("\n"),
+		);
+		writeFileSync(join(dir, "README.md"), "readme");
+		const prd = join(dir, "tasks.yaml");
+		writeFileSync(prd, "tasks:\n  - title: Create greeting\n  - title: Remove readme\n");
+		const git = simpleGit(dir);
+		await git.add(".");
+		await git.commit("Initial");
+
+		const taskSource = new YamlTaskSource(prd);
+		const result = await runSequential({
+			engine: new MockEngine(scriptPath),
+			taskSource,
+			workDir: dir,
+			skipTests: true,
+			skipLint: true,
+			dryRun: false,
+			maxIterations: 0,
+			maxRetries: 1,
+			retryDelay: 0,
+			branchPerTask: false,
+			baseBranch: "",
+			createPr: false,
+			draftPr: false,
+			autoCommit: true,
+			browserEnabled: "false",
+		});
+
+		expect(result).toMatchObject({ tasksCompleted: 2, tasksFailed: 0 });
+		expect(readFileSync(join(dir, "src", "greeting.txt"), "utf-8")).toBe("hello");
+		expect(existsSync(join(dir, "README.md"))).toBe(false);
+		expect(await taskSource.countRemaining()).toBe(0);
+		const log = await git.log();
+		expect(log.all.map((c) => c.message)).toContain("Add greeting");
+	});
+
+	it("doesn't commit from a sandbox inside the repository", async () => {
+		writeFileSync(scriptPath, "default:\n  files:\n    a.txt: a\n  commit: Add a\n");
+		const git = simpleGit(dir);
+		await git.add(".");
+		await git.commit("Initial");
+		const sandboxDir = join(dir, ".ralphy-sandboxes", "agent-1");
+		mkdirSync(sandboxDir, { recursive: true });
+		const engine = new MockEngine(scriptPath);
+
+		await engine.execute("Do thing", sandboxDir);
+		await engine.execute("Do thing", sandboxDir, { autoCommit: false });
+
+		const log = await git.log();
+		expect(log.all.map((c) => c.message)).toEqual(["Initial"]);
+		expect(readFileSync(join(sandboxDir, "a.txt"), "utf-8")).toBe("a");
+	});
+});
@@ -0,0 +1,200 @@
+import { existsSync, mkdirSync, readFileSync, realpathSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import simpleGit from "simple-git";
+import YAML from "yaml";
+import { logDebug, logWarn } from "../ui/logger.ts";
+import type {
+	AIEngine,
+	AIResult,
+	AgentEventCallback,
+	EngineCapabilities,
+	EngineOptions,
+} from "./types.ts";
+
+/** Default script location, relative to the working directory */
+export const DEFAULT_MOCK_SCRIPT = ".ralphy/mock.yaml";
+
+/**
+ * One scripted attempt at a task
+ */
+export interface MockStep {
+	/** Files to write, relative to the agent's working directory */
+	files?: Record<string, string>;
+	/** Files to delete */
+	delete?: string[];
+	/** Commit message; stages everything and commits when set */
+	commit?: string;
+	/** Response text reported back to ralphy */
+	response?: string;
+	input_tokens?: number;
+	output_tokens?: number;
+	/** Fail the attempt with this error */
+	error?: string;
+	/** Fail the attempt with a rate-limit error */
+	rate_limit?: boolean;
+	/** Simulated run time */
+	delay_ms?: number;
+}
+
+/**
+ * Mock script file. Each task entry lists attempts in order; the last one
+ * repeats for any further attempts.
+ */
+export interface MockScript {
+	tasks?: Record<string, MockStep | MockStep[]>;
+	/** Step for tasks without an entry */
+	default?: MockStep;
+}
+
+/**
+ * Whether a directory is the top level of a git working tree (not just inside one)
+ */
+async function isRepositoryRoot(workDir: string): Promise<boolean> {
+	try {
+		const topLevel = (await simpleGit(workDir).revparse(["--show-toplevel"])).trim();
+		return realpathSync(topLevel) === realpathSync(workDir);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Deterministic engine that replays a YAML script instead of calling an agent.
+ *
+ * Script entries are keyed by task title and matched against the prompt (the
+ * longest key found in the prompt wins), so they also work for tasks whose
+ * prompt is their description when the key is a phrase from it.
+ */
+export class MockEngine implements AIEngine {
+	id = "mock";
+	name = "Mock";
+	cliCommand = "mock";
+	capabilities: EngineCapabilities = {
+		streaming: true,
+		modelOverride: false,
+		stdinPrompt: false,
+		sessionResume: false,
+		tokenReporting: true,
+		costReporting: false,
+		nativePermissions: false,
+	};
+	private readonly scriptPath: string;
+	private script: MockScript | null = null;
+	private readonly attempts = new Map<string, number>();
+
+	constructor(scriptPath = DEFAULT_MOCK_SCRIPT) {
+		// Resolve now: agents run in worktrees with a different cwd
+		this.scriptPath = resolve(scriptPath);
+	}
+
+	async isAvailable(): Promise<boolean> {
+		if (!existsSync(this.scriptPath)) {
+			logWarn(`Mock script not found: ${this.scriptPath}`);
+			return false;
+		}
+		return true;
+	}
+
+	private loadScript(): MockScript {
+		if (!this.script) {
+			if (!existsSync(this.scriptPath)) {
+				throw new Error(`Mock script not found: ${this.scriptPath}`);
+			}
+			this.script = (YAML.parse(readFileSync(this.scriptPath, "utf-8")) ?? {}) as MockScript;
+		}
+		return this.script;
+	}
+
+	/**
+	 * Pick the step for this prompt, advancing the task's attempt counter
+	 */
+	private nextStep(prompt: string): MockStep {
+		const script = this.loadScript();
+		const key = Object.keys(script.tasks ?? {})
+			.filter((title) => prompt.includes(title))
+			.sort((a, b) => b.length - a.length)[0];
+
+		if (key === undefined) {
+			logDebug("[Mock] No script entry matches the prompt, using default");
+			return script.default ?? {};
+		}
+
+		const entry = script.tasks?.[key] ?? {};
+		const steps = Array.isArray(entry) ? entry : [entry];
+		const attempt = this.attempts.get(key) ?? 0;
+		this.attempts.set(key, attempt + 1);
+		logDebug(`[Mock] "${key}" attempt ${attempt + 1}`);
+		return steps[Math.min(attempt, steps.length - 1)] ?? {};
+	}
+
+	execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
+		return this.replay(prompt, workDir, () => {}, options);
+	}
+
+	executeStreaming(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		return this.replay(prompt, workDir, onEvent, options);
+	}
+
+	/**
+	 * Apply the next scripted step, reporting what it does as agent events
+	 */
+	private async replay(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		const step = this.nextStep(prompt);
+		const inputTokens = step.input_tokens ?? 0;
+		const outputTokens = step.output_tokens ?? 0;
+
+		if (step.delay_ms) {
+			await new Promise((r) => setTimeout(r, step.delay_ms));
+		}
+
+		if (step.rate_limit || step.error) {
+			onEvent({ type: "error", message: step.error ?? "Rate limit exceeded (mock)" });
+			return {
+				success: false,
+				response: "",
+				inputTokens,
+				outputTokens,
+				error: step.error ?? "Rate limit exceeded (mock)",
+			};
+		}
+
+		for (const [file, content] of Object.entries(step.files ?? {})) {
+			const path = join(workDir, file);
+			mkdirSync(dirname(path), { recursive: true });
+			writeFileSync(path, content, "utf-8");
+			onEvent({ type: "file_edit", path: file });
+		}
+		for (const file of step.delete ?? []) {
+			rmSync(join(workDir, file), { force: true });
+			onEvent({ type: "file_edit", path: file });
+		}
+
+		if (step.commit) {
+			// Sandboxes aren't repositories of their own (they sit inside the main one);
+			// ralphy commits their changes itself
+			if (options?.autoCommit !== false && (await isRepositoryRoot(workDir))) {
+				onEvent({ type: "shell_command", command: `git commit -m "${step.commit}"` });
+				const git = simpleGit(workDir);
+				await git.add(".");
+				await git.commit(step.commit);
+			} else {
+				logDebug(`[Mock] Not the root of a git repository, skipping commit: ${workDir}`);
+			}
+		}
+
+		const response = step.response ?? "Task completed";
+		onEvent({ type: "assistant_text", text: response });
+		onEvent({ type: "token_usage", inputTokens, outputTokens });
+		return { success: true, response, inputTokens, outputTokens };
+	}
+}
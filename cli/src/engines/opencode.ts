@@ -1,43 +1,110 @@
-import { BaseAIEngine, checkForErrors, execCommand, formatCommandError } from "./base.ts";
-import type { AIResult, EngineOptions } from "./types.ts";
+import {
+	BaseAIEngine,
+	type ParsedEngineOutput,
+	checkForErrors,
+	execCommand,
+	execCommandStreaming,
+	extractSessionId,
+	formatCommandError,
+} from "./base.ts";
+import { createOpenCodeEventParser } from "./events.ts";
+import type { AIResult, AgentEventCallback, EngineCapabilities, EngineOptions } from "./types.ts";
 
 const isWindows = process.platform === "win32";
 
+/** Allow all tools without prompting */
+const OPENCODE_ENV = { OPENCODE_PERMISSION: '{"*":"allow"}' };
+
 /**
  * OpenCode AI Engine
  */
 export class OpenCodeEngine extends BaseAIEngine {
+	id = "opencode";
 	name = "OpenCode";
 	cliCommand = "opencode";
+	capabilities: EngineCapabilities = {
+		streaming: true,
+		modelOverride: true,
+		stdinPrompt: true,
+		sessionResume: true,
+		tokenReporting: true,
+		costReporting: true,
+		nativePermissions: true,
+	};
 
-	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
+	/**
+	 * Build command arguments; the prompt goes via stdin on Windows
+	 */
+	private buildArgs(
+		prompt: string,
+		options?: EngineOptions,
+	): { args: string[]; stdinContent?: string } {
 		const args = ["run", "--format", "json"];
 		if (options?.modelOverride) {
 			args.push("--model", options.modelOverride);
 		}
+		// Continue the earlier session; it already holds the full task prompt
+		if (options?.resume) {
+			args.push("--session", options.resume.sessionId);
+		}
 		// Add any additional engine-specific arguments
 		if (options?.engineArgs && options.engineArgs.length > 0) {
 			args.push(...options.engineArgs);
 		}
 
 		// On Windows, pass prompt via stdin to avoid cmd.exe argument parsing issues with multi-line content
-		let stdinContent: string | undefined;
+		const input = options?.resume?.prompt ?? prompt;
 		if (isWindows) {
-			stdinContent = prompt;
-		} else {
-			args.push(prompt);
+			return { args, stdinContent: input };
 		}
+		args.push(input);
+		return { args };
+	}
 
+	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
+		const { args, stdinContent } = this.buildArgs(prompt, options);
 		const { stdout, stderr, exitCode } = await execCommand(
 			this.cliCommand,
 			args,
 			workDir,
-			{ OPENCODE_PERMISSION: '{"*":"allow"}' },
+			OPENCODE_ENV,
 			stdinContent,
+			options?.timeouts,
 		);
 
-		const output = stdout + stderr;
+		return this.toResult(stdout + stderr, exitCode);
+	}
+
+	async executeStreaming(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		const { args, stdinContent } = this.buildArgs(prompt, options);
+		const parseEvents = createOpenCodeEventParser();
+		const outputLines: string[] = [];
 
+		const { exitCode } = await execCommandStreaming(
+			this.cliCommand,
+			args,
+			workDir,
+			(line) => {
+				outputLines.push(line);
+
+				for (const event of parseEvents(line)) {
+					onEvent(event);
+				}
+			},
+			OPENCODE_ENV,
+			stdinContent,
+			options?.timeouts,
+		);
+
+		return this.toResult(outputLines.join("\n"), exitCode);
+	}
+
+	private toResult(output: string, exitCode: number): AIResult {
 		// Check for errors
 		const error = checkForErrors(output);
 		if (error) {
@@ -46,54 +113,50 @@ export class OpenCodeEngine extends BaseAIEngine {
 				response: "",
 				inputTokens: 0,
 				outputTokens: 0,
+				sessionId: extractSessionId(output),
 				error,
 			};
 		}
 
 		// Parse OpenCode JSON format
-		const { response, inputTokens, outputTokens, cost } = this.parseOutput(output);
+		const parsed = this.parseOutput(output);
 
 		// If command failed with non-zero exit code, provide a meaningful error
 		if (exitCode !== 0) {
 			return {
 				success: false,
-				response,
-				inputTokens,
-				outputTokens,
+				...parsed,
 				error: formatCommandError(exitCode, output),
 			};
 		}
 
 		return {
 			success: true,
-			response,
-			inputTokens,
-			outputTokens,
-			cost,
+			...parsed,
 		};
 	}
 
-	private parseOutput(output: string): {
-		response: string;
-		inputTokens: number;
-		outputTokens: number;
-		cost?: string;
-	} {
+	private parseOutput(output: string): ParsedEngineOutput {
 		const lines = output.split("\n").filter(Boolean);
 		let response = "";
 		let inputTokens = 0;
 		let outputTokens = 0;
-		let cost: string | undefined;
+		let cacheReadTokens = 0;
+		let cacheWriteTokens = 0;
+		let costUsd: number | undefined;
 
-		// Find step_finish for token counts
+		// Sum token counts and cost over every step_finish
 		for (const line of lines) {
 			try {
 				const parsed = JSON.parse(line);
 				if (parsed.type === "step_finish") {
-					inputTokens = parsed.part?.tokens?.input || 0;
-					outputTokens = parsed.part?.tokens?.output || 0;
-					if (parsed.part?.cost) {
-						cost = String(parsed.part.cost);
+					const tokens = parsed.part?.tokens;
+					inputTokens += tokens?.input || 0;
+					outputTokens += tokens?.output || 0;
+					cacheReadTokens += tokens?.cache?.read || 0;
+					cacheWriteTokens += tokens?.cache?.write || 0;
+					if (typeof parsed.part?.cost === "number") {
+						costUsd = (costUsd ?? 0) + parsed.part.cost;
 					}
 				}
 			} catch {
@@ -116,6 +179,14 @@ export class OpenCodeEngine extends BaseAIEngine {
 
 		response = textParts.join("") || "Task completed";
 
-		return { response, inputTokens, outputTokens, cost };
+		return {
+			response,
+			inputTokens,
+			outputTokens,
+			cacheReadTokens: cacheReadTokens || undefined,
+			cacheWriteTokens: cacheWriteTokens || undefined,
+			costUsd,
+			sessionId: extractSessionId(output),
+		};
 	}
 }
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { calculateCost, findModelPrice, setPricing, withEstimatedCost } from "./pricing.ts";
+
+const usage = { success: true, response: "", inputTokens: 1_000_000, outputTokens: 100_000 };
+
+describe("findModelPrice", () => {
+	afterEach(() => setPricing({}));
+
+	it("matches full model names by the longest known key", () => {
+		expect(findModelPrice("claude", "claude-sonnet-4-5-20250929")?.input).toBe(3);
+		expect(findModelPrice("claude", "claude-opus-4-5")?.input).toBe(5);
+		expect(findModelPrice("codex", "gpt-5-mini")?.input).toBe(0.25);
+	});
+
+	it("prices versioned model ids like their aliases", () => {
+		expect(findModelPrice("claude", "opus")?.input).toBe(5);
+		expect(findModelPrice("claude", "claude-opus-4-5-20251101")?.input).toBe(5);
+		expect(findModelPrice("claude", "claude-opus-4-6")?.input).toBe(5);
+		expect(findModelPrice("claude", "claude-opus-4-1-20250805")?.input).toBe(15);
+		expect(findModelPrice("claude", "claude-opus-4-1@20250805")?.input).toBe(15);
+		expect(findModelPrice("claude", "claude-opus-4-20250514")?.input).toBe(15);
+		expect(findModelPrice("claude", "claude-haiku-4-5-20251001")?.input).toBe(1);
+		expect(findModelPrice("codex", "gpt-4.1-2025-04-14")?.input).toBe(2);
+		expect(findModelPrice("codex", "gpt-4.1-mini-2025-04-14")?.input).toBe(0.4);
+		expect(findModelPrice("codex", "openai/o3-2025-04-16")?.input).toBe(2);
+		expect(findModelPrice("gemini", "gemini-2.5-flash-lite")?.input).toBe(0.1);
+	});
+
+	it("only matches a key at the start of the model name", () => {
+		expect(findModelPrice("codex", "gpt-4o3")).toBeUndefined();
+		expect(findModelPrice("opencode", "my-sonnet-finetune")).toBeUndefined();
+		expect(findModelPrice("opencode", "gpt-4.10")).toBeUndefined();
+	});
+
+	it("prices older models by their own entries", () => {
+		expect(findModelPrice("claude", "claude-3-opus-20240229")?.input).toBe(15);
+		expect(findModelPrice("claude", "claude-3-5-haiku-20241022")?.output).toBe(4);
+		expect(findModelPrice("codex", "gpt-4o")?.input).toBe(2.5);
+		expect(findModelPrice("codex", "gpt-4o-mini-2024-07-18")?.input).toBe(0.15);
+	});
+
+	it("has no price for a model missing from the table", () => {
+		expect(findModelPrice("claude", "claude-2.1")).toBeUndefined();
+		expect(findModelPrice("codex", "gpt-3.5-turbo")).toBeUndefined();
+	});
+
+	it("falls back to the engine default without a model, or nothing for unknown engines", () => {
+		expect(findModelPrice("claude")?.output).toBe(15);
+		expect(findModelPrice("cursor")).toBeUndefined();
+	});
+
+	it("prefers config prices, including engine/model keys", () => {
+		setPricing({
+			"claude-sonnet": { input: 2, output: 10 },
+			"opencode/my-model": { input: 0.5, output: 1 },
+		});
+
+		expect(findModelPrice("claude", "claude-sonnet-4")?.input).toBe(2);
+		expect(findModelPrice("opencode", "anthropic/claude-haiku-4-5")?.input).toBe(1);
+		expect(findModelPrice("opencode", "my-model")?.input).toBe(0.5);
+		expect(findModelPrice("codex", "my-model")).toBeUndefined();
+	});
+});
+
+describe("calculateCost", () => {
+	it("prices input, output and cache tokens per million", () => {
+		const price = { input: 3, output: 15, cache_read: 0.3 };
+		const cost = calculateCost(price, {
+			...usage,
+			cacheReadTokens: 1_000_000,
+			cacheWriteTokens: 1_000_000,
+		});
+
+		// 3 + 1.5 + 0.3 + 3 (cache writes default to the input price)
+		expect(cost).toBeCloseTo(7.8);
+	});
+});
+
+describe("withEstimatedCost", () => {
+	it("keeps a cost reported by the engine", () => {
+		expect(withEstimatedCost({ ...usage, costUsd: 0.42 }, "claude").costUsd).toBe(0.42);
+	});
+
+	it("estimates from the price table when tokens are known", () => {
+		expect(withEstimatedCost(usage, "codex", "gpt-5").costUsd).toBeCloseTo(2.25);
+		expect(withEstimatedCost({ ...usage, inputTokens: 0, outputTokens: 0 }, "codex").costUsd).toBe(
+			undefined,
+		);
+		expect(withEstimatedCost(usage, "copilot").costUsd).toBeUndefined();
+	});
+
+	it("leaves the cost unknown for a model without a price", () => {
+		expect(withEstimatedCost(usage, "codex", "gpt-3.5-turbo").costUsd).toBeUndefined();
+	});
+});
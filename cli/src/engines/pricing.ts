@@ -0,0 +1,157 @@
+import type { ModelPrice } from "../config/types.ts";
+import { logWarn } from "../ui/logger.ts";
+import type { AIResult } from "./types.ts";
+
+/**
+ * Engine defaults, used when no model is given. They never match model names, so
+ * `claude-2.1` isn't priced like the `claude` engine's default model.
+ */
+const ENGINE_PRICES: Record<string, ModelPrice> = {
+	claude: { input: 3, output: 15, cache_read: 0.3, cache_write: 3.75 },
+	codex: { input: 1.25, output: 10, cache_read: 0.125 },
+	gemini: { input: 1.25, output: 10, cache_read: 0.31 },
+};
+
+/**
+ * Built-in prices in US dollars per million tokens. Keys are engine ids (used
+ * when no model is given), model names, or `engine/model`.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+	...ENGINE_PRICES,
+	// Anthropic (plus the CLI's short aliases, which point at the latest models)
+	"claude-opus": { input: 5, output: 25, cache_read: 0.5, cache_write: 6.25 },
+	"claude-opus-4-0": { input: 15, output: 75, cache_read: 1.5, cache_write: 18.75 },
+	"claude-opus-4-1": { input: 15, output: 75, cache_read: 1.5, cache_write: 18.75 },
+	"claude-opus-4-20250514": { input: 15, output: 75, cache_read: 1.5, cache_write: 18.75 },
+	"claude-sonnet": { input: 3, output: 15, cache_read: 0.3, cache_write: 3.75 },
+	"claude-haiku": { input: 1, output: 5, cache_read: 0.1, cache_write: 1.25 },
+	"claude-3-opus": { input: 15, output: 75, cache_read: 1.5, cache_write: 18.75 },
+	"claude-3-5-sonnet": { input: 3, output: 15, cache_read: 0.3, cache_write: 3.75 },
+	"claude-3-7-sonnet": { input: 3, output: 15, cache_read: 0.3, cache_write: 3.75 },
+	"claude-3-5-haiku": { input: 0.8, output: 4, cache_read: 0.08, cache_write: 1 },
+	"claude-3-haiku": { input: 0.25, output: 1.25, cache_read: 0.03, cache_write: 0.3 },
+	opus: { input: 5, output: 25, cache_read: 0.5, cache_write: 6.25 },
+	sonnet: { input: 3, output: 15, cache_read: 0.3, cache_write: 3.75 },
+	haiku: { input: 1, output: 5, cache_read: 0.1, cache_write: 1.25 },
+	// OpenAI
+	"gpt-5": { input: 1.25, output: 10, cache_read: 0.125 },
+	"gpt-5-mini": { input: 0.25, output: 2, cache_read: 0.025 },
+	"gpt-5-nano": { input: 0.05, output: 0.4, cache_read: 0.005 },
+	"gpt-5.1": { input: 1.25, output: 10, cache_read: 0.125 },
+	"gpt-4o": { input: 2.5, output: 10, cache_read: 1.25 },
+	"gpt-4o-mini": { input: 0.15, output: 0.6, cache_read: 0.075 },
+	"gpt-4.1": { input: 2, output: 8, cache_read: 0.5 },
+	"gpt-4.1-mini": { input: 0.4, output: 1.6, cache_read: 0.1 },
+	"gpt-4.1-nano": { input: 0.1, output: 0.4, cache_read: 0.025 },
+	o1: { input: 15, output: 60, cache_read: 7.5 },
+	"o1-mini": { input: 1.1, output: 4.4, cache_read: 0.55 },
+	o3: { input: 2, output: 8, cache_read: 0.5 },
+	"o3-mini": { input: 1.1, output: 4.4, cache_read: 0.55 },
+	"o4-mini": { input: 1.1, output: 4.4, cache_read: 0.275 },
+	// Google
+	"gemini-2.5-pro": { input: 1.25, output: 10, cache_read: 0.31 },
+	"gemini-2.5-flash": { input: 0.3, output: 2.5, cache_read: 0.075 },
+	"gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cache_read: 0.025 },
+	"gemini-2.0-flash": { input: 0.1, output: 0.4, cache_read: 0.025 },
+	"gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+	"gemini-1.5-pro": { input: 1.25, output: 5 },
+	"gemini-1.5-flash": { input: 0.075, output: 0.3 },
+};
+
+/**
+ * Whether a model name is the key or a version of it: `claude-sonnet-4-5` and
+ * `claude-opus-4-1@20250805` match `claude-sonnet` and `claude-opus-4-1`, `my-o3` doesn't match `o3`.
+ */
+function isModelVersion(model: string, key: string): boolean {
+	return model === key || (model.startsWith(key) && /^[-@:]/.test(model.slice(key.length)));
+}
+
+/** Prices from the `pricing:` section of .ralphy/config.yaml */
+let priceOverrides: Record<string, ModelPrice> = {};
+
+/**
+ * Merge prices from config over the built-in table
+ */
+export function setPricing(overrides: Record<string, ModelPrice>): void {
+	priceOverrides = { ...overrides };
+}
+
+/**
+ * Find the price for an engine/model pair.
+ *
+ * Tries `engine/model`, then the exact model name, then the longest key the model
+ * name is a version of (`claude-sonnet-4-5` matches `claude-sonnet`, `gpt-4.1-mini`
+ * its own key rather than `gpt-4.1`). A provider prefix (`anthropic/`) is ignored when
+ * matching versions. The engine's default price applies only when no model is given: a
+ * model missing from the table has no known price, rather than another model's.
+ */
+export function findModelPrice(engineId: string, model?: string): ModelPrice | undefined {
+	const table = { ...DEFAULT_PRICES, ...priceOverrides };
+
+	if (model) {
+		const exact = table[`${engineId}/${model}`] ?? table[model];
+		if (exact) {
+			return exact;
+		}
+
+		const name = model.toLowerCase().split("/").pop() ?? "";
+		const [partial] = Object.keys(table)
+			.filter(
+				(key) =>
+					!key.includes("/") && !(key in ENGINE_PRICES) && isModelVersion(name, key.toLowerCase()),
+			)
+			.sort((a, b) => b.length - a.length);
+		return partial ? table[partial] : undefined;
+	}
+
+	return table[engineId];
+}
+
+/** Models already reported as missing from the price table */
+const unpricedModels = new Set<string>();
+
+/**
+ * Warn (once per model) that a model's cost can't be estimated
+ */
+function warnUnpriced(engineId: string, model: string): void {
+	const key = `${engineId}/${model}`;
+	if (unpricedModels.has(key)) {
+		return;
+	}
+	unpricedModels.add(key);
+	logWarn(
+		`No price known for model "${model}": its cost is unknown and doesn't count toward --max-cost or task budgets. Add it under pricing: in .ralphy/config.yaml`,
+	);
+}
+
+/**
+ * Dollar cost of a result's token usage. Cache tokens fall back to the input price.
+ */
+export function calculateCost(
+	price: ModelPrice,
+	usage: Pick<AIResult, "inputTokens" | "outputTokens" | "cacheReadTokens" | "cacheWriteTokens">,
+): number {
+	const total =
+		usage.inputTokens * price.input +
+		usage.outputTokens * price.output +
+		(usage.cacheReadTokens ?? 0) * (price.cache_read ?? price.input) +
+		(usage.cacheWriteTokens ?? 0) * (price.cache_write ?? price.input);
+	return total / 1_000_000;
+}
+
+/**
+ * Fill in `costUsd` from the price table when the engine didn't report a cost.
+ * Results without token counts or without a known price are left as they are,
+ * with a warning the first time a model given on the command line has no price.
+ */
+export function withEstimatedCost(result: AIResult, engineId: string, model?: string): AIResult {
+	if (result.costUsd !== undefined || result.inputTokens + result.outputTokens === 0) {
+		return result;
+	}
+
+	const price = findModelPrice(engineId, model);
+	if (!price && model) {
+		warnUnpriced(engineId, model);
+	}
+	return price ? { ...result, costUsd: calculateCost(price, result) } : result;
+}
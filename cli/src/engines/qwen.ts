@@ -1,13 +1,13 @@
 import {
 	BaseAIEngine,
 	checkForErrors,
-	detectStepFromOutput,
 	execCommand,
 	execCommandStreaming,
 	formatCommandError,
 	parseStreamJsonResult,
 } from "./base.ts";
-import type { AIResult, EngineOptions, ProgressCallback } from "./types.ts";
+import { createClaudeEventParser } from "./events.ts";
+import type { AIResult, AgentEventCallback, EngineCapabilities, EngineOptions } from "./types.ts";
 
 const isWindows = process.platform === "win32";
 
@@ -15,8 +15,18 @@ const isWindows = process.platform === "win32";
  * Qwen-Code AI Engine
  */
 export class QwenEngine extends BaseAIEngine {
+	id = "qwen";
 	name = "Qwen-Code";
 	cliCommand = "qwen";
+	capabilities: EngineCapabilities = {
+		streaming: true,
+		modelOverride: true,
+		stdinPrompt: true,
+		sessionResume: false,
+		tokenReporting: true,
+		costReporting: false,
+		nativePermissions: false,
+	};
 
 	async execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
 		const args = ["--output-format", "stream-json", "--approval-mode", "yolo"];
@@ -43,6 +53,7 @@ export class QwenEngine extends BaseAIEngine {
 			workDir,
 			undefined,
 			stdinContent,
+			options?.timeouts,
 		);
 
 		const output = stdout + stderr;
@@ -60,31 +71,27 @@ export class QwenEngine extends BaseAIEngine {
 		}
 
 		// Parse result (same format as Claude)
-		const { response, inputTokens, outputTokens } = parseStreamJsonResult(output);
+		const parsed = parseStreamJsonResult(output);
 
 		// If command failed with non-zero exit code, provide a meaningful error
 		if (exitCode !== 0) {
 			return {
 				success: false,
-				response,
-				inputTokens,
-				outputTokens,
+				...parsed,
 				error: formatCommandError(exitCode, output),
 			};
 		}
 
 		return {
 			success: true,
-			response,
-			inputTokens,
-			outputTokens,
+			...parsed,
 		};
 	}
 
 	async executeStreaming(
 		prompt: string,
 		workDir: string,
-		onProgress: ProgressCallback,
+		onEvent: AgentEventCallback,
 		options?: EngineOptions,
 	): Promise<AIResult> {
 		const args = ["--output-format", "stream-json", "--approval-mode", "yolo"];
@@ -105,6 +112,7 @@ export class QwenEngine extends BaseAIEngine {
 			args.push("-p", prompt);
 		}
 
+		const parseEvents = createClaudeEventParser();
 		const outputLines: string[] = [];
 
 		const { exitCode } = await execCommandStreaming(
@@ -114,14 +122,13 @@ export class QwenEngine extends BaseAIEngine {
 			(line) => {
 				outputLines.push(line);
 
-				// Detect and report step changes
-				const step = detectStepFromOutput(line);
-				if (step) {
-					onProgress(step);
+				for (const event of parseEvents(line)) {
+					onEvent(event);
 				}
 			},
 			undefined,
 			stdinContent,
+			options?.timeouts,
 		);
 
 		const output = outputLines.join("\n");
@@ -139,24 +146,20 @@ export class QwenEngine extends BaseAIEngine {
 		}
 
 		// Parse result (same format as Claude)
-		const { response, inputTokens, outputTokens } = parseStreamJsonResult(output);
+		const parsed = parseStreamJsonResult(output);
 
 		// If command failed with non-zero exit code, provide a meaningful error
 		if (exitCode !== 0) {
 			return {
 				success: false,
-				response,
-				inputTokens,
-				outputTokens,
+				...parsed,
 				error: formatCommandError(exitCode, output),
 			};
 		}
 
 		return {
 			success: true,
-			response,
-			inputTokens,
-			outputTokens,
+			...parsed,
 		};
 	}
 }
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { execCommand, execCommandStreaming } from "./base.ts";
+import {
+	type EngineRecording,
+	RecordingEngine,
+	type RecordingMode,
+	compareResults,
+	recordingFileName,
+	setRecording,
+} from "./recording.ts";
+import type { AIEngine, AIResult, EngineCapabilities } from "./types.ts";
+
+const capabilities: EngineCapabilities = {
+	streaming: true,
+	modelOverride: false,
+	stdinPrompt: false,
+	sessionResume: false,
+	tokenReporting: false,
+	costReporting: false,
+	nativePermissions: false,
+};
+
+/** Engine whose "CLI" is `sh`, echoing the prompt back */
+const echoEngine: AIEngine = {
+	id: "echo",
+	name: "Echo",
+	cliCommand: "sh",
+	capabilities,
+	isAvailable: async () => false,
+	async execute(prompt, workDir): Promise<AIResult> {
+		const { stdout, exitCode } = await execCommand("sh", ["-c", `echo ${prompt}`], workDir);
+		return { success: exitCode === 0, response: stdout.trim(), inputTokens: 0, outputTokens: 0 };
+	},
+	async executeStreaming(prompt, workDir): Promise<AIResult> {
+		const lines: string[] = [];
+		const { exitCode } = await execCommandStreaming(
+			"sh",
+			["-c", `echo ${prompt}; echo done`],
+			workDir,
+			(line) => lines.push(line),
+		);
+		return { success: exitCode === 0, response: lines.join("|"), inputTokens: 0, outputTokens: 0 };
+	},
+};
+
+describe("RecordingEngine", () => {
+	let dir: string;
+
+	const engine = (mode: RecordingMode["mode"]) => new RecordingEngine(echoEngine, { mode, dir });
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-recording-"));
+		setRecording({ mode: "record", dir });
+	});
+
+	afterEach(() => {
+		setRecording(undefined);
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("records the prompt, process output and result per task attempt", async () => {
+		const result = await engine("record").execute("hello", dir, { taskId: "task/1" });
+		await engine("record").execute("again", dir, { taskId: "task/1" });
+
+		expect(result.response).toBe("hello");
+		const recording = JSON.parse(
+			readFileSync(join(dir, recordingFileName("task/1", 1)), "utf-8"),
+		) as EngineRecording;
+		expect(recording).toMatchObject({ engine: "echo", taskId: "task/1", prompt: "hello" });
+		expect(recording.processes).toEqual([
+			{ command: "sh", args: ["-c", "echo hello"], stdout: "hello\n", stderr: "", exitCode: 0 },
+		]);
+		expect(recording.result).toEqual(result);
+		expect(readFileSync(join(dir, "task-1.2.json"), "utf-8")).toContain('"prompt": "again"');
+	});
+
+	it("replays recorded output through the engine without running the CLI", async () => {
+		await engine("record").executeStreaming("hello", dir, () => {}, { taskId: "a" });
+		const file = join(dir, recordingFileName("a", 1));
+		const recording = JSON.parse(readFileSync(file, "utf-8")) as EngineRecording;
+		expect(recording.processes[0].lines).toEqual(["hello", "done"]);
+
+		// The replayed output, not a real `sh`, decides the result
+		recording.processes[0].lines = ["recorded", "output"];
+		writeFileSync(file, JSON.stringify(recording));
+		setRecording({ mode: "replay", dir });
+
+		const replay = engine("replay");
+		expect(await replay.isAvailable()).toBe(true);
+		const result = await replay.executeStreaming("hello", dir, () => {}, { taskId: "a" });
+		expect(result.response).toBe("recorded|output");
+	});
+
+	it("fails a call that has no recording", async () => {
+		setRecording({ mode: "replay", dir });
+
+		const result = await engine("replay").execute("hello", dir, { taskId: "missing" });
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain("No recording for task missing (attempt 1)");
+	});
+});
+
+describe("compareResults", () => {
+	it("lists the fields a replay parsed differently", () => {
+		const recorded: AIResult = { success: true, response: "ok", inputTokens: 10, outputTokens: 5 };
+
+		expect(compareResults(recorded, { ...recorded })).toEqual([]);
+		expect(compareResults(recorded, { ...recorded, inputTokens: 0, sessionId: "s" })).toEqual([
+			"inputTokens",
+			"sessionId",
+		]);
+	});
+});
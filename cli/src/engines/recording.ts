@@ -0,0 +1,284 @@
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { basename, join, resolve } from "node:path";
+import { RALPHY_DIR } from "../config/loader.ts";
+import { logDebug, logWarn } from "../ui/logger.ts";
+import type {
+	AIEngine,
+	AIResult,
+	AgentEventCallback,
+	EngineCapabilities,
+	EngineOptions,
+	PermissionSupport,
+} from "./types.ts";
+
+/**
+ * A CLI process an engine ran through execCommand/execCommandStreaming
+ */
+export interface RecordedProcess {
+	command: string;
+	args: string[];
+	/** Environment overrides passed on top of process.env */
+	env?: Record<string, string>;
+	stdin?: string;
+	/** Raw output (execCommand) */
+	stdout?: string;
+	stderr?: string;
+	/** Output lines in the order they arrived (execCommandStreaming) */
+	lines?: string[];
+	exitCode: number;
+}
+
+/**
+ * One engine call, saved as `<task>.<attempt>.json` in the recording directory
+ */
+export interface EngineRecording {
+	engine: string;
+	taskId: string;
+	/** Engine calls for the task so far, counting retries and fallback switches */
+	attempt: number;
+	recordedAt: string;
+	prompt: string;
+	workDir: string;
+	streaming: boolean;
+	options?: EngineOptions;
+	processes: RecordedProcess[];
+	result: AIResult;
+}
+
+/**
+ * Whether engine calls are recorded to or replayed from a directory
+ */
+export interface RecordingMode {
+	mode: "record" | "replay";
+	dir: string;
+}
+
+/** Active --record/--replay mode (undefined = engines run normally) */
+let recordingMode: RecordingMode | undefined;
+
+/** Engine calls made per task, shared by every engine of the run */
+const attempts = new Map<string, number>();
+
+/** Transcripts of engine calls in progress, by working directory */
+const transcripts = new Map<string, Transcript>();
+
+/**
+ * Process calls of one engine call. Recording collects them; replaying hands
+ * them back in order instead of spawning the CLI.
+ */
+export class Transcript {
+	private next = 0;
+
+	constructor(
+		readonly replaying: boolean,
+		readonly processes: RecordedProcess[] = [],
+	) {}
+
+	record(process: RecordedProcess): void {
+		this.processes.push(process);
+	}
+
+	/**
+	 * The next recorded process. Running out of recordings looks like a failed process.
+	 */
+	replay(command: string, args: string[]): RecordedProcess {
+		const recorded = this.processes[this.next++];
+		if (!recorded) {
+			return {
+				command,
+				args,
+				stderr: `Replay: no recorded process left for ${command}`,
+				exitCode: 1,
+			};
+		}
+		if (recorded.command !== command) {
+			logDebug(`Replay: recorded ${recorded.command} but the engine ran ${command}`);
+		}
+		return recorded;
+	}
+}
+
+/**
+ * Transcript of the engine call running in `workDir`, if it is being recorded or replayed
+ */
+export function getTranscript(workDir: string): Transcript | undefined {
+	return transcripts.size > 0 ? transcripts.get(resolve(workDir)) : undefined;
+}
+
+/**
+ * Set or clear the record/replay mode used by createEngine
+ */
+export function setRecording(mode: RecordingMode | undefined): void {
+	recordingMode = mode && { mode: mode.mode, dir: resolve(mode.dir) };
+	attempts.clear();
+}
+
+/**
+ * Active record/replay mode
+ */
+export function getRecording(): RecordingMode | undefined {
+	return recordingMode;
+}
+
+/**
+ * Record engine calls to a new directory under .ralphy/recordings/
+ * @returns The recording directory
+ */
+export function startRecording(workDir: string): string {
+	const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+	const dir = join(workDir, RALPHY_DIR, "recordings", stamp);
+	setRecording({ mode: "record", dir });
+	return dir;
+}
+
+/**
+ * Replay engine calls from a directory written by --record
+ */
+export function startReplay(dir: string): void {
+	if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+		throw new Error(`Recording directory not found: ${dir}`);
+	}
+	setRecording({ mode: "replay", dir });
+}
+
+/**
+ * File name of a task's recording for an attempt
+ */
+export function recordingFileName(taskId: string, attempt: number): string {
+	return `${taskId.replace(/[^\w.-]+/g, "-")}.${attempt}.json`;
+}
+
+/**
+ * Fields of a replayed result that differ from the recorded one
+ */
+export function compareResults(recorded: AIResult, replayed: AIResult): string[] {
+	const keys = new Set([...Object.keys(recorded), ...Object.keys(replayed)]) as Set<keyof AIResult>;
+	return [...keys].filter((key) => JSON.stringify(recorded[key]) !== JSON.stringify(replayed[key]));
+}
+
+/**
+ * Engine that records every call (prompt, CLI processes and result) to disk, or
+ * replays recorded CLI output through the wrapped engine's parsers without
+ * running the CLI.
+ */
+export class RecordingEngine implements AIEngine {
+	constructor(
+		private readonly engine: AIEngine,
+		private readonly recording: RecordingMode,
+	) {}
+
+	get id(): string {
+		return this.engine.id;
+	}
+
+	get name(): string {
+		return this.engine.name;
+	}
+
+	get cliCommand(): string {
+		return this.engine.cliCommand;
+	}
+
+	get capabilities(): EngineCapabilities {
+		return this.engine.capabilities;
+	}
+
+	get permissionSupport(): PermissionSupport | undefined {
+		return this.engine.permissionSupport;
+	}
+
+	/**
+	 * Replays don't need the CLI installed
+	 */
+	async isAvailable(): Promise<boolean> {
+		return this.recording.mode === "replay" || this.engine.isAvailable();
+	}
+
+	execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult> {
+		return this.run(prompt, workDir, options, false, () =>
+			this.engine.execute(prompt, workDir, options),
+		);
+	}
+
+	executeStreaming(
+		prompt: string,
+		workDir: string,
+		onEvent: AgentEventCallback,
+		options?: EngineOptions,
+	): Promise<AIResult> {
+		const { engine } = this;
+		return this.run(prompt, workDir, options, true, () =>
+			engine.capabilities.streaming && engine.executeStreaming
+				? engine.executeStreaming(prompt, workDir, onEvent, options)
+				: engine.execute(prompt, workDir, options),
+		);
+	}
+
+	private async run(
+		prompt: string,
+		workDir: string,
+		options: EngineOptions | undefined,
+		streaming: boolean,
+		call: () => Promise<AIResult>,
+	): Promise<AIResult> {
+		const taskId = options?.taskId ?? "engine";
+		const attempt = (attempts.get(taskId) ?? 0) + 1;
+		attempts.set(taskId, attempt);
+		const file = join(this.recording.dir, recordingFileName(taskId, attempt));
+
+		if (this.recording.mode === "replay") {
+			if (!existsSync(file)) {
+				return {
+					success: false,
+					response: "",
+					inputTokens: 0,
+					outputTokens: 0,
+					error: `No recording for task ${taskId} (attempt ${attempt}): ${file}`,
+				};
+			}
+			const recorded = JSON.parse(readFileSync(file, "utf-8")) as EngineRecording;
+			const result = await this.withTranscript(
+				workDir,
+				new Transcript(true, recorded.processes),
+				call,
+			);
+			const changed = compareResults(recorded.result, result);
+			if (changed.length > 0) {
+				logWarn(`Replay of ${basename(file)} differs from the recording: ${changed.join(", ")}`);
+			}
+			return result;
+		}
+
+		const transcript = new Transcript(false);
+		const result = await this.withTranscript(workDir, transcript, call);
+		const recording: EngineRecording = {
+			engine: this.engine.id,
+			taskId,
+			attempt,
+			recordedAt: new Date().toISOString(),
+			prompt,
+			workDir,
+			streaming,
+			options,
+			processes: transcript.processes,
+			result,
+		};
+		mkdirSync(this.recording.dir, { recursive: true });
+		writeFileSync(file, JSON.stringify(recording, null, 2));
+		return result;
+	}
+
+	private async withTranscript(
+		workDir: string,
+		transcript: Transcript,
+		call: () => Promise<AIResult>,
+	): Promise<AIResult> {
+		const key = resolve(workDir);
+		transcripts.set(key, transcript);
+		try {
+			return await call();
+		} finally {
+			transcripts.delete(key);
+		}
+	}
+}
@@ -1,3 +1,5 @@
+import type { AgentEvent } from "./events.ts";
+
 /**
  * Result from AI engine execution
  */
@@ -6,8 +8,16 @@ export interface AIResult {
 	response: string;
 	inputTokens: number;
 	outputTokens: number;
-	/** Actual cost in dollars (if provided by engine) or duration in ms */
-	cost?: string;
+	/** Tokens read from the prompt cache (not included in inputTokens) */
+	cacheReadTokens?: number;
+	/** Tokens written to the prompt cache (not included in inputTokens) */
+	cacheWriteTokens?: number;
+	/** Cost in US dollars, reported by the engine or estimated from the price table */
+	costUsd?: number;
+	/** Time the engine reported spending on the task */
+	durationMs?: number;
+	/** Engine session/conversation id, for resuming the session on retry */
+	sessionId?: string;
 	error?: string;
 }
 
@@ -19,32 +29,124 @@ export interface EngineOptions {
 	modelOverride?: string;
 	/** Additional arguments to pass to the engine CLI */
 	engineArgs?: string[];
+	/** Kill the engine process when it runs or stays silent too long */
+	timeouts?: ProcessTimeouts;
+	/** Continue an earlier session instead of starting a new one (engines with sessionResume) */
+	resume?: SessionResume;
+	/** Task the call works on, naming its --record/--replay transcript */
+	taskId?: string;
+	/** Whether the agent should commit its changes (engines with their own commit switch follow it) */
+	autoCommit?: boolean;
+	/** Rules to enforce through the engine's own permission settings (engines with nativePermissions) */
+	permissions?: EnginePermissions;
+}
+
+/**
+ * Project permission rules from `boundaries.never_touch` and `permissions:` in config
+ */
+export interface EnginePermissions {
+	/** Paths the agent may neither read nor modify */
+	deniedPaths: string[];
+	/** Paths the agent may read but not modify */
+	readOnlyPaths: string[];
+	/** Engine tools the agent may not use */
+	disallowedTools: string[];
+	/** Whether the agent may use the network */
+	network: boolean;
+}
+
+/**
+ * Which permission rules an engine enforces natively; the others are only in the prompt
+ */
+export interface PermissionSupport {
+	deniedPaths: boolean;
+	readOnlyPaths: boolean;
+	disallowedTools: boolean;
+	network: boolean;
+}
+
+/**
+ * A previous engine session to continue
+ */
+export interface SessionResume {
+	sessionId: string;
+	/** Sent instead of the full prompt, which the session has already seen */
+	prompt: string;
+}
+
+/**
+ * Watchdog limits for an engine process (--task-timeout / --idle-timeout)
+ */
+export interface ProcessTimeouts {
+	/** Wall-clock limit for one engine run */
+	taskTimeoutMs?: number;
+	/** Limit on time without any output */
+	idleTimeoutMs?: number;
+	/** Kills the process once aborted (a task that ran out of budget) */
+	signal?: AbortSignal;
+}
+
+/**
+ * What an engine can do
+ */
+export interface EngineCapabilities {
+	/** executeStreaming reports agent events while the engine runs */
+	streaming: boolean;
+	/** Honors EngineOptions.modelOverride */
+	modelOverride: boolean;
+	/** Can read the prompt from stdin instead of an argument */
+	stdinPrompt: boolean;
+	/** Reports a sessionId and continues it via EngineOptions.resume */
+	sessionResume: boolean;
+	/** Reports input/output token counts */
+	tokenReporting: boolean;
+	/** Reports its own dollar cost */
+	costReporting: boolean;
+	/** Has native tool/path permission or sandbox settings */
+	nativePermissions: boolean;
+}
+
+/**
+ * A switch from one engine to the next in a fallback chain
+ */
+export interface EngineSwitch {
+	from: string;
+	to: string;
+	reason: string;
 }
 
 /**
- * Progress callback type for streaming execution
+ * Callback receiving structured events during streaming execution
  */
-export type ProgressCallback = (step: string) => void;
+export type AgentEventCallback = (event: AgentEvent) => void;
 
 /**
  * AI Engine interface - one per AI tool
  */
 export interface AIEngine {
+	/** Engine key as selected with --engine (claude, codex, a custom engine name, ...) */
+	id: string;
 	/** Display name of the engine */
 	name: string;
 	/** CLI command to invoke */
 	cliCommand: string;
+	/** Features the engine supports; callers branch on these rather than on the engine */
+	capabilities: EngineCapabilities;
+	/** Permission rules the engine enforces (engines with nativePermissions) */
+	permissionSupport?: PermissionSupport;
 	/** Check if the engine CLI is available */
 	isAvailable(): Promise<boolean>;
 	/** Execute a prompt and return the result */
 	execute(prompt: string, workDir: string, options?: EngineOptions): Promise<AIResult>;
-	/** Execute with streaming progress updates (optional) */
+	/** Execute while reporting what the agent does as events (optional) */
 	executeStreaming?(
 		prompt: string,
 		workDir: string,
-		onProgress: ProgressCallback,
+		onEvent: AgentEventCallback,
 		options?: EngineOptions,
 	): Promise<AIResult>;
+	/** Switches to other engines made so far, in order (engines that fall back) */
+	getSwitches?(): EngineSwitch[];
 }
 
 /**
@@ -58,4 +160,7 @@ export type AIEngineName =
 	| "qwen"
 	| "droid"
 	| "copilot"
-	| "gemini";
+	| "gemini"
+	| "aider"
+	| "http"
+	| "mock";
@@ -0,0 +1,47 @@
+import { type AgentEvent, describeEvent } from "../engines/events.ts";
+import type { AgentEventCallback } from "../engines/types.ts";
+import { recordAgentEvent } from "../telemetry/index.ts";
+import { logDebug } from "../ui/logger.ts";
+
+/**
+ * One-line summary of an event for the debug log
+ */
+function formatAgentEvent(event: AgentEvent): string {
+	switch (event.type) {
+		case "tool_call_start":
+			return `tool ${event.tool} started`;
+		case "tool_call_end":
+			return `tool ${event.tool} ${event.success ? "succeeded" : "failed"}`;
+		case "file_read":
+			return `read ${event.path}`;
+		case "file_edit":
+			return `edit ${event.path}`;
+		case "shell_command":
+			return `run ${event.command}`;
+		case "assistant_text":
+			return `text ${event.text.slice(0, 120).replace(/\s+/g, " ")}`;
+		case "token_usage":
+			return `tokens ${event.inputTokens} in / ${event.outputTokens} out`;
+		case "error":
+			return `error ${event.message}`;
+	}
+}
+
+/** Distinguishes the tool calls of agents running at the same time in telemetry */
+let handlerCount = 0;
+
+/**
+ * Feed an agent's event stream to telemetry, the debug log and a progress
+ * display (e.g. the spinner step)
+ */
+export function createAgentEventHandler(onStep: (step: string) => void): AgentEventCallback {
+	const agent = `agent-${++handlerCount}`;
+	return (event) => {
+		logDebug(`[agent] ${formatAgentEvent(event)}`);
+		recordAgentEvent(event, agent);
+		const step = describeEvent(event);
+		if (step) {
+			onStep(step);
+		}
+	};
+}
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import {
+	cpSync,
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import simpleGit from "simple-git";
+import { BoundaryGuard, matchesBoundary } from "./boundary-guard.ts";
+import { isFatalError, isRetryableError } from "./retry.ts";
+
+const BOUNDARIES = ["PRD.md", ".ralphy/progress.txt", "src/legacy/**", "*.lock"];
+
+describe("matchesBoundary", () => {
+	it("matches globs, files and directories", () => {
+		expect(matchesBoundary("src/legacy/old.ts", "src/legacy/**")).toBe(true);
+		expect(matchesBoundary("src/legacy/old.ts", "./src/legacy/")).toBe(true);
+		expect(matchesBoundary("PRD.md", "PRD.md")).toBe(true);
+		expect(matchesBoundary("web/bun.lock", "*.lock")).toBe(true);
+		expect(matchesBoundary("src/app.ts", "src/legacy/**")).toBe(false);
+		expect(matchesBoundary("docs/PRD.md", "./PRD.md")).toBe(false);
+	});
+});
+
+describe("BoundaryGuard", () => {
+	let dir: string;
+
+	const write = (path: string, content: string) => {
+		mkdirSync(join(dir, path, ".."), { recursive: true });
+		writeFileSync(join(dir, path), content);
+	};
+	const read = (path: string) => readFileSync(join(dir, path), "utf-8");
+
+	beforeEach(async () => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-boundaries-"));
+		const git = simpleGit(dir);
+		await git.init();
+		await git.addConfig("user.email", "test@example.com");
+		await git.addConfig("user.name", "Test");
+		await git.addConfig("commit.gpgsign", "false");
+		write("PRD.md", "- [ ] Add login\n");
+		write("src/legacy/old.ts", "old\n");
+		write("src/app.ts", "app\n");
+		await git.add(".");
+		await git.commit("Initial commit");
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("reverts committed and uncommitted changes to protected paths", async () => {
+		const git = simpleGit(dir);
+		const guard = await BoundaryGuard.start({
+			workDir: dir,
+			boundaries: BOUNDARIES,
+			policy: "revert",
+		});
+
+		write("src/legacy/old.ts", "rewritten\n");
+		write("src/app.ts", "login\n");
+		await git.add(".");
+		await git.commit("Add login");
+		write("PRD.md", "- [x] Add login\n");
+		write("src/legacy/new.ts", "new\n");
+		write(".ralphy/progress.txt", "done\n");
+
+		expect(await guard.findViolations()).toEqual([
+			".ralphy/progress.txt",
+			"PRD.md",
+			"src/legacy/new.ts",
+			"src/legacy/old.ts",
+		]);
+		expect(await guard.enforce()).toEqual({ success: true });
+
+		expect(read("PRD.md")).toBe("- [ ] Add login\n");
+		expect(read("src/legacy/old.ts")).toBe("old\n");
+		expect(read("src/app.ts")).toBe("login\n");
+		expect(existsSync(join(dir, "src/legacy/new.ts"))).toBe(false);
+		expect(existsSync(join(dir, ".ralphy/progress.txt"))).toBe(false);
+		expect((await git.log()).latest?.message).toBe("Revert changes to protected paths");
+		expect((await git.status()).isClean()).toBe(true);
+		expect(await guard.findViolations()).toEqual([]);
+	});
+
+	it("keeps changes made before the task and fails with the fail policy", async () => {
+		// ralphy copies the latest PRD into a worktree before the agent starts
+		write("PRD.md", "- [x] Add login\n- [ ] Add logout\n");
+		const guard = await BoundaryGuard.start({
+			workDir: dir,
+			boundaries: BOUNDARIES,
+			policy: "fail",
+		});
+		expect(await guard.findViolations()).toEqual([]);
+
+		write("PRD.md", "- [x] Add login\n- [x] Add logout\n");
+		write("bun.lock", "{}\n");
+		const result = await guard.enforce();
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("Boundary violation: 2 protected path(s) changed");
+		expect(result.output).toContain("- PRD.md");
+		expect(result.output).toContain("- bun.lock");
+		expect(isRetryableError(result.error ?? "")).toBe(false);
+		expect(isFatalError(result.error ?? "")).toBe(false);
+		expect(read("PRD.md")).toBe("- [x] Add login\n- [ ] Add logout\n");
+		expect(existsSync(join(dir, "bun.lock"))).toBe(false);
+	});
+
+	it("compares a sandbox against the directory it was copied from", async () => {
+		const sandboxDir = mkdtempSync(join(tmpdir(), "ralphy-boundaries-sandbox-"));
+		try {
+			cpSync(join(dir, "src"), join(sandboxDir, "src"), {
+				recursive: true,
+				preserveTimestamps: true,
+			});
+			const guard = await BoundaryGuard.start({
+				workDir: sandboxDir,
+				boundaries: BOUNDARIES,
+				policy: "revert",
+				originalDir: dir,
+			});
+
+			writeFileSync(join(sandboxDir, "src/legacy/old.ts"), "rewritten\n");
+			writeFileSync(join(sandboxDir, "src/app.ts"), "login\n");
+			expect(await guard.findViolations()).toEqual(["src/legacy/old.ts"]);
+
+			await guard.enforce();
+			expect(readFileSync(join(sandboxDir, "src/legacy/old.ts"), "utf-8")).toBe("old\n");
+			expect(readFileSync(join(sandboxDir, "src/app.ts"), "utf-8")).toBe("login\n");
+		} finally {
+			rmSync(sandboxDir, { recursive: true, force: true });
+		}
+	});
+});
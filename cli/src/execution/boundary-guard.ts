@@ -0,0 +1,243 @@
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, sep } from "node:path";
+import simpleGit from "simple-git";
+import { loadPermissions } from "../config/loader.ts";
+import type { BoundaryViolationPolicy } from "../config/types.ts";
+import { logDebug, logWarn } from "../ui/logger.ts";
+import { getModifiedFiles } from "./sandbox.ts";
+import type { VerificationResult } from "./verification.ts";
+
+/**
+ * Files and directories ralphy manages itself (besides the PRD)
+ */
+export const SYSTEM_BOUNDARIES = [".ralphy/progress.txt", ".ralphy-worktrees", ".ralphy-sandboxes"];
+
+/**
+ * Where a task's working directory started, to find out what the task changed
+ */
+interface Baseline {
+	/** Paths (relative, "/"-separated) that may differ from the starting point */
+	changedFiles(): Promise<string[]>;
+	/** Content a file had when the task started, null if it didn't exist */
+	startContent(path: string): Promise<Buffer | null>;
+	/** Commit reverted files that the task committed */
+	commitReverts?(paths: string[]): Promise<void>;
+}
+
+/**
+ * Baseline of a git working tree: the commit the task started from
+ */
+function gitBaseline(workDir: string, startCommit: string): Baseline {
+	const git = simpleGit(workDir);
+	const lines = (output: string) => output.split("\n").filter(Boolean);
+
+	return {
+		async changedFiles() {
+			const [changed, untracked] = await Promise.all([
+				git.raw(["diff", "--name-only", "--no-renames", startCommit]),
+				git.raw(["ls-files", "--others", "--exclude-standard"]),
+			]);
+			return [...lines(changed), ...lines(untracked)];
+		},
+		async startContent(path) {
+			try {
+				return await git.binaryCatFile(["blob", `${startCommit}:${path}`]);
+			} catch {
+				return null;
+			}
+		},
+		async commitReverts(paths) {
+			const head = (await git.revparse(["HEAD"])).trim();
+			if (head === startCommit) return;
+			// Only paths the task committed; the rest were never part of a commit
+			const committed = new Set(
+				lines(await git.raw(["diff", "--name-only", "--no-renames", startCommit, "HEAD"])),
+			);
+			const toCommit = paths.filter((path) => committed.has(path));
+			if (toCommit.length === 0) return;
+			await git.raw(["add", "-A", "--", ...toCommit]);
+			await git.commit("Revert changes to protected paths", toCommit);
+		},
+	};
+}
+
+/**
+ * Baseline of a sandbox: the original directory it was copied from
+ */
+function sandboxBaseline(sandboxDir: string, originalDir: string): Baseline {
+	return {
+		async changedFiles() {
+			const files = await getModifiedFiles(sandboxDir, originalDir);
+			return files.map((file) => file.split(sep).join("/"));
+		},
+		async startContent(path) {
+			return readFileOrNull(join(originalDir, path));
+		},
+	};
+}
+
+function readFileOrNull(path: string): Buffer | null {
+	try {
+		return readFileSync(path);
+	} catch {
+		return null;
+	}
+}
+
+function isGlob(pattern: string): boolean {
+	return /[*?[{]/.test(pattern);
+}
+
+function normalizePath(path: string): string {
+	return path.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+/**
+ * Whether a path matches a boundary. Boundaries are globs ("src/legacy/**"), files or
+ * directories; a glob without a slash also matches nested files ("*.lock" matches
+ * "web/bun.lock").
+ */
+export function matchesBoundary(path: string, boundary: string): boolean {
+	const pattern = normalizePath(boundary);
+	if (!pattern) return false;
+	if (path === pattern || path.startsWith(`${pattern}/`)) return true;
+
+	const glob = new Bun.Glob(pattern);
+	if (glob.match(path)) return true;
+	return isGlob(pattern) && !pattern.includes("/") && glob.match(basename(path));
+}
+
+/**
+ * Boundaries enforced after each task: the PRD, ralphy's own files, never_touch,
+ * read-only and denied paths
+ */
+export function loadProtectedPaths(configDir: string, prdFile?: string): string[] {
+	const permissions = loadPermissions(configDir);
+	return [
+		...(prdFile ? [prdFile] : []),
+		...SYSTEM_BOUNDARIES,
+		...permissions.readOnlyPaths,
+		...permissions.deniedPaths,
+	];
+}
+
+/**
+ * Rejects a task's changes to protected paths.
+ *
+ * Start the guard before the first attempt at a task (after ralphy's own setup, like
+ * copying the PRD). enforce() then finds every protected path that differs from the
+ * start of the task, committed or not, and puts it back. Pass the guard to
+ * ensureVerified so this runs after every attempt.
+ */
+export class BoundaryGuard {
+	private constructor(
+		private workDir: string,
+		private boundaries: string[],
+		private policy: BoundaryViolationPolicy,
+		private baseline: Baseline | null,
+		private snapshot: Map<string, Buffer | null>,
+	) {}
+
+	/**
+	 * Remember the protected paths' state before a task runs
+	 * @param originalDir Directory a sandbox was copied from; a git baseline is used without it
+	 */
+	static async start(options: {
+		workDir: string;
+		boundaries: string[];
+		policy: BoundaryViolationPolicy;
+		originalDir?: string;
+	}): Promise<BoundaryGuard> {
+		const { workDir, boundaries, policy, originalDir } = options;
+		let baseline: Baseline | null = null;
+		if (originalDir) {
+			baseline = sandboxBaseline(workDir, originalDir);
+		} else {
+			try {
+				const startCommit = (await simpleGit(workDir).revparse(["HEAD"])).trim();
+				baseline = gitBaseline(workDir, startCommit);
+			} catch (error) {
+				// Not a repository (or no commits yet): only plain file boundaries are checked
+				logDebug(`Boundary check without git baseline: ${error}`);
+			}
+		}
+
+		const guard = new BoundaryGuard(workDir, boundaries, policy, baseline, new Map());
+		// Files ralphy already changed (the PRD copy, uncommitted edits) count as they are now
+		const literals = boundaries.map(normalizePath).filter((path) => !isGlob(path));
+		for (const path of await guard.candidates(literals)) {
+			guard.snapshot.set(path, readFileOrNull(join(workDir, path)));
+		}
+		return guard;
+	}
+
+	private async candidates(extra: string[] = []): Promise<string[]> {
+		const changed = (await this.baseline?.changedFiles()) ?? [];
+		const paths = new Set([...changed, ...this.snapshot.keys(), ...extra].map(normalizePath));
+		return [...paths].filter((path) =>
+			this.boundaries.some((boundary) => matchesBoundary(path, boundary)),
+		);
+	}
+
+	private async expectedContent(path: string): Promise<Buffer | null> {
+		if (this.snapshot.has(path)) {
+			return this.snapshot.get(path) ?? null;
+		}
+		return (await this.baseline?.startContent(path)) ?? null;
+	}
+
+	/**
+	 * Protected paths that differ from the start of the task
+	 */
+	async findViolations(): Promise<string[]> {
+		const violations: string[] = [];
+		for (const path of await this.candidates()) {
+			const expected = await this.expectedContent(path);
+			const current = readFileOrNull(join(this.workDir, path));
+			if (expected === null && current === null) continue;
+			if (expected && current && expected.equals(current)) continue;
+			violations.push(path);
+		}
+		return violations.sort();
+	}
+
+	/**
+	 * Put protected paths back the way they were when the task started
+	 */
+	async revert(paths: string[]): Promise<void> {
+		for (const path of paths) {
+			const fullPath = join(this.workDir, path);
+			const expected = await this.expectedContent(path);
+			if (expected === null) {
+				rmSync(fullPath, { force: true });
+			} else {
+				mkdirSync(dirname(fullPath), { recursive: true });
+				writeFileSync(fullPath, expected);
+			}
+		}
+		await this.baseline?.commitReverts?.(paths);
+	}
+
+	/**
+	 * Revert changes to protected paths. Fails when the policy is "fail", with the
+	 * paths as output so the retry prompt can name them.
+	 */
+	async enforce(): Promise<VerificationResult> {
+		const violations = await this.findViolations();
+		if (violations.length === 0) {
+			return { success: true };
+		}
+
+		await this.revert(violations);
+		logWarn(`Reverted changes to protected paths: ${violations.join(", ")}`);
+		if (this.policy === "revert") {
+			return { success: true };
+		}
+		// Keep paths out of the message so it is never mistaken for a retryable or fatal error
+		return {
+			success: false,
+			error: `Boundary violation: ${violations.length} protected path(s) changed`,
+			output: `These paths must not be changed and were reverted:\n${violations.map((path) => `- ${path}`).join("\n")}`,
+		};
+	}
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test";
+import type { AgentEvent } from "../engines/events.ts";
+import type { AIResult } from "../engines/types.ts";
+import { toTaskBudget } from "../tasks/task-budget.ts";
+import type { Task } from "../tasks/types.ts";
+import { BudgetTracker, isTaskBudgetError } from "./budget.ts";
+
+const task = (title: string, budget?: Task["budget"]): Task => ({
+	id: title,
+	title,
+	completed: false,
+	budget,
+});
+
+const spent = (tokens: number, costUsd?: number): AIResult => ({
+	success: true,
+	response: "",
+	inputTokens: tokens,
+	outputTokens: 0,
+	costUsd,
+});
+
+describe("BudgetTracker", () => {
+	it("stops the run once total tokens reach --max-tokens", () => {
+		const budget = new BudgetTracker({ maxTokens: 1000 });
+
+		budget.startTask(task("a"), "claude").recordAttempt(spent(600));
+		expect(budget.check()).toBeNull();
+		budget.startTask(task("b"), "claude").recordAttempt(spent(500));
+		expect(budget.check()).toBe("Run reached its token budget (1,100 / 1,000 tokens)");
+		expect(budget.exceeded).toContain("token budget");
+	});
+
+	it("counts every attempt and reports the cost budget only once", () => {
+		const budget = new BudgetTracker({ maxCost: 1 });
+		const retried = budget.startTask(task("a"), "claude");
+
+		retried.recordAttempt({ ...spent(10, 0.25), success: false, error: "Rate limit exceeded" });
+		retried.recordAttempt({ ...spent(10, 0.5), success: false });
+		expect(budget.check()).toBeNull();
+		budget.startTask(task("b"), "claude").recordAttempt(spent(10, 0.5));
+		expect(budget.check()).toBe("Run reached its cost budget ($1.25 / $1.00)");
+		expect(budget.costUsd).toBe(1.25);
+		budget.startTask(task("c"), "claude").recordAttempt(spent(10, 3));
+		expect(budget.check()).toBeNull();
+	});
+});
+
+describe("TaskBudgetGuard", () => {
+	it("fails a task over its own budget without stopping the run", () => {
+		const budget = new BudgetTracker();
+		const small = budget.startTask(task("small", { maxTokens: 100 }), "claude");
+		const big = budget.startTask(task("big", { maxTokens: 100 }), "claude");
+
+		expect(small.recordAttempt(spent(50)).success).toBe(true);
+		const result = big.recordAttempt(spent(150));
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("Task reached its token budget (150 / 100 tokens)");
+		expect(isTaskBudgetError(result.error ?? "")).toBe(true);
+		expect(big.exhaustedResult()?.error).toBe(result.error);
+		expect(budget.check()).toBeNull();
+	});
+
+	it("adds up the task's attempts, failed ones included", () => {
+		const budget = new BudgetTracker();
+		const guard = budget.startTask(task("a", { maxTokens: 100 }), "claude");
+
+		guard.recordAttempt({ ...spent(60), success: false, error: "Connection reset" });
+		expect(guard.exhaustedResult()).toBeNull();
+		expect(guard.recordAttempt(spent(60)).error).toBe(
+			"Task reached its token budget (120 / 100 tokens)",
+		);
+	});
+
+	it("stops the agent once its streamed usage reaches the task budget", () => {
+		const budget = new BudgetTracker({ maxTokens: 10_000 });
+		const guard = budget.startTask(task("a", { maxTokens: 100 }), "claude");
+		const events: AgentEvent[] = [];
+
+		const timeouts = guard.limitAttempt({ idleTimeoutMs: 1000 });
+		const onEvent = guard.watch((event) => events.push(event));
+		onEvent?.({ type: "token_usage", inputTokens: 40, outputTokens: 20 });
+		expect(timeouts?.signal?.aborted).toBe(false);
+		onEvent?.({ type: "token_usage", inputTokens: 30, outputTokens: 20 });
+
+		expect(events).toHaveLength(2);
+		expect(timeouts?.idleTimeoutMs).toBe(1000);
+		expect(timeouts?.signal?.aborted).toBe(true);
+		expect(timeouts?.signal?.reason).toBe("Task reached its token budget (110 / 100 tokens)");
+
+		// The killed agent never reported its usage; what it streamed still counts
+		const result = guard.recordAttempt({ ...spent(0), success: false, error: "Engine stopped" });
+		expect(result.error).toBe("Task reached its token budget (110 / 100 tokens)");
+		budget.check();
+		expect(budget.exceeded).toBeNull();
+	});
+
+	it("leaves tasks without a budget alone", () => {
+		const guard = new BudgetTracker().startTask(task("a"), "claude");
+		const onEvent = () => {};
+
+		expect(guard.limitAttempt(undefined)).toBeUndefined();
+		expect(guard.watch(onEvent)).toBe(onEvent);
+		expect(guard.recordAttempt(spent(1_000_000)).success).toBe(true);
+	});
+});
+
+describe("toTaskBudget", () => {
+	it("converts budget fields and rejects non-positive limits", () => {
+		expect(toTaskBudget("t", { max_cost: 2, max_tokens: 1000 })).toEqual({
+			maxCost: 2,
+			maxTokens: 1000,
+		});
+		expect(toTaskBudget("t")).toBeUndefined();
+		expect(() => toTaskBudget("t", { max_cost: 0 })).toThrow(
+			'Task "t" has an invalid budget: max_cost must be a positive number',
+		);
+	});
+});
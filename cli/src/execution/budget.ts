@@ -0,0 +1,188 @@
+import { calculateCost, findModelPrice, withEstimatedCost } from "../engines/pricing.ts";
+import type { AIResult, AgentEventCallback, ProcessTimeouts } from "../engines/types.ts";
+import type { Task, TaskBudget } from "../tasks/types.ts";
+import { formatCost } from "../ui/logger.ts";
+
+/**
+ * Spend limits for a run (--max-cost / --max-tokens)
+ */
+export type RunBudget = TaskBudget;
+
+interface Spend {
+	tokens: number;
+	costUsd: number;
+}
+
+/** Subject of the error for a task that ran out of its own budget, see isTaskBudgetError */
+const TASK_SUBJECT = "Task";
+
+/**
+ * Describe the limit a spend has reached, or null when it is within budget
+ */
+function checkBudget(subject: string, budget: TaskBudget, spend: Spend): string | null {
+	if (budget.maxTokens !== undefined && spend.tokens >= budget.maxTokens) {
+		return `${subject} reached its token budget (${spend.tokens.toLocaleString()} / ${budget.maxTokens.toLocaleString()} tokens)`;
+	}
+	if (budget.maxCost !== undefined && spend.costUsd >= budget.maxCost) {
+		return `${subject} reached its cost budget (${formatCost(spend.costUsd)} / ${formatCost(budget.maxCost)})`;
+	}
+	return null;
+}
+
+/**
+ * Whether a task failed because it ran out of its own `budget:`. The message holds
+ * no task title, so it is never mistaken for a retryable or fatal error.
+ */
+export function isTaskBudgetError(error: string): boolean {
+	return error.startsWith(`${TASK_SUBJECT} reached its `);
+}
+
+/**
+ * Tracks token and dollar spend across a run.
+ *
+ * Every engine attempt is recorded through the task's TaskBudgetGuard, failed and
+ * retried ones included, since their tokens were spent too. Once the run budget is
+ * reached the tracker reports it, and execution loops stop scheduling new tasks.
+ */
+export class BudgetTracker {
+	private spend: Spend = { tokens: 0, costUsd: 0 };
+	/** The budget that stopped the run, once one is reached */
+	exceeded: string | null = null;
+
+	constructor(private readonly runBudget: RunBudget = {}) {}
+
+	/** Dollars spent so far (known and estimated costs) */
+	get costUsd(): number {
+		return this.spend.costUsd;
+	}
+
+	/**
+	 * Start spending on a task; use the guard for every attempt at it
+	 */
+	startTask(task: Task, engineId: string, model?: string): TaskBudgetGuard {
+		return new TaskBudgetGuard(this, task.budget, engineId, model);
+	}
+
+	/** Add an attempt's spend (called by TaskBudgetGuard) */
+	add(spend: Spend): void {
+		this.spend.tokens += spend.tokens;
+		this.spend.costUsd += spend.costUsd;
+	}
+
+	/**
+	 * Check the run budget after a task. Returns the budget reached, only the first time.
+	 */
+	check(): string | null {
+		if (this.exceeded) {
+			return null;
+		}
+		this.exceeded = checkBudget("Run", this.runBudget, this.spend);
+		return this.exceeded;
+	}
+}
+
+/**
+ * One task's spend across its attempts.
+ *
+ * Each attempt's usage counts toward the task and the run. With a task `budget:`,
+ * a streaming agent is stopped as soon as its reported usage reaches the budget,
+ * and an attempt that ends over budget fails the task (the run goes on).
+ */
+export class TaskBudgetGuard {
+	private spend: Spend = { tokens: 0, costUsd: 0 };
+	private controller: AbortController | null = null;
+	/** Usage the current attempt has streamed so far */
+	private streamed = { inputTokens: 0, outputTokens: 0 };
+
+	constructor(
+		private readonly tracker: BudgetTracker,
+		private readonly budget: TaskBudget | undefined,
+		private readonly engineId: string,
+		private readonly model?: string,
+	) {}
+
+	/**
+	 * The task's budget as reached so far, or null while there is budget left
+	 */
+	exceeded(): string | null {
+		return this.budget ? checkBudget(TASK_SUBJECT, this.budget, this.spend) : null;
+	}
+
+	/**
+	 * Failed result for an attempt that can't start because the budget is used up
+	 */
+	exhaustedResult(): AIResult | null {
+		const exceeded = this.exceeded();
+		return exceeded
+			? { success: false, response: "", inputTokens: 0, outputTokens: 0, error: exceeded }
+			: null;
+	}
+
+	/**
+	 * Process limits for the next attempt: with a task budget, the engine is killed
+	 * once `watch` sees its streamed usage reach the budget
+	 */
+	limitAttempt(timeouts?: ProcessTimeouts): ProcessTimeouts | undefined {
+		if (!this.budget) {
+			return timeouts;
+		}
+		this.controller = new AbortController();
+		this.streamed = { inputTokens: 0, outputTokens: 0 };
+		return { ...timeouts, signal: this.controller.signal };
+	}
+
+	/**
+	 * Count the token usage an agent streams, stopping the attempt when it runs out
+	 * of budget. Returns the callback unchanged without a task budget.
+	 */
+	watch(onEvent?: AgentEventCallback): AgentEventCallback | undefined {
+		const controller = this.controller;
+		if (!this.budget || !controller) {
+			return onEvent;
+		}
+
+		const budget = this.budget;
+		const price = findModelPrice(this.engineId, this.model);
+		return (event) => {
+			onEvent?.(event);
+			if (event.type !== "token_usage" || controller.signal.aborted) return;
+
+			const streamed = this.streamed;
+			streamed.inputTokens += event.inputTokens;
+			streamed.outputTokens += event.outputTokens;
+			const exceeded = checkBudget(TASK_SUBJECT, budget, {
+				tokens: this.spend.tokens + streamed.inputTokens + streamed.outputTokens,
+				costUsd: this.spend.costUsd + (price ? calculateCost(price, streamed) : 0),
+			});
+			if (exceeded) {
+				controller.abort(exceeded);
+			}
+		};
+	}
+
+	/**
+	 * Record a finished attempt (estimating its cost from the price table) and fail
+	 * it if the task went over its budget
+	 */
+	recordAttempt(result: AIResult): AIResult {
+		// An agent stopped mid-run never reports its final usage, so keep what it streamed
+		const { inputTokens, outputTokens } = this.streamed;
+		const usage =
+			inputTokens + outputTokens > result.inputTokens + result.outputTokens
+				? { ...result, inputTokens, outputTokens, costUsd: undefined }
+				: result;
+		const costed = withEstimatedCost(usage, this.engineId, this.model);
+		const spend = {
+			tokens: costed.inputTokens + costed.outputTokens,
+			costUsd: costed.costUsd ?? 0,
+		};
+		this.spend.tokens += spend.tokens;
+		this.spend.costUsd += spend.costUsd;
+		this.tracker.add(spend);
+		this.controller = null;
+		this.streamed = { inputTokens: 0, outputTokens: 0 };
+
+		const exceeded = this.exceeded();
+		return exceeded ? { ...costed, success: false, error: exceeded } : costed;
+	}
+}
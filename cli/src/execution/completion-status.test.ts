@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AIResult } from "../engines/types.ts";
+import { withCache } from "../tasks/cached-task-source.ts";
+import { MarkdownTaskSource } from "../tasks/markdown.ts";
+import {
+	addFollowupTasks,
+	applyCompletionStatus,
+	isOpenTaskError,
+	parseCompletionStatus,
+} from "./completion-status.ts";
+import { isFatalError, isRetryableError } from "./retry.ts";
+
+const answer = (status: object) =>
+	`I looked into it.\n\n\`\`\`json\n${JSON.stringify(status, null, 2)}\n\`\`\``;
+
+const success = (response: string): AIResult => ({
+	success: true,
+	response,
+	inputTokens: 10,
+	outputTokens: 5,
+});
+
+describe("parseCompletionStatus", () => {
+	it("reads the last status block of the answer", () => {
+		const response = `Example config:\n\`\`\`json\n{"port": 8080}\n\`\`\`\n${answer({
+			status: "partial",
+			summary: " Added the endpoint ",
+			followups: ["Add rate limiting", 42, ""],
+		})}`;
+
+		expect(parseCompletionStatus(response)).toEqual({
+			status: "partial",
+			summary: "Added the endpoint",
+			followups: ["Add rate limiting"],
+		});
+	});
+
+	it("ignores answers without a valid status", () => {
+		expect(parseCompletionStatus("Done!")).toBeUndefined();
+		expect(parseCompletionStatus(answer({ status: "finished" }))).toBeUndefined();
+		expect(parseCompletionStatus("```json\n{not json\n```")).toBeUndefined();
+	});
+});
+
+describe("applyCompletionStatus", () => {
+	it("fails results the agent didn't finish", () => {
+		const result = applyCompletionStatus(
+			success(answer({ status: "blocked", summary: "Couldn't find the API key" })),
+		);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("Agent reported the task as blocked: Couldn't find the API key");
+		expect(isOpenTaskError(result.error ?? "")).toBe(true);
+		// The summary would otherwise look like a fatal error
+		expect(isFatalError(result.error ?? "")).toBe(false);
+		expect(isRetryableError(result.error ?? "")).toBe(false);
+	});
+
+	it("keeps done results and results without a status block", () => {
+		const done = success(answer({ status: "done" }));
+		const plain = success("Task completed");
+
+		expect(applyCompletionStatus(done)).toBe(done);
+		expect(applyCompletionStatus(plain)).toBe(plain);
+	});
+});
+
+describe("addFollowupTasks", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-followups-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("appends new follow-ups to the PRD after pending completions", async () => {
+		const prd = join(dir, "PRD.md");
+		writeFileSync(prd, "# Tasks\n- [ ] Add login\n- [ ] Add logout");
+		const source = withCache(new MarkdownTaskSource(prd), { flushIntervalMs: 0 });
+		await source.markComplete("2");
+
+		await addFollowupTasks(
+			source,
+			success(answer({ status: "done", followups: ["Add logout", "Add password reset"] })),
+		);
+
+		expect(readFileSync(prd, "utf-8")).toBe(
+			"# Tasks\n- [x] Add login\n- [ ] Add logout\n- [ ] Add password reset\n",
+		);
+		expect((await source.getAllTasks()).map((task) => task.title)).toEqual([
+			"Add logout",
+			"Add password reset",
+		]);
+	});
+});
@@ -0,0 +1,118 @@
+import type { AIResult } from "../engines/types.ts";
+import type { TaskSource } from "../tasks/types.ts";
+import { logInfo, logWarn } from "../ui/logger.ts";
+
+/**
+ * How the agent says it left the task
+ */
+export type CompletionState = "done" | "blocked" | "partial" | "needs_input";
+
+/**
+ * Status block the prompt asks agents to end their answer with
+ */
+export interface CompletionStatus {
+	status: CompletionState;
+	summary?: string;
+	/** Work the agent noticed but left for later, one task title each */
+	followups: string[];
+}
+
+const COMPLETION_STATES: readonly string[] = ["done", "blocked", "partial", "needs_input"];
+
+/** Start of the error for tasks the agent didn't finish, see isOpenTaskError */
+const OPEN_TASK_PREFIX = "Agent reported the task as";
+
+/**
+ * Prompt instructions for the status block
+ */
+export const COMPLETION_STATUS_INSTRUCTIONS = `End your final answer with a fenced JSON status block:
+\`\`\`json
+{"status": "done", "summary": "One sentence on what you did", "followups": []}
+\`\`\`
+- status: "done" when the task is finished, "partial" when only part of it is, "blocked" when something outside your control stops you, "needs_input" when you need a decision from a human
+- followups: titles of new tasks for work you noticed but did not do (optional)`;
+
+/**
+ * Parse the last JSON status block in an agent's answer.
+ * Returns undefined when the agent didn't send a valid one.
+ */
+export function parseCompletionStatus(response: string): CompletionStatus | undefined {
+	const blocks = [...response.matchAll(/```(?:json)?[ \t]*\n([\s\S]*?)\n[ \t]*```/g)];
+	for (const [, body] of blocks.reverse()) {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(body);
+		} catch {
+			continue;
+		}
+		if (!parsed || typeof parsed !== "object") continue;
+
+		const { status, summary, followups } = parsed as Record<string, unknown>;
+		if (typeof status !== "string" || !COMPLETION_STATES.includes(status)) continue;
+		return {
+			status: status as CompletionState,
+			...(typeof summary === "string" && summary.trim() && { summary: summary.trim() }),
+			followups: Array.isArray(followups)
+				? followups
+						.filter((item): item is string => typeof item === "string")
+						.map((item) => item.trim())
+						.filter(Boolean)
+				: [],
+		};
+	}
+	return undefined;
+}
+
+/**
+ * Turn a successful result whose agent reported anything but "done" into a failure,
+ * so the task is not marked complete. Results without a status block are unchanged.
+ */
+export function applyCompletionStatus(result: AIResult): AIResult {
+	if (!result.success) {
+		return result;
+	}
+	const completion = parseCompletionStatus(result.response);
+	if (!completion || completion.status === "done") {
+		return result;
+	}
+	const summary = completion.summary ? `: ${completion.summary}` : "";
+	return { ...result, success: false, error: `${OPEN_TASK_PREFIX} ${completion.status}${summary}` };
+}
+
+/**
+ * Whether a task failed because the agent reported it blocked, partial or needing input.
+ * These tasks stay open in the PRD instead of being marked complete. Check this before
+ * isRetryableError/isFatalError, since the summary is the agent's own words.
+ */
+export function isOpenTaskError(error: string): boolean {
+	return error.startsWith(OPEN_TASK_PREFIX);
+}
+
+/**
+ * Append the follow-ups an agent reported to the PRD, skipping titles already in it
+ */
+export async function addFollowupTasks(
+	taskSource: TaskSource,
+	result: AIResult | null | undefined,
+): Promise<void> {
+	const completion = result ? parseCompletionStatus(result.response) : undefined;
+	if (!completion || completion.followups.length === 0) {
+		return;
+	}
+
+	try {
+		if (!taskSource.addTasks) {
+			throw new Error(`Can't add tasks to a ${taskSource.type} task source`);
+		}
+		const existing = new Set((await taskSource.getAllTasks()).map((task) => task.title));
+		const titles = [...new Set(completion.followups)].filter((title) => !existing.has(title));
+		if (titles.length === 0) {
+			return;
+		}
+		await taskSource.addTasks(titles);
+		logInfo(`Added ${titles.length} follow-up task(s): ${titles.join(", ")}`);
+	} catch (error) {
+		const errorMsg = error instanceof Error ? error.message : String(error);
+		logWarn(`Follow-up tasks not added: ${errorMsg}`);
+	}
+}
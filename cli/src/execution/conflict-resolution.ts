@@ -1,3 +1,4 @@
+import { loadPermissions } from "../config/loader.ts";
 import type { AIEngine } from "../engines/types.ts";
 import { completeMerge, getConflictedFiles } from "../git/merge.ts";
 import { logDebug, logError, logInfo } from "../ui/logger.ts";
@@ -49,6 +50,8 @@ export async function resolveConflictsWithAI(
 	const engineOptions = {
 		...(modelOverride && { modelOverride }),
 		...(engineArgs && engineArgs.length > 0 && { engineArgs }),
+		taskId: `merge-${branchName}`,
+		permissions: loadPermissions(workDir),
 	};
 
 	try {
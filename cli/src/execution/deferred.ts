@@ -44,6 +44,16 @@ function buildKey(type: TaskSourceType, task: Task, prdFile?: string): string {
 	return prdFile ? `${type}:${prdFile}:${task.id}` : `${type}:${task.id}`;
 }
 
+/**
+ * Key used before YAML/JSON tasks had stable IDs (keyed by title)
+ */
+function buildLegacyKey(type: TaskSourceType, task: Task, prdFile?: string): string | null {
+	if ((type !== "yaml" && type !== "json") || task.id === task.title) {
+		return null;
+	}
+	return buildKey(type, { ...task, id: task.title }, prdFile);
+}
+
 export function recordDeferredTask(
 	type: TaskSourceType,
 	task: Task,
@@ -52,7 +62,11 @@ export function recordDeferredTask(
 ): number {
 	const state = readState(workDir);
 	const key = buildKey(type, task, prdFile);
-	const existing = state.tasks[key];
+	const legacyKey = buildLegacyKey(type, task, prdFile);
+	const existing = state.tasks[key] ?? (legacyKey ? state.tasks[legacyKey] : undefined);
+	if (legacyKey) {
+		delete state.tasks[legacyKey];
+	}
 	const nextCount = (existing?.count ?? 0) + 1;
 	state.tasks[key] = {
 		count: nextCount,
@@ -70,9 +84,15 @@ export function clearDeferredTask(
 	prdFile?: string,
 ): void {
 	const state = readState(workDir);
-	const key = buildKey(type, task, prdFile);
-	if (state.tasks[key]) {
-		delete state.tasks[key];
+	const keys = [buildKey(type, task, prdFile), buildLegacyKey(type, task, prdFile)];
+	let changed = false;
+	for (const key of keys) {
+		if (key && state.tasks[key]) {
+			delete state.tasks[key];
+			changed = true;
+		}
+	}
+	if (changed) {
 		writeState(workDir, state);
 	}
 }
@@ -2,3 +2,4 @@ export * from "./prompt.ts";
 export * from "./retry.ts";
 export * from "./sequential.ts";
 export * from "./parallel.ts";
+export * from "./completion-status.ts";
@@ -1,9 +1,14 @@
 import { copyFileSync, cpSync, existsSync, mkdirSync } from "node:fs";
 import { join } from "node:path";
 import simpleGit from "simple-git";
-import { PROGRESS_FILE, RALPHY_DIR } from "../config/loader.ts";
+import {
+	PROGRESS_FILE,
+	RALPHY_DIR,
+	loadBoundaryViolationPolicy,
+	loadPermissions,
+} from "../config/loader.ts";
 import { logTaskProgress } from "../config/writer.ts";
-import type { AIEngine, AIResult } from "../engines/types.ts";
+import type { AIEngine, AIResult, EngineOptions, ProcessTimeouts } from "../engines/types.ts";
 import { getCurrentBranch, returnToBaseBranch } from "../git/branch.ts";
 import { syncPrdToIssue } from "../git/issue-sync.ts";
 import {
@@ -19,16 +24,46 @@ import {
 	createAgentWorktree,
 	getWorktreeBase,
 } from "../git/worktree.ts";
+import { hasDependencies, hasDependents, partitionByDependencies } from "../tasks/dependencies.ts";
 import type { Task, TaskSource } from "../tasks/types.ts";
-import { formatDuration, logDebug, logError, logInfo, logSuccess, logWarn } from "../ui/logger.ts";
+import { recordTaskComplete, recordTaskStart } from "../telemetry/index.ts";
+import {
+	formatCost,
+	formatDuration,
+	logDebug,
+	logError,
+	logInfo,
+	logSuccess,
+	logWarn,
+} from "../ui/logger.ts";
 import { notifyTaskComplete, notifyTaskFailed } from "../ui/notify.ts";
+import { createAgentEventHandler } from "./agent-events.ts";
+import { BoundaryGuard, loadProtectedPaths } from "./boundary-guard.ts";
+import { BudgetTracker, type TaskBudgetGuard, isTaskBudgetError } from "./budget.ts";
+import { addFollowupTasks, applyCompletionStatus, isOpenTaskError } from "./completion-status.ts";
 import { resolveConflictsWithAI } from "./conflict-resolution.ts";
 import { clearDeferredTask, recordDeferredTask } from "./deferred.ts";
 import { buildParallelPrompt } from "./prompt.ts";
+import { RetryContext } from "./retry-context.ts";
 import { isRetryableError, withRetry } from "./retry.ts";
-import { commitSandboxChanges } from "./sandbox-git.ts";
+import {
+	clearRunStateMerge,
+	readRunState,
+	recordBranchMerged,
+	recordMergeStart,
+	recordMergeStashed,
+	updateRunState,
+	updateRunStateTask,
+} from "./run-state.ts";
+import { applyBranchesToSandbox, commitSandboxChanges } from "./sandbox-git.ts";
 import { cleanupSandbox, createSandbox, getModifiedFiles, getSandboxBase } from "./sandbox.ts";
 import type { ExecutionOptions, ExecutionResult } from "./sequential.ts";
+import { isShutdownRequested, onForceShutdown } from "./shutdown.ts";
+import { createTaskEngineResolver } from "./task-engine.ts";
+import { ensureVerified } from "./verification.ts";
+
+/** Message of the stash holding local changes during the merge phase */
+export const MERGE_STASH_MESSAGE = "ralphy-merge-stash";
 
 interface ParallelAgentResult {
 	task: Task;
@@ -37,10 +72,38 @@ interface ParallelAgentResult {
 	branchName: string;
 	result: AIResult | null;
 	error?: string;
+	/** Prompt sent to the engine (for telemetry) */
+	prompt?: string;
 	/** Whether this agent used sandbox mode */
 	usedSandbox?: boolean;
 }
 
+/**
+ * Run the engine, reporting progress steps when it can stream. The attempt counts
+ * toward the task's budget, which stops the engine once it runs out.
+ */
+async function executeAgent(
+	engine: AIEngine,
+	prompt: string,
+	workDir: string,
+	engineOptions: EngineOptions,
+	taskBudget: TaskBudgetGuard,
+	onStep?: (step: string) => void,
+): Promise<AIResult> {
+	const exhausted = taskBudget.exhaustedResult();
+	if (exhausted) {
+		return exhausted;
+	}
+
+	const options = { ...engineOptions, timeouts: taskBudget.limitAttempt(engineOptions.timeouts) };
+	const onEvent = taskBudget.watch(onStep && createAgentEventHandler(onStep));
+	return taskBudget.recordAttempt(
+		engine.capabilities.streaming && engine.executeStreaming && onEvent
+			? await engine.executeStreaming(prompt, workDir, onEvent, options)
+			: await engine.execute(prompt, workDir, options),
+	);
+}
+
 /**
  * Run a single agent in a worktree
  */
@@ -59,12 +122,28 @@ async function runAgentInWorktree(
 	skipTests: boolean,
 	skipLint: boolean,
 	browserEnabled: "auto" | "true" | "false",
+	taskBudget: TaskBudgetGuard,
 	modelOverride?: string,
 	engineArgs?: string[],
+	timeouts?: ProcessTimeouts,
+	dependencyBranches: string[] = [],
+	onStep?: (step: string) => void,
 ): Promise<ParallelAgentResult> {
 	let worktreeDir = "";
 	let branchName = "";
 
+	// Build prompt
+	const promptOptions = {
+		task: task.title,
+		engine,
+		progressFile: PROGRESS_FILE,
+		prdFile,
+		skipTests,
+		skipLint,
+		browserEnabled,
+	};
+	const prompt = buildParallelPrompt(promptOptions);
+
 	try {
 		// Create worktree
 		const worktree = await createAgentWorktree(
@@ -76,9 +155,21 @@ async function runAgentInWorktree(
 		);
 		worktreeDir = worktree.worktreeDir;
 		branchName = worktree.branchName;
+		updateRunStateTask(originalDir, task.id, {
+			title: task.title,
+			status: "running",
+			worktreeDir,
+			branch: branchName,
+		});
 
 		logDebug(`Agent ${agentNum}: Created worktree at ${worktreeDir}`);
 
+		// Bring in work from completed dependencies (not merged into the base branch yet)
+		if (dependencyBranches.length > 0) {
+			await mergeDependencyBranches(dependencyBranches, worktreeDir);
+			logDebug(`Agent ${agentNum}: Merged ${dependencyBranches.length} dependency branch(es)`);
+		}
+
 		// Copy PRD file or folder to worktree
 		if (prdSource === "markdown" || prdSource === "yaml" || prdSource === "json") {
 			const srcPath = join(originalDir, prdFile);
@@ -100,36 +191,90 @@ async function runAgentInWorktree(
 			mkdirSync(ralphyDir, { recursive: true });
 		}
 
-		// Build prompt
-		const prompt = buildParallelPrompt({
-			task: task.title,
-			progressFile: PROGRESS_FILE,
-			prdFile,
-			skipTests,
-			skipLint,
-			browserEnabled,
-		});
-
 		// Execute with retry
 		const engineOptions = {
 			...(modelOverride && { modelOverride }),
 			...(engineArgs && engineArgs.length > 0 && { engineArgs }),
+			timeouts,
+			taskId: task.id,
+			autoCommit: true,
+			permissions: loadPermissions(originalDir),
 		};
+		const retryContext = new RetryContext(worktreeDir);
+		const boundaryGuard = await BoundaryGuard.start({
+			workDir: worktreeDir,
+			boundaries: loadProtectedPaths(originalDir, prdFile),
+			policy: loadBoundaryViolationPolicy(originalDir),
+		});
 		const result = await withRetry(
 			async () => {
-				const res = await engine.execute(prompt, worktreeDir, engineOptions);
-				if (!res.success && res.error && isRetryableError(res.error)) {
+				// Tell retries what went wrong last time, continuing the engine session if possible
+				const previousAttempt = await retryContext.getPreviousAttempt();
+				const attemptPrompt = previousAttempt
+					? buildParallelPrompt({ ...promptOptions, previousAttempt })
+					: prompt;
+				const resume = retryContext.getResume(engine, previousAttempt);
+
+				const res = await executeAgent(
+					engine,
+					attemptPrompt,
+					worktreeDir,
+					{ ...engineOptions, ...(resume && { resume }) },
+					taskBudget,
+					onStep,
+				);
+				retryContext.recordSession(engine, res);
+				if (
+					!res.success &&
+					res.error &&
+					!isTaskBudgetError(res.error) &&
+					isRetryableError(res.error)
+				) {
 					throw new Error(res.error);
 				}
-				return res;
+				return await ensureVerified(applyCompletionStatus(res), {
+					configDir: originalDir,
+					workDir: worktreeDir,
+					skipTests,
+					skipLint,
+					boundaries: boundaryGuard,
+					onFailure: (verification) => retryContext.recordVerification(verification),
+				});
+			},
+			{
+				maxRetries,
+				retryDelay,
+				onRetry: (_attempt, error) => retryContext.recordError(error),
 			},
-			{ maxRetries, retryDelay },
 		);
 
-		return { task, agentNum, worktreeDir, branchName, result };
+		return {
+			task,
+			agentNum,
+			worktreeDir,
+			branchName,
+			result,
+			prompt,
+		};
 	} catch (error) {
 		const errorMsg = error instanceof Error ? error.message : String(error);
-		return { task, agentNum, worktreeDir, branchName, result: null, error: errorMsg };
+		return { task, agentNum, worktreeDir, branchName, result: null, error: errorMsg, prompt };
+	}
+}
+
+/**
+ * Merge dependency branches into an agent worktree before it starts
+ */
+async function mergeDependencyBranches(branches: string[], worktreeDir: string): Promise<void> {
+	const git = simpleGit(worktreeDir);
+	for (const branch of branches) {
+		try {
+			await git.merge([branch, "--no-edit"]);
+		} catch (error) {
+			await abortMerge(worktreeDir);
+			const errorMsg = error instanceof Error ? error.message : String(error);
+			throw new Error(`Failed to merge dependency branch ${branch}: ${errorMsg}`);
+		}
 	}
 }
 
@@ -143,6 +288,7 @@ async function runAgentInSandbox(
 	engine: AIEngine,
 	task: Task,
 	agentNum: number,
+	baseBranch: string,
 	sandboxBase: string,
 	originalDir: string,
 	prdSource: string,
@@ -153,15 +299,37 @@ async function runAgentInSandbox(
 	skipTests: boolean,
 	skipLint: boolean,
 	browserEnabled: "auto" | "true" | "false",
+	taskBudget: TaskBudgetGuard,
 	modelOverride?: string,
 	engineArgs?: string[],
+	timeouts?: ProcessTimeouts,
+	dependencyBranches: string[] = [],
+	onStep?: (step: string) => void,
 ): Promise<ParallelAgentResult> {
 	const uniqueSuffix = Math.random().toString(36).substring(2, 8);
 	const sandboxDir = join(sandboxBase, `agent-${agentNum}-${uniqueSuffix}`);
 	const branchName = "";
 
+	// Build prompt
+	const promptOptions = {
+		task: task.title,
+		engine,
+		progressFile: PROGRESS_FILE,
+		prdFile,
+		skipTests,
+		skipLint,
+		browserEnabled,
+		allowCommit: false,
+	};
+	const prompt = buildParallelPrompt(promptOptions);
+
 	try {
 		// Create sandbox
+		updateRunStateTask(originalDir, task.id, {
+			title: task.title,
+			status: "running",
+			sandboxDir,
+		});
 		const sandboxResult = await createSandbox({
 			originalDir,
 			sandboxDir,
@@ -172,6 +340,19 @@ async function runAgentInSandbox(
 			`Agent ${agentNum}: Created sandbox (${sandboxResult.symlinksCreated} symlinks, ${sandboxResult.filesCopied} copies)`,
 		);
 
+		// Bring in work from completed dependencies (committed to branches, not merged yet)
+		if (dependencyBranches.length > 0) {
+			const applied = await applyBranchesToSandbox(
+				originalDir,
+				sandboxDir,
+				baseBranch,
+				dependencyBranches,
+			);
+			logDebug(
+				`Agent ${agentNum}: Applied ${applied} file(s) from ${dependencyBranches.length} dependency branch(es)`,
+			);
+		}
+
 		// Copy PRD file or folder to sandbox (same as worktree mode)
 		if (prdSource === "markdown" || prdSource === "yaml" || prdSource === "json") {
 			const srcPath = join(originalDir, prdFile);
@@ -193,34 +374,74 @@ async function runAgentInSandbox(
 			mkdirSync(ralphyDir, { recursive: true });
 		}
 
-		// Build prompt
-		const prompt = buildParallelPrompt({
-			task: task.title,
-			progressFile: PROGRESS_FILE,
-			prdFile,
-			skipTests,
-			skipLint,
-			browserEnabled,
-			allowCommit: false,
-		});
-
 		// Execute with retry
 		const engineOptions = {
 			...(modelOverride && { modelOverride }),
 			...(engineArgs && engineArgs.length > 0 && { engineArgs }),
+			timeouts,
+			taskId: task.id,
+			// Sandboxes aren't repositories; ralphy commits their changes itself
+			autoCommit: false,
+			permissions: loadPermissions(originalDir),
 		};
+		const retryContext = new RetryContext(sandboxDir);
+		const boundaryGuard = await BoundaryGuard.start({
+			workDir: sandboxDir,
+			boundaries: loadProtectedPaths(originalDir, prdFile),
+			policy: loadBoundaryViolationPolicy(originalDir),
+			originalDir,
+		});
 		const result = await withRetry(
 			async () => {
-				const res = await engine.execute(prompt, sandboxDir, engineOptions);
-				if (!res.success && res.error && isRetryableError(res.error)) {
+				// Tell retries what went wrong last time, continuing the engine session if possible
+				const previousAttempt = await retryContext.getPreviousAttempt();
+				const attemptPrompt = previousAttempt
+					? buildParallelPrompt({ ...promptOptions, previousAttempt })
+					: prompt;
+				const resume = retryContext.getResume(engine, previousAttempt);
+
+				const res = await executeAgent(
+					engine,
+					attemptPrompt,
+					sandboxDir,
+					{ ...engineOptions, ...(resume && { resume }) },
+					taskBudget,
+					onStep,
+				);
+				retryContext.recordSession(engine, res);
+				if (
+					!res.success &&
+					res.error &&
+					!isTaskBudgetError(res.error) &&
+					isRetryableError(res.error)
+				) {
 					throw new Error(res.error);
 				}
-				return res;
+				return await ensureVerified(applyCompletionStatus(res), {
+					configDir: originalDir,
+					workDir: sandboxDir,
+					skipTests,
+					skipLint,
+					boundaries: boundaryGuard,
+					onFailure: (verification) => retryContext.recordVerification(verification),
+				});
+			},
+			{
+				maxRetries,
+				retryDelay,
+				onRetry: (_attempt, error) => retryContext.recordError(error),
 			},
-			{ maxRetries, retryDelay },
 		);
 
-		return { task, agentNum, worktreeDir: sandboxDir, branchName, result, usedSandbox: true };
+		return {
+			task,
+			agentNum,
+			worktreeDir: sandboxDir,
+			branchName,
+			result,
+			prompt,
+			usedSandbox: true,
+		};
 	} catch (error) {
 		const errorMsg = error instanceof Error ? error.message : String(error);
 		return {
@@ -230,6 +451,7 @@ async function runAgentInSandbox(
 			branchName,
 			result: null,
 			error: errorMsg,
+			prompt,
 			usedSandbox: true,
 		};
 	}
@@ -267,6 +489,7 @@ export async function runParallel(
 		useSandbox = false,
 		engineArgs,
 		syncIssue,
+		addFollowups,
 	} = options;
 
 	const shouldFallbackToSandbox = (error: string | undefined): boolean => {
@@ -277,8 +500,10 @@ export async function runParallel(
 	const result: ExecutionResult = {
 		tasksCompleted: 0,
 		tasksFailed: 0,
+		tasksSkipped: 0,
 		totalInputTokens: 0,
 		totalOutputTokens: 0,
+		totalCostUsd: 0,
 	};
 
 	// Determine isolation mode (worktree vs sandbox)
@@ -300,6 +525,7 @@ export async function runParallel(
 
 	// Save original base branch for merge phase
 	const originalBaseBranch = baseBranch || startingBranch;
+	updateRunState(workDir, { startingBranch, baseBranch: originalBaseBranch });
 
 	// Track completed branches for merge phase
 	const completedBranches: string[] = [];
@@ -310,107 +536,87 @@ export async function runParallel(
 	// Track processed tasks in dry-run mode (since we don't modify the source file)
 	const dryRunProcessedIds = new Set<string>();
 
-	// Process tasks in batches
-	let iteration = 0;
+	// Branch of each completed task, so dependent tasks can build on its work
+	const completedBranchByTask = new Map<string, string>();
 
-	while (true) {
-		// Check iteration limit
-		if (maxIterations > 0 && iteration >= maxIterations) {
-			logInfo(`Reached max iterations (${maxIterations})`);
-			break;
-		}
+	// Dependency tracking: dependents of failed tasks are skipped
+	const failedIds = new Set<string>();
+	const skippedIds = new Set<string>();
+	// Tasks the agent reported blocked, partial or needing input stay in the source
+	const openIds = new Set<string>();
 
-		// Get tasks for this batch
-		let tasks: Task[] = [];
+	// Dependents of open tasks wait for them without counting as skipped
+	const waitingIds = new Set<string>();
 
-		const taskSourceWithGroups = taskSource as TaskSource & {
-			getParallelGroup?: (title: string) => Promise<number>;
-			getTasksInGroup?: (group: number) => Promise<Task[]>;
-		};
+	// Failed tasks are checked off so they aren't retried forever, unless other tasks depend
+	// on them: checked off, they would let those tasks run on top of the failure next run
+	const removeFailedTask = async (failed: Task): Promise<void> => {
+		if (hasDependents(await taskSource.getAllTasks(), failed.id)) {
+			logWarn(`Leaving "${failed.title}" unchecked: other tasks depend on it`);
+			return;
+		}
+		await taskSource.markComplete(failed.id);
+	};
 
-		if (taskSourceWithGroups.getParallelGroup && taskSourceWithGroups.getTasksInGroup) {
-			let nextTask = await taskSource.getNextTask();
-			if (dryRun && nextTask && dryRunProcessedIds.has(nextTask.id)) {
-				const allTasks = await taskSource.getAllTasks();
-				nextTask = allTasks.find((task) => !dryRunProcessedIds.has(task.id)) || null;
-			}
-			if (!nextTask) break;
+	// Tasks still in the source that must not be picked up again this run
+	const isSettled = (task: Task): boolean =>
+		dryRunProcessedIds.has(task.id) || openIds.has(task.id);
 
-			const group = await taskSourceWithGroups.getParallelGroup(nextTask.title);
-			if (group > 0) {
-				tasks = await taskSourceWithGroups.getTasksInGroup(group);
-				if (dryRun) {
-					tasks = tasks.filter((task) => !dryRunProcessedIds.has(task.id));
-				}
-			} else {
-				tasks = [nextTask];
+	// On forced shutdown, remove the worktrees/sandboxes of agents that were killed
+	const unregisterAgentCleanup = onForceShutdown(async () => {
+		const runningTasks = Object.values(readRunState(workDir)?.tasks ?? {}).filter(
+			(task) => task.status === "running",
+		);
+		for (const task of runningTasks) {
+			if (task.worktreeDir) {
+				await cleanupAgentWorktree(task.worktreeDir, task.branch ?? "", workDir);
 			}
-		} else {
-			tasks = await taskSource.getAllTasks();
-			if (dryRun) {
-				tasks = tasks.filter((task) => !dryRunProcessedIds.has(task.id));
+			if (task.sandboxDir) {
+				await cleanupSandbox(task.sandboxDir);
 			}
 		}
-
-		if (tasks.length === 0) {
-			logSuccess("All tasks completed!");
-			break;
+	});
+
+	// Tasks may pick their own engine/model/timeouts
+	const resolveTaskEngine = createTaskEngineResolver(engine, modelOverride, options.timeouts);
+	const budget = new BudgetTracker(options.budget);
+
+	// Start an agent for a task (using sandbox or worktree mode)
+	const startAgent = (task: Task): Promise<ParallelAgentResult> => {
+		globalAgentNum++;
+		const agentNum = globalAgentNum;
+		recordTaskStart();
+		const {
+			engine: taskEngine,
+			modelOverride: taskModel,
+			timeouts: taskTimeouts,
+		} = resolveTaskEngine(task);
+		if (task.engine || task.model) {
+			logDebug(`Agent ${agentNum}: Using ${taskEngine.name}${taskModel ? ` (${taskModel})` : ""}`);
 		}
-
-		// Limit to maxParallel
-		const batch = tasks.slice(0, maxParallel);
-		iteration++;
-
-		const batchStartTime = Date.now();
-		logInfo(`Batch ${iteration}: ${batch.length} tasks in parallel`);
-
-		if (dryRun) {
-			logInfo("(dry run) Skipping batch");
-			// Track processed tasks to avoid infinite loop
-			for (const task of batch) {
-				dryRunProcessedIds.add(task.id);
+		// Shared with the sandbox fallback, so a worktree attempt's spend still counts
+		const taskBudget = budget.startTask(task, taskEngine.id, taskModel);
+
+		// Report each change of step (Reading code, Testing, ...) back to the parent
+		let currentStep = "";
+		const onStep = (step: string) => {
+			if (step !== currentStep) {
+				currentStep = step;
+				logInfo(`Agent ${agentNum}: ${step} (${task.title})`);
 			}
-			continue;
-		}
-
-		// Log task names being processed
-		for (const task of batch) {
-			logInfo(`  -> ${task.title}`);
-		}
-
-		// Run agents in parallel (using sandbox or worktree mode)
-		const promises = batch.map((task) => {
-			globalAgentNum++;
-
-			const runInSandbox = () =>
-				runAgentInSandbox(
-					engine,
-					task,
-					globalAgentNum,
-					getSandboxBase(workDir),
-					workDir,
-					prdSource,
-					prdFile,
-					prdIsFolder,
-					maxRetries,
-					retryDelay,
-					skipTests,
-					skipLint,
-					browserEnabled,
-					modelOverride,
-					engineArgs,
-				);
+		};
 
-			if (effectiveUseSandbox) {
-				return runInSandbox();
-			}
+		const dependencyBranches = (task.dependsOn ?? [])
+			.map((id) => completedBranchByTask.get(id))
+			.filter((branch): branch is string => !!branch);
 
-			return runAgentInWorktree(
-				engine,
+		const runInSandbox = () =>
+			runAgentInSandbox(
+				taskEngine,
 				task,
-				globalAgentNum,
-				baseBranch,
-				isolationBase,
+				agentNum,
+				originalBaseBranch,
+				getSandboxBase(workDir),
 				workDir,
 				prdSource,
 				prdFile,
@@ -420,219 +626,515 @@ export async function runParallel(
 				skipTests,
 				skipLint,
 				browserEnabled,
-				modelOverride,
+				taskBudget,
+				taskModel,
 				engineArgs,
-			).then((res) => {
-				if (shouldFallbackToSandbox(res.error)) {
-					logWarn(`Agent ${globalAgentNum}: Worktree unavailable, retrying in sandbox mode.`);
-					if (res.worktreeDir) {
-						cleanupAgentWorktree(res.worktreeDir, res.branchName, workDir).catch(() => {
-							// Ignore cleanup failures during fallback
-						});
-					}
-					return runInSandbox();
+				taskTimeouts,
+				dependencyBranches,
+				onStep,
+			);
+
+		if (effectiveUseSandbox) {
+			return runInSandbox();
+		}
+
+		return runAgentInWorktree(
+			taskEngine,
+			task,
+			agentNum,
+			baseBranch,
+			isolationBase,
+			workDir,
+			prdSource,
+			prdFile,
+			prdIsFolder,
+			maxRetries,
+			retryDelay,
+			skipTests,
+			skipLint,
+			browserEnabled,
+			taskBudget,
+			taskModel,
+			engineArgs,
+			taskTimeouts,
+			dependencyBranches,
+			onStep,
+		).then((res) => {
+			if (shouldFallbackToSandbox(res.error)) {
+				logWarn(`Agent ${agentNum}: Worktree unavailable, retrying in sandbox mode.`);
+				if (res.worktreeDir) {
+					cleanupAgentWorktree(res.worktreeDir, res.branchName, workDir).catch(() => {
+						// Ignore cleanup failures during fallback
+					});
 				}
-				return res;
-			});
+				return runInSandbox();
+			}
+			return res;
 		});
+	};
 
-		const results = await Promise.all(promises);
-
-		// Process results and collect worktrees for parallel cleanup
-		let sawRetryableFailure = false;
-		const worktreesToCleanup: Array<{ worktreeDir: string; branchName: string }> = [];
+	// Record the outcome of a finished agent. Worktrees are returned for the caller to clean up.
+	const processAgentResult = async (
+		agentResult: ParallelAgentResult,
+	): Promise<{
+		failed: boolean;
+		retryableFailure: boolean;
+		worktree?: { worktreeDir: string; branchName: string };
+	}> => {
+		const {
+			task,
+			agentNum,
+			worktreeDir,
+			result: aiResult,
+			error,
+			prompt,
+			usedSandbox: agentUsedSandbox,
+		} = agentResult;
+		let branchName = agentResult.branchName;
+		let failureReason: string | undefined = error;
+		let retryableFailure = false;
+		let preserveSandbox = false;
+		let worktree: { worktreeDir: string; branchName: string } | undefined;
+		// Every attempt was counted, failed ones included
+		result.totalCostUsd = budget.costUsd;
+		const exceeded = budget.check();
+		if (exceeded) {
+			result.budgetExceeded = exceeded;
+			logWarn(`${exceeded}, not starting new tasks`);
+		}
 
-		for (const agentResult of results) {
-			const {
-				task,
-				agentNum,
-				worktreeDir,
-				result: aiResult,
-				error,
-				usedSandbox: agentUsedSandbox,
-			} = agentResult;
-			let branchName = agentResult.branchName;
-			let failureReason: string | undefined = error;
-			let retryableFailure = false;
-			let preserveSandbox = false;
-
-			if (!failureReason && aiResult?.success && agentUsedSandbox && worktreeDir) {
-				try {
-					const modifiedFiles = await getModifiedFiles(worktreeDir, workDir);
-					if (modifiedFiles.length > 0) {
-						const commitResult = await commitSandboxChanges(
-							workDir,
-							modifiedFiles,
-							worktreeDir,
-							task.title,
-							agentNum,
-							originalBaseBranch,
+		if (!failureReason && aiResult?.success && agentUsedSandbox && worktreeDir) {
+			try {
+				const modifiedFiles = await getModifiedFiles(worktreeDir, workDir);
+				if (modifiedFiles.length > 0) {
+					const commitResult = await commitSandboxChanges(
+						workDir,
+						modifiedFiles,
+						worktreeDir,
+						task.title,
+						agentNum,
+						originalBaseBranch,
+					);
+
+					if (commitResult.success) {
+						branchName = commitResult.branchName;
+						logDebug(
+							`Agent ${agentNum}: Committed ${commitResult.filesCommitted} files to ${branchName}`,
 						);
-
-						if (commitResult.success) {
-							branchName = commitResult.branchName;
-							logDebug(
-								`Agent ${agentNum}: Committed ${commitResult.filesCommitted} files to ${branchName}`,
-							);
-						} else {
-							failureReason = commitResult.error || "Failed to commit sandbox changes";
-							preserveSandbox = true; // Preserve work for manual recovery
-						}
+					} else {
+						failureReason = commitResult.error || "Failed to commit sandbox changes";
+						preserveSandbox = true; // Preserve work for manual recovery
 					}
-				} catch (commitErr) {
-					failureReason = commitErr instanceof Error ? commitErr.message : String(commitErr);
-					preserveSandbox = true; // Preserve work for manual recovery
 				}
+			} catch (commitErr) {
+				failureReason = commitErr instanceof Error ? commitErr.message : String(commitErr);
+				preserveSandbox = true; // Preserve work for manual recovery
 			}
+		}
 
-			if (failureReason) {
-				retryableFailure = isRetryableError(failureReason);
-				if (retryableFailure) {
-					const deferrals = recordDeferredTask(taskSource.type, task, workDir, prdFile);
-					if (deferrals >= maxRetries) {
-						logError(`Task "${task.title}" failed after ${deferrals} deferrals: ${failureReason}`);
-						logTaskProgress(task.title, "failed", workDir);
-						result.tasksFailed++;
-						notifyTaskFailed(task.title, failureReason);
-						await taskSource.markComplete(task.id);
-						clearDeferredTask(taskSource.type, task, workDir, prdFile);
-						retryableFailure = false;
-					} else {
-						logWarn(`Task "${task.title}" deferred (${deferrals}/${maxRetries}): ${failureReason}`);
-						result.tasksFailed++;
-					}
-				} else {
-					logError(`Task "${task.title}" failed: ${failureReason}`);
+		if (failureReason) {
+			retryableFailure = isRetryableError(failureReason);
+			if (retryableFailure) {
+				const deferrals = recordDeferredTask(taskSource.type, task, workDir, prdFile);
+				if (deferrals >= maxRetries) {
+					logError(`Task "${task.title}" failed after ${deferrals} deferrals: ${failureReason}`);
 					logTaskProgress(task.title, "failed", workDir);
 					result.tasksFailed++;
 					notifyTaskFailed(task.title, failureReason);
-
-					// Mark failed task as complete to remove it from the queue
-					// This prevents infinite retry loops - the task has already been retried maxRetries times
-					await taskSource.markComplete(task.id);
+					await removeFailedTask(task);
 					clearDeferredTask(taskSource.type, task, workDir, prdFile);
-				}
-			} else if (aiResult?.success) {
-				logSuccess(`Task "${task.title}" completed`);
-				result.totalInputTokens += aiResult.inputTokens;
-				result.totalOutputTokens += aiResult.outputTokens;
-
-				await taskSource.markComplete(task.id);
-				logTaskProgress(task.title, "completed", workDir);
-				result.tasksCompleted++;
-
-				notifyTaskComplete(task.title);
-				clearDeferredTask(taskSource.type, task, workDir, prdFile);
-
-				// Track successful branch for merge phase
-				if (branchName) {
-					completedBranches.push(branchName);
+					retryableFailure = false;
+				} else {
+					logWarn(`Task "${task.title}" deferred (${deferrals}/${maxRetries}): ${failureReason}`);
+					result.tasksFailed++;
 				}
 			} else {
-				const errMsg = aiResult?.error || "Unknown error";
-				retryableFailure = isRetryableError(errMsg);
-				if (retryableFailure) {
-					const deferrals = recordDeferredTask(taskSource.type, task, workDir, prdFile);
-					if (deferrals >= maxRetries) {
-						logError(`Task "${task.title}" failed after ${deferrals} deferrals: ${errMsg}`);
-						logTaskProgress(task.title, "failed", workDir);
-						result.tasksFailed++;
-						notifyTaskFailed(task.title, errMsg);
-						failureReason = errMsg;
-						await taskSource.markComplete(task.id);
-						clearDeferredTask(taskSource.type, task, workDir, prdFile);
-						retryableFailure = false;
-					} else {
-						logWarn(`Task "${task.title}" deferred (${deferrals}/${maxRetries}): ${errMsg}`);
-						result.tasksFailed++;
-						failureReason = errMsg;
-					}
-				} else {
-					logError(`Task "${task.title}" failed: ${errMsg}`);
+				logError(`Task "${task.title}" failed: ${failureReason}`);
+				logTaskProgress(task.title, "failed", workDir);
+				result.tasksFailed++;
+				notifyTaskFailed(task.title, failureReason);
+
+				// Remove the failed task from the queue
+				// This prevents infinite retry loops - the task has already been retried maxRetries times
+				await removeFailedTask(task);
+				clearDeferredTask(taskSource.type, task, workDir, prdFile);
+			}
+		} else if (aiResult?.success) {
+			const cost = aiResult.costUsd !== undefined ? ` (${formatCost(aiResult.costUsd)})` : "";
+			logSuccess(`Task "${task.title}" completed${cost}`);
+			result.totalInputTokens += aiResult.inputTokens;
+			result.totalOutputTokens += aiResult.outputTokens;
+
+			await taskSource.markComplete(task.id);
+			logTaskProgress(task.title, "completed", workDir);
+			result.tasksCompleted++;
+
+			notifyTaskComplete(task.title);
+			clearDeferredTask(taskSource.type, task, workDir, prdFile);
+
+			// Track successful branch for merge phase
+			if (branchName) {
+				completedBranches.push(branchName);
+				completedBranchByTask.set(task.id, branchName);
+			}
+			updateRunStateTask(workDir, task.id, {
+				status: "completed",
+				...(branchName && { branch: branchName }),
+			});
+		} else {
+			const errMsg = aiResult?.error || "Unknown error";
+			retryableFailure =
+				!isOpenTaskError(errMsg) && !isTaskBudgetError(errMsg) && isRetryableError(errMsg);
+			if (isOpenTaskError(errMsg)) {
+				// Leave the task unchecked so a human can pick it up; don't retry it this run
+				logWarn(`Task "${task.title}" left open: ${errMsg}`);
+				logTaskProgress(task.title, "failed", workDir);
+				result.tasksFailed++;
+				openIds.add(task.id);
+				notifyTaskFailed(task.title, errMsg);
+				failureReason = errMsg;
+				clearDeferredTask(taskSource.type, task, workDir, prdFile);
+			} else if (retryableFailure) {
+				const deferrals = recordDeferredTask(taskSource.type, task, workDir, prdFile);
+				if (deferrals >= maxRetries) {
+					logError(`Task "${task.title}" failed after ${deferrals} deferrals: ${errMsg}`);
 					logTaskProgress(task.title, "failed", workDir);
 					result.tasksFailed++;
 					notifyTaskFailed(task.title, errMsg);
 					failureReason = errMsg;
-
-					// Mark failed task as complete to remove it from the queue
-					// This prevents infinite retry loops - the task has already been retried maxRetries times
-					await taskSource.markComplete(task.id);
+					await removeFailedTask(task);
 					clearDeferredTask(taskSource.type, task, workDir, prdFile);
+					retryableFailure = false;
+				} else {
+					logWarn(`Task "${task.title}" deferred (${deferrals}/${maxRetries}): ${errMsg}`);
+					result.tasksFailed++;
+					failureReason = errMsg;
 				}
+			} else {
+				logError(`Task "${task.title}" failed: ${errMsg}`);
+				logTaskProgress(task.title, "failed", workDir);
+				result.tasksFailed++;
+				notifyTaskFailed(task.title, errMsg);
+				failureReason = errMsg;
+
+				// Remove the failed task from the queue
+				// This prevents infinite retry loops - the task has already been retried maxRetries times
+				await removeFailedTask(task);
+				clearDeferredTask(taskSource.type, task, workDir, prdFile);
 			}
+		}
 
-			// Cleanup sandbox inline or collect worktree for parallel cleanup
-			if (worktreeDir) {
-				if (agentUsedSandbox) {
-					if (failureReason || preserveSandbox) {
-						logWarn(`Sandbox preserved for manual review: ${worktreeDir}`);
-					} else {
-						// Sandbox cleanup is simpler - just delete the directory
-						await cleanupSandbox(worktreeDir);
-						logDebug(`Cleaned up sandbox: ${worktreeDir}`);
-					}
+		// Cleanup sandbox inline or hand the worktree back for cleanup
+		if (worktreeDir) {
+			if (agentUsedSandbox) {
+				if (failureReason || preserveSandbox) {
+					logWarn(`Sandbox preserved for manual review: ${worktreeDir}`);
 				} else {
-					// Collect worktree for parallel cleanup below
-					worktreesToCleanup.push({ worktreeDir, branchName });
+					// Sandbox cleanup is simpler - just delete the directory
+					await cleanupSandbox(worktreeDir);
+					logDebug(`Cleaned up sandbox: ${worktreeDir}`);
 				}
+			} else {
+				worktree = { worktreeDir, branchName };
 			}
+		}
 
-			if (retryableFailure) {
-				sawRetryableFailure = true;
+		recordTaskComplete(
+			!failureReason && !!aiResult?.success,
+			aiResult?.inputTokens ?? 0,
+			aiResult?.outputTokens ?? 0,
+			prompt,
+			aiResult?.response,
+		);
+
+		if (failureReason) {
+			// Dependents of open tasks wait instead of being skipped
+			if (!openIds.has(task.id)) {
+				failedIds.add(task.id);
 			}
+			updateRunStateTask(workDir, task.id, { status: "failed" });
 		}
 
-		// Cleanup all worktrees in parallel
-		if (worktreesToCleanup.length > 0) {
-			const cleanupResults = await Promise.all(
-				worktreesToCleanup.map(({ worktreeDir, branchName }) =>
-					cleanupAgentWorktree(worktreeDir, branchName, workDir).then((cleanup) => ({
-						worktreeDir,
-						leftInPlace: cleanup.leftInPlace,
-					})),
-				),
-			);
+		if (addFollowups) {
+			await addFollowupTasks(taskSource, aiResult);
+		}
 
-			// Log any worktrees left in place
-			for (const { worktreeDir, leftInPlace } of cleanupResults) {
-				if (leftInPlace) {
-					logInfo(`Worktree left in place (uncommitted changes): ${worktreeDir}`);
-				}
+		return { failed: !!failureReason, retryableFailure, worktree };
+	};
+
+	// Cleanup worktrees in parallel
+	const cleanupWorktrees = async (
+		worktrees: Array<{ worktreeDir: string; branchName: string }>,
+	): Promise<void> => {
+		if (worktrees.length === 0) {
+			return;
+		}
+
+		const cleanupResults = await Promise.all(
+			worktrees.map(({ worktreeDir, branchName }) =>
+				cleanupAgentWorktree(worktreeDir, branchName, workDir).then((cleanup) => ({
+					worktreeDir,
+					leftInPlace: cleanup.leftInPlace,
+				})),
+			),
+		);
+
+		// Log any worktrees left in place
+		for (const { worktreeDir, leftInPlace } of cleanupResults) {
+			if (leftInPlace) {
+				logInfo(`Worktree left in place (uncommitted changes): ${worktreeDir}`);
 			}
 		}
+	};
 
-		// Sync PRD to GitHub issue once per batch (after all tasks processed)
-		// This prevents multiple concurrent syncs and reduces API calls
-		if (syncIssue && prdFile && result.tasksCompleted > 0) {
-			await syncPrdToIssue(prdFile, syncIssue, workDir);
+	// Skip tasks whose dependencies failed and hold back those waiting on open tasks
+	// (reported once each)
+	const skipBlockedTasks = (blocked: Task[], waiting: Task[]): void => {
+		for (const task of blocked) {
+			if (!skippedIds.has(task.id)) {
+				skippedIds.add(task.id);
+				logWarn(`Skipping "${task.title}": a dependency failed`);
+				result.tasksSkipped++;
+			}
+		}
+		for (const task of waiting) {
+			if (!waitingIds.has(task.id)) {
+				waitingIds.add(task.id);
+				logWarn(`Not starting "${task.title}": a dependency was left open`);
+			}
 		}
+	};
+
+	if (hasDependencies(await taskSource.getAllTasks())) {
+		// Dependency mode: start each task as soon as its dependencies complete
+		const running = new Map<string, Promise<ParallelAgentResult>>();
+		let tasksStarted = 0;
+		let stopScheduling = false;
+
+		while (true) {
+			if (!stopScheduling && isShutdownRequested()) {
+				logWarn("Shutdown requested, waiting for running agents to finish");
+				stopScheduling = true;
+			}
+			if (result.budgetExceeded) {
+				stopScheduling = true;
+			}
 
-		// Log batch completion time
-		const batchDuration = formatDuration(Date.now() - batchStartTime);
-		logInfo(`Batch ${iteration} completed in ${batchDuration}`);
-		// If any retryable failure occurred, stop the run to allow retry later
-		if (sawRetryableFailure) {
-			logWarn("Stopping early due to retryable errors. Try again later.");
-			break;
+			if (!stopScheduling) {
+				let remainingTasks = await taskSource.getAllTasks();
+				if (dryRun) {
+					// Dry-run tasks stay in the source, so treat them as done here
+					remainingTasks = remainingTasks.filter((task) => !dryRunProcessedIds.has(task.id));
+				}
+				const { ready, blocked, waiting } = partitionByDependencies(
+					remainingTasks,
+					failedIds,
+					openIds,
+				);
+				skipBlockedTasks(blocked, waiting);
+
+				let startedThisRound = false;
+				for (const task of ready) {
+					if (running.size >= maxParallel) break;
+					if (running.has(task.id)) continue;
+
+					if (maxIterations > 0 && tasksStarted >= maxIterations) {
+						logInfo(`Reached max iterations (${maxIterations})`);
+						stopScheduling = true;
+						break;
+					}
+					tasksStarted++;
+
+					if (dryRun) {
+						logInfo(`(dry run) Skipping task: ${task.title}`);
+						dryRunProcessedIds.add(task.id);
+						startedThisRound = true;
+						continue;
+					}
+
+					logInfo(`Starting task: ${task.title}`);
+					running.set(task.id, startAgent(task));
+				}
+
+				// Dry-run tasks may have unblocked dependents
+				if (dryRun && startedThisRound) {
+					continue;
+				}
+			}
+
+			if (running.size === 0) {
+				if (openIds.size > 0) {
+					logWarn(`${openIds.size} task(s) left open for review`);
+				}
+				if (waitingIds.size > 0) {
+					logWarn(`${waitingIds.size} task(s) waiting on tasks left open`);
+				}
+				if (skippedIds.size > 0) {
+					logWarn(`${skippedIds.size} task(s) skipped due to failed dependencies`);
+				} else if (!stopScheduling && openIds.size === 0) {
+					logSuccess("All tasks completed!");
+				}
+				break;
+			}
+
+			// Wait for the next agent to finish
+			const agentResult = await Promise.race(running.values());
+			running.delete(agentResult.task.id);
+
+			const outcome = await processAgentResult(agentResult);
+			if (outcome.worktree) {
+				await cleanupWorktrees([outcome.worktree]);
+			}
+
+			if (syncIssue && prdFile && !outcome.failed) {
+				await syncPrdToIssue(prdFile, syncIssue, workDir);
+			}
+
+			// If a retryable failure occurred, let running agents finish but start no new ones
+			if (outcome.retryableFailure && !stopScheduling) {
+				logWarn("Stopping early due to retryable errors. Try again later.");
+				stopScheduling = true;
+			}
+		}
+	} else {
+		// Process tasks in batches
+		let iteration = 0;
+
+		while (true) {
+			// Stop scheduling once the user pressed Ctrl-C
+			if (isShutdownRequested()) {
+				logWarn("Shutdown requested, not starting new batches");
+				break;
+			}
+
+			if (result.budgetExceeded) {
+				break;
+			}
+
+			// Check iteration limit
+			if (maxIterations > 0 && iteration >= maxIterations) {
+				logInfo(`Reached max iterations (${maxIterations})`);
+				break;
+			}
+
+			// Get tasks for this batch
+			let tasks: Task[] = [];
+
+			const taskSourceWithGroups = taskSource as TaskSource & {
+				getParallelGroup?: (id: string) => Promise<number>;
+				getTasksInGroup?: (group: number) => Promise<Task[]>;
+			};
+
+			if (taskSourceWithGroups.getParallelGroup && taskSourceWithGroups.getTasksInGroup) {
+				let nextTask = await taskSource.getNextTask();
+				if (nextTask && isSettled(nextTask)) {
+					const allTasks = await taskSource.getAllTasks();
+					nextTask = allTasks.find((task) => !isSettled(task)) || null;
+				}
+				if (!nextTask) break;
+
+				const group = await taskSourceWithGroups.getParallelGroup(nextTask.id);
+				if (group > 0) {
+					tasks = (await taskSourceWithGroups.getTasksInGroup(group)).filter(
+						(task) => !isSettled(task),
+					);
+				} else {
+					tasks = [nextTask];
+				}
+			} else {
+				tasks = (await taskSource.getAllTasks()).filter((task) => !isSettled(task));
+			}
+
+			if (tasks.length === 0) {
+				if (openIds.size > 0) {
+					logWarn(`${openIds.size} task(s) left open for review`);
+				} else {
+					logSuccess("All tasks completed!");
+				}
+				break;
+			}
+
+			// Limit to maxParallel
+			const batch = tasks.slice(0, maxParallel);
+			iteration++;
+
+			const batchStartTime = Date.now();
+			logInfo(`Batch ${iteration}: ${batch.length} tasks in parallel`);
+
+			if (dryRun) {
+				logInfo("(dry run) Skipping batch");
+				// Track processed tasks to avoid infinite loop
+				for (const task of batch) {
+					dryRunProcessedIds.add(task.id);
+				}
+				continue;
+			}
+
+			// Log task names being processed
+			for (const task of batch) {
+				logInfo(`  -> ${task.title}`);
+			}
+
+			// Run agents in parallel
+			const results = await Promise.all(batch.map((task) => startAgent(task)));
+
+			// Process results and collect worktrees for parallel cleanup
+			let sawRetryableFailure = false;
+			const worktreesToCleanup: Array<{ worktreeDir: string; branchName: string }> = [];
+
+			for (const agentResult of results) {
+				const outcome = await processAgentResult(agentResult);
+				if (outcome.worktree) {
+					worktreesToCleanup.push(outcome.worktree);
+				}
+				if (outcome.retryableFailure) {
+					sawRetryableFailure = true;
+				}
+			}
+
+			await cleanupWorktrees(worktreesToCleanup);
+
+			// Sync PRD to GitHub issue once per batch (after all tasks processed)
+			// This prevents multiple concurrent syncs and reduces API calls
+			if (syncIssue && prdFile && result.tasksCompleted > 0) {
+				await syncPrdToIssue(prdFile, syncIssue, workDir);
+			}
+
+			// Log batch completion time
+			const batchDuration = formatDuration(Date.now() - batchStartTime);
+			logInfo(`Batch ${iteration} completed in ${batchDuration}`);
+			// If any retryable failure occurred, stop the run to allow retry later
+			if (sawRetryableFailure) {
+				logWarn("Stopping early due to retryable errors. Try again later.");
+				break;
+			}
 		}
 	}
 
+	unregisterAgentCleanup();
+
 	// Merge phase: merge completed branches back to base branch
 	if (!skipMerge && !dryRun && completedBranches.length > 0) {
 		const git = simpleGit(workDir);
 		let stashed = false;
+		recordMergeStart(workDir, originalBaseBranch, completedBranches);
 		try {
 			const status = await git.status();
 			const hasChanges = status.files.length > 0 || status.not_added.length > 0;
 			if (hasChanges) {
-				await git.stash(["push", "-u", "-m", "ralphy-merge-stash"]);
+				await git.stash(["push", "-u", "-m", MERGE_STASH_MESSAGE]);
 				stashed = true;
+				recordMergeStashed(workDir);
 				logDebug("Stashed local changes before merge phase");
 			}
 		} catch (stashErr) {
 			logWarn(`Failed to stash local changes: ${stashErr}`);
 		}
 
+		// On forced shutdown, leave the repo without a half-finished merge.
+		// The stash is kept; `ralphy resume` restores it.
+		const unregisterMergeAbort = onForceShutdown(() => abortMerge(workDir));
+
 		try {
 			await mergeCompletedBranches(
 				completedBranches,
@@ -658,6 +1160,8 @@ export async function runParallel(
 					logWarn(`Failed to restore stashed changes: ${stashErr}`);
 				}
 			}
+			unregisterMergeAbort();
+			clearRunStateMerge(workDir);
 		}
 	}
 
@@ -673,7 +1177,7 @@ export async function runParallel(
  * 3. Sequential merges (git locking requirement)
  * 4. Parallel branch deletion
  */
-async function mergeCompletedBranches(
+export async function mergeCompletedBranches(
 	branches: string[],
 	targetBranch: string,
 	engine: AIEngine,
@@ -718,6 +1222,7 @@ async function mergeCompletedBranches(
 		if (mergeResult.success) {
 			logSuccess(`Merged ${branch}`);
 			merged.push(branch);
+			recordBranchMerged(workDir, branch);
 		} else if (mergeResult.hasConflicts && mergeResult.conflictedFiles) {
 			// Try AI-assisted conflict resolution
 			logWarn(`Merge conflict in ${branch}, attempting AI resolution...`);
@@ -734,6 +1239,7 @@ async function mergeCompletedBranches(
 			if (resolved) {
 				logSuccess(`Resolved conflicts and merged ${branch}`);
 				merged.push(branch);
+				recordBranchMerged(workDir, branch);
 			} else {
 				logError(`Failed to resolve conflicts for ${branch}`);
 				await abortMerge(workDir);
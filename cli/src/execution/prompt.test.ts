@@ -73,6 +73,82 @@ boundaries:
 			expect(legacyIndex).toBeGreaterThan(prdIndex);
 		});
 
+		it("should include permission rules with the boundaries", () => {
+			writeFileSync(
+				join(ralphyDir, "config.yaml"),
+				`
+permissions:
+  deny_paths:
+    - secrets/**
+  read_only_paths:
+    - vendor/**
+  disallowed_tools:
+    - WebFetch
+  network: false
+`,
+			);
+
+			const result = buildPrompt({
+				task: "Test task",
+				workDir: testWorkDir,
+			});
+			const boundaries = result.slice(result.indexOf("## Boundaries"), result.indexOf("## Task"));
+
+			expect(boundaries).toContain("- vendor/**");
+			expect(boundaries).toContain("Do NOT read or modify these files/directories:\n- secrets/**");
+			expect(boundaries).toContain("Do NOT use these tools: WebFetch");
+			expect(boundaries).toContain("Do NOT access the network");
+			expect(boundaries).not.toContain("The engine blocks this");
+		});
+
+		it("should note the permission rules the engine enforces itself", () => {
+			writeFileSync(
+				join(ralphyDir, "config.yaml"),
+				`
+permissions:
+  disallowed_tools:
+    - WebFetch
+  network: false
+`,
+			);
+			const capabilities = {
+				streaming: false,
+				modelOverride: false,
+				stdinPrompt: false,
+				sessionResume: false,
+				tokenReporting: false,
+				costReporting: false,
+				nativePermissions: true,
+			};
+			const permissionSupport = {
+				deniedPaths: false,
+				readOnlyPaths: false,
+				disallowedTools: true,
+				network: false,
+			};
+
+			const result = buildPrompt({
+				task: "Test task",
+				workDir: testWorkDir,
+				engine: { capabilities, permissionSupport },
+			});
+
+			expect(result).toContain(
+				"Do NOT use these tools: WebFetch\nThe engine blocks this; don't try to work around it.",
+			);
+			expect(result).toContain(
+				"Do NOT access the network (no web requests, downloads or package installs).\n\n",
+			);
+
+			const withoutNative = buildParallelPrompt({
+				task: "Test task",
+				progressFile: "progress.txt",
+				workDir: testWorkDir,
+				engine: { capabilities: { ...capabilities, nativePermissions: false }, permissionSupport },
+			});
+			expect(withoutNative).not.toContain("The engine blocks this");
+		});
+
 		it("should always include boundaries section even without user-defined boundaries", () => {
 			const result = buildPrompt({
 				task: "Test task",
@@ -165,6 +241,15 @@ boundaries:
 
 			expect(result).not.toContain("Commit your changes with a descriptive message");
 		});
+
+		it("should ask for a completion status block after the instructions", () => {
+			const result = buildPrompt({ task: "Test task", workDir: testWorkDir });
+
+			expect(result.indexOf("## Completion Status")).toBeGreaterThan(
+				result.indexOf("## Instructions"),
+			);
+			expect(result).toContain('"status": "done"');
+		});
 	});
 
 	describe("Project Context", () => {
@@ -228,6 +313,52 @@ rules:
 		});
 	});
 
+	describe("Previous Attempt", () => {
+		it("should not include previous attempt section on first attempt", () => {
+			const result = buildPrompt({
+				task: "Test task",
+				workDir: testWorkDir,
+			});
+
+			expect(result).not.toContain("## Previous Attempt");
+		});
+
+		it("should include error, verification output and diff stat between task and instructions", () => {
+			const result = buildPrompt({
+				task: "Test task",
+				workDir: testWorkDir,
+				previousAttempt: {
+					error: "Verification failed: test command exited with code 1",
+					verificationOutput: "FAIL src/app.test.ts",
+					diffStat: " src/app.ts | 4 ++--",
+				},
+			});
+
+			expect(result).toContain("## Previous Attempt");
+			expect(result).toContain("Error: Verification failed: test command exited with code 1");
+			expect(result).toContain("FAIL src/app.test.ts");
+			expect(result).toContain(" src/app.ts | 4 ++--");
+
+			const taskIndex = result.indexOf("## Task");
+			const previousIndex = result.indexOf("## Previous Attempt");
+			const instructionsIndex = result.indexOf("## Instructions");
+			expect(previousIndex).toBeGreaterThan(taskIndex);
+			expect(previousIndex).toBeLessThan(instructionsIndex);
+		});
+
+		it("should omit verification output and diff stat when absent", () => {
+			const result = buildPrompt({
+				task: "Test task",
+				workDir: testWorkDir,
+				previousAttempt: { error: "Agent crashed" },
+			});
+
+			expect(result).toContain("Error: Agent crashed");
+			expect(result).not.toContain("Verification output:");
+			expect(result).not.toContain("Changes left behind");
+		});
+	});
+
 	describe("No Final Note at End", () => {
 		it("should not have scattered Do NOT modify notes at the end", () => {
 			const result = buildPrompt({
@@ -479,4 +610,25 @@ describe("buildParallelPrompt", () => {
 			expect(boundariesIndex).toBeGreaterThan(taskIndex);
 		});
 	});
+
+	describe("Previous Attempt", () => {
+		it("should include previous attempt before instructions", () => {
+			const result = buildParallelPrompt({
+				task: "Test task",
+				progressFile: ".ralphy/progress.txt",
+				previousAttempt: {
+					error: "Verification failed: lint command exited with code 2",
+					verificationOutput: "error: unused variable",
+				},
+			});
+
+			const previousIndex = result.indexOf("Previous attempt:");
+			const instructionsIndex = result.indexOf("Instructions:");
+
+			expect(result).toContain("Error: Verification failed: lint command exited with code 2");
+			expect(result).toContain("error: unused variable");
+			expect(previousIndex).toBeGreaterThan(-1);
+			expect(previousIndex).toBeLessThan(instructionsIndex);
+		});
+	});
 });
@@ -1,16 +1,37 @@
 import { existsSync } from "node:fs";
 import { join } from "node:path";
-import { loadBoundaries, loadProjectContext, loadRules } from "../config/loader.ts";
+import { loadPermissions, loadProjectContext, loadRules } from "../config/loader.ts";
+import { getNativePermissionSupport } from "../engines/capabilities.ts";
+import type { AIEngine, EnginePermissions, PermissionSupport } from "../engines/types.ts";
+import { SYSTEM_BOUNDARIES } from "./boundary-guard.ts";
 import { getBrowserInstructions, isBrowserAvailable } from "./browser.ts";
+import { COMPLETION_STATUS_INSTRUCTIONS } from "./completion-status.ts";
+
+/**
+ * What went wrong in the previous attempt at a task, shown to the agent on retry
+ */
+export interface PreviousAttempt {
+	error: string;
+	/** Output of the failing test/lint/build command */
+	verificationOutput?: string;
+	/** `git diff --stat` of the changes left behind */
+	diffStat?: string;
+}
+
+/** Engine a prompt is written for */
+type PromptEngine = Pick<AIEngine, "capabilities" | "permissionSupport">;
 
 interface PromptOptions {
 	task: string;
+	/** Engine that runs the prompt; rules it enforces itself are marked as such */
+	engine?: PromptEngine;
 	autoCommit?: boolean;
 	workDir?: string;
 	browserEnabled?: "auto" | "true" | "false";
 	skipTests?: boolean;
 	skipLint?: boolean;
 	prdFile?: string;
+	previousAttempt?: PreviousAttempt;
 }
 
 /**
@@ -29,18 +50,82 @@ function detectAgentSkills(workDir: string): string[] {
 	return candidates.filter((p) => existsSync(p));
 }
 
+/** Added to rules the engine enforces, so the agent doesn't fight a refusal */
+const ENFORCED_NOTE = "The engine blocks this; don't try to work around it.";
+
+/**
+ * Permission rules beyond the read-only boundaries, one instruction each.
+ * Engines enforce what they can natively (noted in the rule); the prompt covers the rest.
+ */
+function formatPermissionRules(
+	permissions: EnginePermissions,
+	support: PermissionSupport | undefined,
+): string[] {
+	const rules: string[] = [];
+	const rule = (text: string, enforced: boolean | undefined) =>
+		rules.push(enforced ? `${text}\n${ENFORCED_NOTE}` : text);
+	if (permissions.deniedPaths.length > 0) {
+		rule(
+			`Do NOT read or modify these files/directories:\n${permissions.deniedPaths.map((p) => `- ${p}`).join("\n")}`,
+			support?.deniedPaths,
+		);
+	}
+	if (permissions.disallowedTools.length > 0) {
+		rule(
+			`Do NOT use these tools: ${permissions.disallowedTools.join(", ")}`,
+			support?.disallowedTools,
+		);
+	}
+	if (!permissions.network) {
+		rule(
+			"Do NOT access the network (no web requests, downloads or package installs).",
+			support?.network,
+		);
+	}
+	return rules;
+}
+
+/**
+ * Format the previous attempt's failure details (without a heading)
+ */
+function formatPreviousAttempt(attempt: PreviousAttempt): string {
+	const lines = [
+		"A previous attempt at this task failed. Fix the problem below instead of repeating the same approach.",
+		"",
+		`Error: ${attempt.error}`,
+	];
+
+	if (attempt.verificationOutput) {
+		lines.push("", "Verification output:", "```", attempt.verificationOutput, "```");
+	}
+
+	if (attempt.diffStat) {
+		lines.push(
+			"",
+			"Changes left behind by the previous attempt (keep what is useful):",
+			"```",
+			attempt.diffStat,
+			"```",
+		);
+	}
+
+	return lines.join("\n");
+}
+
 /**
  * Build the full prompt with project context, rules, boundaries, and task
  */
 export function buildPrompt(options: PromptOptions): string {
 	const {
 		task,
+		engine,
 		autoCommit = true,
 		workDir = process.cwd(),
 		browserEnabled = "auto",
 		skipTests = false,
 		skipLint = false,
 		prdFile,
+		previousAttempt,
 	} = options;
 
 	const parts: string[] = [];
@@ -69,16 +154,14 @@ export function buildPrompt(options: PromptOptions): string {
 
 	// Add boundaries - combine system boundaries with user-defined boundaries
 	// System boundaries come first to ensure they are prominently visible
-	const userBoundaries = loadBoundaries(workDir);
-	const systemBoundaries = [
-		prdFile || "the PRD file",
-		".ralphy/progress.txt",
-		".ralphy-worktrees",
-		".ralphy-sandboxes",
-	];
-	const allBoundaries = [...systemBoundaries, ...userBoundaries];
+	const permissions = loadPermissions(workDir);
+	const systemBoundaries = [prdFile || "the PRD file", ...SYSTEM_BOUNDARIES];
+	const allBoundaries = [...systemBoundaries, ...permissions.readOnlyPaths];
 	parts.push(
-		`## Boundaries\nDo NOT modify these files/directories:\n${allBoundaries.map((b) => `- ${b}`).join("\n")}`,
+		[
+			`## Boundaries\nDo NOT modify these files/directories:\n${allBoundaries.map((b) => `- ${b}`).join("\n")}`,
+			...formatPermissionRules(permissions, engine && getNativePermissionSupport(engine)),
+		].join("\n\n"),
 	);
 
 	// Agent skills/playbooks (optional)
@@ -106,6 +189,11 @@ export function buildPrompt(options: PromptOptions): string {
 	// Add the task
 	parts.push(`## Task\n${task}`);
 
+	// Add what went wrong last time so retries don't repeat the same mistake
+	if (previousAttempt) {
+		parts.push(`## Previous Attempt\n${formatPreviousAttempt(previousAttempt)}`);
+	}
+
 	// Add instructions
 	const instructions = ["1. Implement the task described above"];
 
@@ -131,11 +219,16 @@ export function buildPrompt(options: PromptOptions): string {
 
 	parts.push(`## Instructions\n${instructions.join("\n")}`);
 
+	// Let the agent report a task it couldn't finish instead of it being checked off
+	parts.push(`## Completion Status\n${COMPLETION_STATUS_INSTRUCTIONS}`);
+
 	return parts.join("\n\n");
 }
 
 interface ParallelPromptOptions {
 	task: string;
+	/** Engine that runs the prompt; rules it enforces itself are marked as such */
+	engine?: PromptEngine;
 	progressFile: string;
 	prdFile?: string;
 	workDir?: string;
@@ -143,6 +236,7 @@ interface ParallelPromptOptions {
 	skipLint?: boolean;
 	browserEnabled?: "auto" | "true" | "false";
 	allowCommit?: boolean;
+	previousAttempt?: PreviousAttempt;
 }
 
 /**
@@ -151,6 +245,7 @@ interface ParallelPromptOptions {
 export function buildParallelPrompt(options: ParallelPromptOptions): string {
 	const {
 		task,
+		engine,
 		progressFile,
 		prdFile,
 		workDir = process.cwd(),
@@ -158,6 +253,7 @@ export function buildParallelPrompt(options: ParallelPromptOptions): string {
 		skipLint = false,
 		browserEnabled = "auto",
 		allowCommit = true,
+		previousAttempt,
 	} = options;
 
 	// Parallel execution typically runs in a worktree
@@ -192,15 +288,20 @@ export function buildParallelPrompt(options: ParallelPromptOptions): string {
 
 	// Build boundaries section - combine system boundaries with user-defined boundaries
 	// System boundaries come first to ensure they are prominently visible
-	const userBoundaries = loadBoundaries(workDir);
-	const systemBoundaries = [
-		prdFile || "the PRD file",
-		".ralphy/progress.txt",
-		".ralphy-worktrees",
-		".ralphy-sandboxes",
-	];
-	const allBoundaries = [...systemBoundaries, ...userBoundaries];
-	const boundariesSection = `\n\nBoundaries - Do NOT modify:\n${allBoundaries.map((b) => `- ${b}`).join("\n")}\n\nDo NOT mark tasks complete - that will be handled separately.`;
+	const permissions = loadPermissions(workDir);
+	const systemBoundaries = [prdFile || "the PRD file", ...SYSTEM_BOUNDARIES];
+	const allBoundaries = [...systemBoundaries, ...permissions.readOnlyPaths];
+	const permissionRules = formatPermissionRules(
+		permissions,
+		engine && getNativePermissionSupport(engine),
+	)
+		.map((rule) => `\n\n${rule}`)
+		.join("");
+	const boundariesSection = `\n\nBoundaries - Do NOT modify:\n${allBoundaries.map((b) => `- ${b}`).join("\n")}${permissionRules}\n\nDo NOT mark tasks complete - that will be handled separately.`;
+
+	const previousAttemptSection = previousAttempt
+		? `\n\nPrevious attempt:\n${formatPreviousAttempt(previousAttempt)}`
+		: "";
 
 	const instructions = ["1. Implement this specific task completely"];
 
@@ -227,10 +328,34 @@ export function buildParallelPrompt(options: ParallelPromptOptions): string {
 
 	return `You are working on a specific task. Focus ONLY on this task:
 
-TASK: ${task}${rulesSection}${boundariesSection}${browserSection}${skillsSection}
+TASK: ${task}${rulesSection}${boundariesSection}${browserSection}${skillsSection}${previousAttemptSection}
 
 Instructions:
 ${instructions.join("\n")}
 
+${COMPLETION_STATUS_INSTRUCTIONS}
+
 Focus only on implementing: ${task}`;
 }
+
+/**
+ * Build the prompt that continues a resumed engine session after a failed attempt.
+ * The session already holds the task and instructions, so only what went wrong is sent.
+ */
+export function buildResumePrompt(previousAttempt: PreviousAttempt): string {
+	const lines = [
+		"Your previous run stopped before the task was finished.",
+		"",
+		`Error: ${previousAttempt.error}`,
+	];
+
+	if (previousAttempt.verificationOutput) {
+		lines.push("", "Verification output:", "```", previousAttempt.verificationOutput, "```");
+	}
+
+	lines.push(
+		"",
+		"Continue where you left off: keep the work you have already done and complete the remaining steps of the original instructions.",
+	);
+	return lines.join("\n");
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import { ClaudeEngine } from "../engines/claude.ts";
+import { CodexEngine } from "../engines/codex.ts";
+import { OpenCodeEngine } from "../engines/opencode.ts";
+import type { AIResult } from "../engines/types.ts";
+import { RetryContext } from "./retry-context.ts";
+
+const failed: AIResult = {
+	success: false,
+	response: "",
+	inputTokens: 0,
+	outputTokens: 0,
+	sessionId: "abc-123",
+	error: "Rate limit reached",
+};
+const previousAttempt = { error: "Rate limit reached" };
+
+describe("RetryContext sessions", () => {
+	it("resumes the failed attempt's session with a continue prompt", () => {
+		const context = new RetryContext("/tmp");
+		const engine = new ClaudeEngine();
+		context.recordSession(engine, failed);
+
+		const resume = context.getResume(engine, previousAttempt);
+
+		expect(resume?.sessionId).toBe("abc-123");
+		expect(resume?.prompt).toContain("Error: Rate limit reached");
+		expect(resume?.prompt).toContain("Continue where you left off");
+		expect(context.getResume(engine)).toBeUndefined();
+	});
+
+	it("starts fresh on engines without session resume or a different engine", () => {
+		const context = new RetryContext("/tmp");
+		context.recordSession(new CodexEngine(), failed);
+		expect(context.getResume(new CodexEngine(), previousAttempt)).toBeUndefined();
+
+		context.recordSession(new ClaudeEngine(), failed);
+		expect(context.getResume(new OpenCodeEngine(), previousAttempt)).toBeUndefined();
+	});
+});
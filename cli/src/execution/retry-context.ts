@@ -0,0 +1,83 @@
+import type { AIEngine, AIResult, SessionResume } from "../engines/types.ts";
+import { getDiffStat, getHeadCommit } from "../git/branch.ts";
+import { type PreviousAttempt, buildResumePrompt } from "./prompt.ts";
+import type { VerificationResult } from "./verification.ts";
+
+/**
+ * Tracks why the last attempt at a task failed so the retry prompt can include it.
+ *
+ * Call getPreviousAttempt() at the start of every attempt: the first call records
+ * the starting commit, later calls return the details of the failed attempt.
+ * When the engine can resume sessions, the retry continues the failed attempt's
+ * session (see getResume) instead of starting a new conversation.
+ */
+export class RetryContext {
+	private startCommit: string | null = null;
+	private lastError: string | null = null;
+	private lastVerificationOutput: string | null = null;
+	private session: { engineId: string; sessionId: string } | null = null;
+
+	constructor(private workDir: string) {}
+
+	/**
+	 * Record the error that made the attempt fail (use as withRetry's onRetry)
+	 */
+	recordError(error?: string): void {
+		this.lastError = error || "Unknown error";
+	}
+
+	/**
+	 * Record a failed verification (use as ensureVerified's onFailure)
+	 */
+	recordVerification(result: VerificationResult): void {
+		this.lastVerificationOutput = result.output || null;
+	}
+
+	/**
+	 * Record the engine session an attempt ran in, so a retry can continue it
+	 */
+	recordSession(engine: AIEngine, result: AIResult): void {
+		if (engine.capabilities.sessionResume && result.sessionId) {
+			this.session = { engineId: engine.id, sessionId: result.sessionId };
+		}
+	}
+
+	/**
+	 * Session for a retry to continue, if the failed attempt ran on this same engine
+	 */
+	getResume(engine: AIEngine, previousAttempt?: PreviousAttempt): SessionResume | undefined {
+		if (!previousAttempt || !this.session || !engine.capabilities.sessionResume) {
+			return undefined;
+		}
+		if (this.session.engineId !== engine.id) {
+			return undefined;
+		}
+		return { sessionId: this.session.sessionId, prompt: buildResumePrompt(previousAttempt) };
+	}
+
+	/**
+	 * Get details of the failed attempt, or undefined on the first attempt
+	 */
+	async getPreviousAttempt(): Promise<PreviousAttempt | undefined> {
+		if (this.startCommit === null) {
+			this.startCommit = await getHeadCommit(this.workDir);
+		}
+
+		if (!this.lastError) {
+			return undefined;
+		}
+
+		const attempt: PreviousAttempt = {
+			error: this.lastError,
+			...(this.lastVerificationOutput && { verificationOutput: this.lastVerificationOutput }),
+		};
+		const diffStat = await getDiffStat(this.startCommit, this.workDir);
+		if (diffStat) {
+			attempt.diffStat = diffStat;
+		}
+
+		this.lastError = null;
+		this.lastVerificationOutput = null;
+		return attempt;
+	}
+}
@@ -1,4 +1,5 @@
 import { logDebug, logWarn } from "../ui/logger.ts";
+import { isShutdownRequested } from "./shutdown.ts";
 
 interface RetryOptions {
 	maxRetries: number;
@@ -56,6 +57,7 @@ export function calculateBackoffDelay(
  * - Optional jitter to prevent thundering herd
  * - Configurable maximum delay cap
  * - Progress callbacks with next delay info
+ * - No retries once a shutdown was requested
  */
 export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
 	const {
@@ -77,6 +79,10 @@ export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions):
 		} catch (error) {
 			lastError = error instanceof Error ? error : new Error(String(error));
 
+			if (isShutdownRequested()) {
+				logDebug("Shutdown requested, not retrying");
+				break;
+			}
 			if (attempt < maxRetries) {
 				const errorMsg = lastError.message;
 
@@ -91,6 +97,10 @@ export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions):
 
 				logDebug(`Waiting ${delaySecs}s before retry (exponential backoff)...`);
 				await sleep(delayMs);
+				if (isShutdownRequested()) {
+					logDebug("Shutdown requested, not retrying");
+					break;
+				}
 			}
 		}
 	}
@@ -143,3 +153,38 @@ export function isFatalError(error: string): boolean {
 
 	return fatalPatterns.some((pattern) => pattern.test(error));
 }
+
+/**
+ * Check if an error means the engine can't serve requests for a while (quota,
+ * overload), so the run should move to a fallback engine.
+ */
+export function isFallbackError(error: string): boolean {
+	const fallbackPatterns = [
+		/rate limit/i,
+		/rate_limit/i,
+		/hit your limit/i,
+		/usage limit/i,
+		/quota/i,
+		/overloaded/i,
+		/\b529\b/,
+	];
+
+	return fallbackPatterns.some((pattern) => pattern.test(error));
+}
+
+/**
+ * Check if an error looks like a missing executable. Commands the agent runs itself
+ * fail with the same messages (and end up in the error's output tail), so confirm
+ * with the engine's isAvailable() before treating the engine as missing.
+ */
+export function isMissingCommandError(error: string): boolean {
+	const missingPatterns = [
+		/command not found/i,
+		/not installed/i,
+		/executable not found/i,
+		/ENOENT/,
+		/is not recognized/i, // Windows "command not recognized"
+	];
+
+	return missingPatterns.some((pattern) => pattern.test(error));
+}
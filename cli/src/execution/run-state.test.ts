@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DEFAULT_OPTIONS } from "../config/types.ts";
+import {
+	clearRunState,
+	clearRunStateMerge,
+	readRunState,
+	recordBranchMerged,
+	recordMergeStart,
+	recordMergeStashed,
+	startRunState,
+	updateRunStateTask,
+} from "./run-state.ts";
+
+describe("run state journal", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-run-state-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("ignores updates when no run is journaled", () => {
+		updateRunStateTask(dir, "a", { title: "Task A", status: "running" });
+		expect(readRunState(dir)).toBeNull();
+		expect(existsSync(join(dir, ".ralphy", "run-state.json"))).toBe(false);
+	});
+
+	it("tracks task progress and keeps earlier fields", () => {
+		startRunState(dir, { ...DEFAULT_OPTIONS, parallel: true });
+		updateRunStateTask(dir, "a", {
+			title: "Task A",
+			status: "running",
+			worktreeDir: "/tmp/wt",
+			branch: "ralphy/agent-1",
+		});
+		updateRunStateTask(dir, "a", { status: "completed" });
+
+		const state = readRunState(dir);
+		expect(state?.options.parallel).toBe(true);
+		expect(state?.tasks.a).toEqual({
+			title: "Task A",
+			status: "completed",
+			worktreeDir: "/tmp/wt",
+			branch: "ralphy/agent-1",
+		});
+	});
+
+	it("records the merge phase position", () => {
+		startRunState(dir, DEFAULT_OPTIONS);
+		recordMergeStart(dir, "main", ["b1", "b2"]);
+		recordMergeStashed(dir);
+		recordBranchMerged(dir, "b1");
+		recordBranchMerged(dir, "b1");
+
+		expect(readRunState(dir)?.merge).toEqual({
+			targetBranch: "main",
+			branches: ["b1", "b2"],
+			merged: ["b1"],
+			stashed: true,
+		});
+
+		clearRunStateMerge(dir);
+		expect(readRunState(dir)?.merge).toBeUndefined();
+	});
+
+	it("removes the journal when the run finishes", () => {
+		startRunState(dir, DEFAULT_OPTIONS);
+		clearRunState(dir);
+		expect(readRunState(dir)).toBeNull();
+	});
+});
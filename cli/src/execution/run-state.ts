@@ -0,0 +1,174 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { RALPHY_DIR } from "../config/loader.ts";
+import type { RuntimeOptions } from "../config/types.ts";
+
+/**
+ * Journal entry for a task started in the current run
+ */
+export interface RunStateTask {
+	title: string;
+	status: "running" | "completed" | "failed";
+	/** Branch holding the task's work (parallel mode) */
+	branch?: string;
+	worktreeDir?: string;
+	sandboxDir?: string;
+}
+
+/**
+ * Position in the parallel merge phase
+ */
+export interface RunStateMerge {
+	targetBranch: string;
+	/** Branches queued for merging */
+	branches: string[];
+	/** Branches already merged into the target */
+	merged: string[];
+	/** Whether local changes were stashed before merging */
+	stashed: boolean;
+}
+
+/**
+ * Journal of an in-progress run, written to .ralphy/run-state.json so
+ * `ralphy resume` can recover after a crash
+ */
+export interface RunState {
+	startedAt: string;
+	options: RuntimeOptions;
+	/** Branch checked out when the run started */
+	startingBranch?: string;
+	/** Branch agents start from and merge back into (parallel mode) */
+	baseBranch?: string;
+	tasks: Record<string, RunStateTask>;
+	merge?: RunStateMerge;
+}
+
+function getRunStatePath(workDir: string): string {
+	return join(workDir, RALPHY_DIR, "run-state.json");
+}
+
+/**
+ * Read the run journal, or null if no run is in progress
+ */
+export function readRunState(workDir: string): RunState | null {
+	const path = getRunStatePath(workDir);
+	if (!existsSync(path)) {
+		return null;
+	}
+
+	try {
+		const parsed = JSON.parse(readFileSync(path, "utf-8")) as RunState;
+		return parsed?.options && parsed.tasks ? parsed : null;
+	} catch {
+		return null;
+	}
+}
+
+function writeState(workDir: string, state: RunState): void {
+	const dir = join(workDir, RALPHY_DIR);
+	if (!existsSync(dir)) {
+		mkdirSync(dir, { recursive: true });
+	}
+	writeFileSync(getRunStatePath(workDir), JSON.stringify(state, null, 2), "utf-8");
+}
+
+/**
+ * Apply a change to the journal. No-op when no run is being journaled
+ * (single-task mode, dry runs).
+ */
+function updateState(workDir: string, update: (state: RunState) => void): void {
+	const state = readRunState(workDir);
+	if (!state) {
+		return;
+	}
+	update(state);
+	writeState(workDir, state);
+}
+
+/**
+ * Start a fresh journal for a run, replacing any previous one
+ */
+export function startRunState(workDir: string, options: RuntimeOptions): void {
+	writeState(workDir, {
+		startedAt: new Date().toISOString(),
+		options,
+		tasks: {},
+	});
+}
+
+/**
+ * Record run-wide details (branches)
+ */
+export function updateRunState(
+	workDir: string,
+	update: Pick<RunState, "startingBranch" | "baseBranch">,
+): void {
+	updateState(workDir, (state) => {
+		Object.assign(state, update);
+	});
+}
+
+/**
+ * Record the progress of a task
+ */
+export function updateRunStateTask(
+	workDir: string,
+	taskId: string,
+	update: Partial<RunStateTask> & Pick<RunStateTask, "status">,
+): void {
+	updateState(workDir, (state) => {
+		const existing = state.tasks[taskId];
+		state.tasks[taskId] = {
+			...existing,
+			...update,
+			title: update.title ?? existing?.title ?? taskId,
+		};
+	});
+}
+
+/**
+ * Record the start of the merge phase
+ */
+export function recordMergeStart(workDir: string, targetBranch: string, branches: string[]): void {
+	updateState(workDir, (state) => {
+		state.merge = { targetBranch, branches, merged: [], stashed: false };
+	});
+}
+
+/**
+ * Record that local changes were stashed before merging
+ */
+export function recordMergeStashed(workDir: string): void {
+	updateState(workDir, (state) => {
+		if (state.merge) {
+			state.merge.stashed = true;
+		}
+	});
+}
+
+/**
+ * Record a branch merged into the target
+ */
+export function recordBranchMerged(workDir: string, branch: string): void {
+	updateState(workDir, (state) => {
+		if (state.merge && !state.merge.merged.includes(branch)) {
+			state.merge.merged.push(branch);
+		}
+	});
+}
+
+/**
+ * Record that the merge phase finished (stash restored)
+ */
+export function clearRunStateMerge(workDir: string): void {
+	updateState(workDir, (state) => {
+		state.merge = undefined;
+	});
+}
+
+/**
+ * Remove the journal once a run finishes
+ */
+export function clearRunState(workDir: string): void {
+	rmSync(getRunStatePath(workDir), { force: true });
+}
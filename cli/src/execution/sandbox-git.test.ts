@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import {
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	symlinkSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import simpleGit from "simple-git";
+import { applyBranchesToSandbox } from "./sandbox-git.ts";
+
+describe("applyBranchesToSandbox", () => {
+	let repoDir: string;
+	let sandboxDir: string;
+
+	beforeEach(async () => {
+		repoDir = mkdtempSync(join(tmpdir(), "ralphy-sandbox-git-"));
+		sandboxDir = mkdtempSync(join(tmpdir(), "ralphy-sandbox-git-sandbox-"));
+		const git = simpleGit(repoDir);
+		await git.init(["-b", "main"]);
+		await git.addConfig("user.email", "test@example.com");
+		await git.addConfig("user.name", "Test");
+		await git.addConfig("commit.gpgsign", "false");
+		mkdirSync(join(repoDir, "src"));
+		mkdirSync(join(repoDir, "vendor"));
+		writeFileSync(join(repoDir, "src/app.ts"), "app\n");
+		writeFileSync(join(repoDir, "src/old.ts"), "old\n");
+		writeFileSync(join(repoDir, "vendor/lib.js"), "lib\n");
+		await git.add(".");
+		await git.commit("Initial commit");
+
+		// A dependency's sandbox committed its work to a branch
+		await git.checkout(["-b", "ralphy/agent-1-user-model"]);
+		writeFileSync(join(repoDir, "src/user.ts"), "user\n");
+		writeFileSync(join(repoDir, "src/app.ts"), "app with users\n");
+		writeFileSync(join(repoDir, "vendor/lib.js"), "patched\n");
+		await git.rm("src/old.ts");
+		await git.add(".");
+		await git.commit("feat: Create User model");
+		await git.checkout("main");
+
+		mkdirSync(join(sandboxDir, "src"));
+		writeFileSync(join(sandboxDir, "src/app.ts"), "app\n");
+		writeFileSync(join(sandboxDir, "src/old.ts"), "old\n");
+		symlinkSync(join(repoDir, "vendor"), join(sandboxDir, "vendor"));
+	});
+
+	afterEach(() => {
+		rmSync(repoDir, { recursive: true, force: true });
+		rmSync(sandboxDir, { recursive: true, force: true });
+	});
+
+	it("brings a dependency branch's changes into the sandbox", async () => {
+		const applied = await applyBranchesToSandbox(repoDir, sandboxDir, "main", [
+			"ralphy/agent-1-user-model",
+		]);
+
+		expect(applied).toBe(3);
+		expect(readFileSync(join(sandboxDir, "src/user.ts"), "utf-8")).toBe("user\n");
+		expect(readFileSync(join(sandboxDir, "src/app.ts"), "utf-8")).toBe("app with users\n");
+		expect(existsSync(join(sandboxDir, "src/old.ts"))).toBe(false);
+		// Symlinked directories point into the original repo and stay untouched
+		expect(readFileSync(join(repoDir, "vendor/lib.js"), "utf-8")).toBe("lib\n");
+	});
+});
@@ -1,4 +1,4 @@
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { existsSync, lstatSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { dirname, join } from "node:path";
 import simpleGit, { type SimpleGit } from "simple-git";
 import { slugify } from "../git/branch.ts";
@@ -145,6 +145,63 @@ export async function commitSandboxChanges(
 	});
 }
 
+/**
+ * Whether a path goes through one of the sandbox's symlinks to the original repo
+ */
+function isSymlinkedPath(sandboxDir: string, relPath: string): boolean {
+	try {
+		return lstatSync(join(sandboxDir, relPath.split("/")[0])).isSymbolicLink();
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Apply the changes of branches (committed by other sandbox agents) to a sandbox,
+ * so a dependent task starts from its dependencies' work. Files under symlinked
+ * directories are left alone, since writing them would change the original repo.
+ * @returns Number of files written or deleted
+ */
+export async function applyBranchesToSandbox(
+	originalDir: string,
+	sandboxDir: string,
+	baseBranch: string,
+	branches: string[],
+): Promise<number> {
+	const git: SimpleGit = simpleGit(originalDir);
+	let applied = 0;
+
+	for (const branch of branches) {
+		const changed = await git.raw([
+			"diff",
+			"--name-only",
+			"--no-renames",
+			`${baseBranch}...${branch}`,
+		]);
+		for (const relPath of changed.split("\n").filter(Boolean)) {
+			if (isSymlinkedPath(sandboxDir, relPath)) continue;
+
+			const sandboxPath = join(sandboxDir, relPath);
+			let content: Buffer | null;
+			try {
+				content = await git.binaryCatFile(["blob", `${branch}:${relPath}`]);
+			} catch {
+				content = null; // Deleted on the branch
+			}
+
+			if (content === null) {
+				rmSync(sandboxPath, { force: true });
+			} else {
+				mkdirSync(dirname(sandboxPath), { recursive: true });
+				writeFileSync(sandboxPath, content);
+			}
+			applied++;
+		}
+	}
+
+	return applied;
+}
+
 /**
  * Check if there are uncommitted changes in a sandbox.
  * Since sandboxes don't have proper git, we check if any files
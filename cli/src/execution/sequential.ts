@@ -1,15 +1,27 @@
-import { logTaskProgress } from "../config/writer.ts";
-import type { AIEngine, AIResult } from "../engines/types.ts";
+import { loadBoundaryViolationPolicy, loadPermissions } from "../config/loader.ts";
+import { flushAllProgressWrites, logTaskProgress } from "../config/writer.ts";
+import type { AIEngine, AIResult, ProcessTimeouts } from "../engines/types.ts";
 import { createTaskBranch, returnToBaseBranch } from "../git/branch.ts";
 import { syncPrdToIssue } from "../git/issue-sync.ts";
 import { createPullRequest } from "../git/pr.ts";
+import { hasDependencies, hasDependents, partitionByDependencies } from "../tasks/dependencies.ts";
 import type { Task, TaskSource } from "../tasks/types.ts";
-import { logDebug, logError, logInfo, logSuccess, logWarn } from "../ui/logger.ts";
+import { recordTaskComplete, recordTaskStart } from "../telemetry/index.ts";
+import { formatCost, logDebug, logError, logInfo, logSuccess, logWarn } from "../ui/logger.ts";
 import { notifyTaskComplete, notifyTaskFailed } from "../ui/notify.ts";
 import { ProgressSpinner } from "../ui/spinner.ts";
+import { createAgentEventHandler } from "./agent-events.ts";
+import { BoundaryGuard, loadProtectedPaths } from "./boundary-guard.ts";
+import { BudgetTracker, type RunBudget, isTaskBudgetError } from "./budget.ts";
+import { addFollowupTasks, applyCompletionStatus, isOpenTaskError } from "./completion-status.ts";
 import { clearDeferredTask, recordDeferredTask } from "./deferred.ts";
 import { buildPrompt } from "./prompt.ts";
+import { RetryContext } from "./retry-context.ts";
 import { isFatalError, isRetryableError, sleep, withRetry } from "./retry.ts";
+import { updateRunStateTask } from "./run-state.ts";
+import { isShutdownRequested } from "./shutdown.ts";
+import { createTaskEngineResolver } from "./task-engine.ts";
+import { type VerificationResult, ensureVerified } from "./verification.ts";
 
 export interface ExecutionOptions {
 	engine: AIEngine;
@@ -40,13 +52,25 @@ export interface ExecutionOptions {
 	engineArgs?: string[];
 	/** GitHub issue number to sync PRD with on each iteration */
 	syncIssue?: number;
+	/** Stop starting new tasks once the run spends this much */
+	budget?: RunBudget;
+	/** Kill engine processes that run or stay silent too long */
+	timeouts?: ProcessTimeouts;
+	/** Append follow-up tasks reported by agents to the task source */
+	addFollowups?: boolean;
 }
 
 export interface ExecutionResult {
 	tasksCompleted: number;
 	tasksFailed: number;
+	/** Tasks not run because a dependency failed */
+	tasksSkipped: number;
 	totalInputTokens: number;
 	totalOutputTokens: number;
+	/** Dollar cost of tasks whose cost is known (reported or priced) */
+	totalCostUsd: number;
+	/** The run or task budget that stopped the run, if one was reached */
+	budgetExceeded?: string;
 }
 
 /**
@@ -73,35 +97,119 @@ export async function runSequential(options: ExecutionOptions): Promise<Executio
 		modelOverride,
 		engineArgs,
 		syncIssue,
+		addFollowups,
 	} = options;
 
 	const result: ExecutionResult = {
 		tasksCompleted: 0,
 		tasksFailed: 0,
+		tasksSkipped: 0,
 		totalInputTokens: 0,
 		totalOutputTokens: 0,
+		totalCostUsd: 0,
 	};
 
 	let iteration = 0;
 	let abortDueToRetryableFailure = false;
 
+	// Dependency tracking: dependents of failed tasks are skipped
+	const failedIds = new Set<string>();
+	const skippedIds = new Set<string>();
+	// Tasks the agent reported blocked, partial or needing input stay in the source,
+	// and their dependents wait for them without counting as skipped
+	const openIds = new Set<string>();
+	const waitingIds = new Set<string>();
+
+	// Tasks may pick their own engine/model/timeouts
+	const resolveTaskEngine = createTaskEngineResolver(engine, modelOverride, options.timeouts);
+	const budget = new BudgetTracker(options.budget);
+	const permissions = loadPermissions(workDir);
+	const protectedPaths = loadProtectedPaths(workDir, options.prdFile);
+	const boundaryPolicy = loadBoundaryViolationPolicy(workDir);
+
+	// Failed tasks are checked off so they aren't retried forever, unless other tasks depend
+	// on them: checked off, they would let those tasks run on top of the failure next run
+	const removeFailedTask = async (failed: Task): Promise<void> => {
+		if (hasDependents(await taskSource.getAllTasks(), failed.id)) {
+			logWarn(`Leaving "${failed.title}" unchecked: other tasks depend on it`);
+			return;
+		}
+		await taskSource.markComplete(failed.id);
+	};
+
 	while (true) {
+		// Stop scheduling once the user pressed Ctrl-C
+		if (isShutdownRequested()) {
+			logWarn("Shutdown requested, not starting new tasks");
+			break;
+		}
+
+		if (result.budgetExceeded) {
+			break;
+		}
+
 		// Check iteration limit
 		if (maxIterations > 0 && iteration >= maxIterations) {
 			logInfo(`Reached max iterations (${maxIterations})`);
 			break;
 		}
 
-		// Get next task
-		const task = await taskSource.getNextTask();
+		// Get next task (the first one whose dependencies are done, if any are declared)
+		let task: Task | null;
+		const remainingTasks = await taskSource.getAllTasks();
+		if (hasDependencies(remainingTasks)) {
+			const { ready, blocked, waiting } = partitionByDependencies(
+				remainingTasks,
+				failedIds,
+				openIds,
+			);
+			for (const blockedTask of blocked) {
+				if (!skippedIds.has(blockedTask.id)) {
+					skippedIds.add(blockedTask.id);
+					logWarn(`Skipping "${blockedTask.title}": a dependency failed`);
+					result.tasksSkipped++;
+				}
+			}
+			for (const waitingTask of waiting) {
+				if (!waitingIds.has(waitingTask.id)) {
+					waitingIds.add(waitingTask.id);
+					logWarn(`Not starting "${waitingTask.title}": a dependency was left open`);
+				}
+			}
+			task = ready[0] ?? null;
+		} else if (openIds.size > 0) {
+			task = remainingTasks.find((candidate) => !openIds.has(candidate.id)) ?? null;
+		} else {
+			task = await taskSource.getNextTask();
+		}
 		if (!task) {
-			logSuccess("All tasks completed!");
+			if (openIds.size > 0) {
+				logWarn(`${openIds.size} task(s) left open for review`);
+			}
+			if (waitingIds.size > 0) {
+				logWarn(`${waitingIds.size} task(s) waiting on tasks left open`);
+			}
+			if (skippedIds.size > 0) {
+				logWarn(`${skippedIds.size} task(s) skipped due to failed dependencies`);
+				break;
+			}
+			if (openIds.size === 0) {
+				logSuccess("All tasks completed!");
+			}
 			break;
 		}
 
 		iteration++;
 		const remaining = await taskSource.countRemaining();
 		logInfo(`Task ${iteration}: ${task.title} (${remaining} remaining)`);
+		const {
+			engine: taskEngine,
+			modelOverride: taskModel,
+			timeouts: taskTimeouts,
+		} = resolveTaskEngine(task);
+		if (task.engine || task.model) {
+			logInfo(`Using ${taskEngine.name}${taskModel ? ` (${taskModel})` : ""}`);
+		}
 
 		// Create branch if needed
 		let branch: string | null = null;
@@ -115,63 +223,121 @@ export async function runSequential(options: ExecutionOptions): Promise<Executio
 		}
 
 		// Build prompt
-		const prompt = buildPrompt({
+		const promptOptions = {
 			task: task.body || task.title,
+			engine: taskEngine,
 			autoCommit,
 			workDir,
 			browserEnabled,
 			skipTests,
 			skipLint,
 			prdFile: options.prdFile,
-		});
+		};
+		const prompt = buildPrompt(promptOptions);
 
 		// Execute with spinner
 		const spinner = new ProgressSpinner(task.title, activeSettings);
 		let aiResult: AIResult | null = null;
+		const failedBefore = result.tasksFailed;
+		const completedBefore = result.tasksCompleted;
 
 		if (dryRun) {
 			spinner.success("(dry run) Skipped");
 		} else {
+			recordTaskStart();
+			updateRunStateTask(workDir, task.id, { title: task.title, status: "running" });
+			const retryContext = new RetryContext(workDir);
 			try {
+				// Write pending completions and progress first, so they don't count as the task's changes
+				await taskSource.flush?.();
+				await flushAllProgressWrites();
+				const boundaryGuard = await BoundaryGuard.start({
+					workDir,
+					boundaries: protectedPaths,
+					policy: boundaryPolicy,
+				});
+				const taskBudget = budget.startTask(task, taskEngine.id, taskModel);
 				aiResult = await withRetry(
 					async () => {
-						spinner.updateStep("Working");
+						const exhausted = taskBudget.exhaustedResult();
+						if (exhausted) {
+							return exhausted;
+						}
+
+						// Tell retries what went wrong last time, continuing the engine session if possible
+						const previousAttempt = await retryContext.getPreviousAttempt();
+						const attemptPrompt = previousAttempt
+							? buildPrompt({ ...promptOptions, previousAttempt })
+							: prompt;
+						const resume = retryContext.getResume(taskEngine, previousAttempt);
+						spinner.updateStep(resume ? "Resuming" : "Working");
 
 						// Use streaming if available
 						const engineOptions = {
-							...(modelOverride && { modelOverride }),
+							...(taskModel && { modelOverride: taskModel }),
 							...(engineArgs && engineArgs.length > 0 && { engineArgs }),
+							timeouts: taskBudget.limitAttempt(taskTimeouts),
+							...(resume && { resume }),
+							taskId: task.id,
+							autoCommit,
+							permissions,
 						};
-						if (engine.executeStreaming) {
-							return await engine.executeStreaming(
-								prompt,
-								workDir,
-								(step) => {
-									spinner.updateStep(step);
-								},
-								engineOptions,
-							);
-						}
-
-						const res = await engine.execute(prompt, workDir, engineOptions);
+						// Only count the task as done once the configured commands pass
+						const verificationOptions = {
+							configDir: workDir,
+							workDir,
+							skipTests,
+							skipLint,
+							boundaries: boundaryGuard,
+							onStep: (step: string) => spinner.updateStep(step),
+							onFailure: (verification: VerificationResult) =>
+								retryContext.recordVerification(verification),
+						};
+						const onEvent = taskBudget.watch(
+							createAgentEventHandler((step) => spinner.updateStep(step)),
+						);
+						// Every attempt counts toward the budgets, failed ones included
+						const res = taskBudget.recordAttempt(
+							taskEngine.capabilities.streaming && taskEngine.executeStreaming && onEvent
+								? await taskEngine.executeStreaming(attemptPrompt, workDir, onEvent, engineOptions)
+								: await taskEngine.execute(attemptPrompt, workDir, engineOptions),
+						);
+						retryContext.recordSession(taskEngine, res);
 
-						if (!res.success && res.error && isRetryableError(res.error)) {
+						if (
+							!res.success &&
+							res.error &&
+							!isTaskBudgetError(res.error) &&
+							isRetryableError(res.error)
+						) {
 							throw new Error(res.error);
 						}
 
-						return res;
+						return await ensureVerified(applyCompletionStatus(res), verificationOptions);
 					},
 					{
 						maxRetries,
 						retryDelay,
-						onRetry: (attempt) => {
+						onRetry: (attempt, error) => {
+							retryContext.recordError(error);
 							spinner.updateStep(`Retry ${attempt}`);
 						},
 					},
 				);
 
+				recordTaskComplete(
+					aiResult.success,
+					aiResult.inputTokens,
+					aiResult.outputTokens,
+					prompt,
+					aiResult.response,
+				);
+
 				if (aiResult.success) {
 					spinner.success(undefined, true); // Show timing breakdown
+					if (aiResult.costUsd !== undefined) {
+						logInfo(`Task cost: ${formatCost(aiResult.costUsd)}`);
+					}
 					result.totalInputTokens += aiResult.inputTokens;
 					result.totalOutputTokens += aiResult.outputTokens;
 
@@ -205,7 +371,15 @@ export async function runSequential(options: ExecutionOptions): Promise<Executio
 					}
 				} else {
 					const errMsg = aiResult.error || "Unknown error";
-					if (isRetryableError(errMsg)) {
+					if (isOpenTaskError(errMsg)) {
+						// Leave the task unchecked so a human can pick it up; don't retry it this run
+						spinner.error(errMsg);
+						logTaskProgress(task.title, "failed", workDir);
+						result.tasksFailed++;
+						openIds.add(task.id);
+						notifyTaskFailed(task.title, errMsg);
+						clearDeferredTask(taskSource.type, task, workDir, options.prdFile);
+					} else if (!isTaskBudgetError(errMsg) && isRetryableError(errMsg)) {
 						const deferrals = recordDeferredTask(taskSource.type, task, workDir, options.prdFile);
 						spinner.error(errMsg);
 						if (deferrals >= maxRetries) {
@@ -213,33 +387,35 @@ export async function runSequential(options: ExecutionOptions): Promise<Executio
 							logTaskProgress(task.title, "failed", workDir);
 							result.tasksFailed++;
 							notifyTaskFailed(task.title, errMsg);
-							await taskSource.markComplete(task.id);
+							await removeFailedTask(task);
 							clearDeferredTask(taskSource.type, task, workDir, options.prdFile);
 						} else {
 							logWarn(`Temporary failure, stopping early (${deferrals}/${maxRetries}): ${errMsg}`);
 							result.tasksFailed++;
 							abortDueToRetryableFailure = true;
 						}
-					} else if (isFatalError(errMsg)) {
+					} else if (!isTaskBudgetError(errMsg) && isFatalError(errMsg)) {
 						// Fatal error (auth, config) - abort all remaining tasks
 						spinner.error(errMsg);
 						logError(`Fatal error: ${errMsg}`);
 						logError("Aborting remaining tasks due to configuration/authentication issue.");
 						result.tasksFailed++;
 						notifyTaskFailed(task.title, errMsg);
+						result.totalCostUsd = budget.costUsd;
 						return result; // Exit immediately
 					} else {
 						spinner.error(errMsg);
 						logTaskProgress(task.title, "failed", workDir);
 						result.tasksFailed++;
 						notifyTaskFailed(task.title, errMsg);
-						// Mark task complete so we don't retry it infinitely
-						await taskSource.markComplete(task.id);
+						// Take the task out of the queue so we don't retry it infinitely
+						await removeFailedTask(task);
 						clearDeferredTask(taskSource.type, task, workDir, options.prdFile);
 					}
 				}
 			} catch (error) {
 				const errorMsg = error instanceof Error ? error.message : String(error);
+				recordTaskComplete(false, 0, 0, prompt);
 				if (isRetryableError(errorMsg)) {
 					const deferrals = recordDeferredTask(taskSource.type, task, workDir, options.prdFile);
 					spinner.error(errorMsg);
@@ -248,7 +424,7 @@ export async function runSequential(options: ExecutionOptions): Promise<Executio
 						logTaskProgress(task.title, "failed", workDir);
 						result.tasksFailed++;
 						notifyTaskFailed(task.title, errorMsg);
-						await taskSource.markComplete(task.id);
+						await removeFailedTask(task);
 						clearDeferredTask(taskSource.type, task, workDir, options.prdFile);
 					} else {
 						logWarn(`Temporary failure, stopping early (${deferrals}/${maxRetries}): ${errorMsg}`);
@@ -262,19 +438,43 @@ export async function runSequential(options: ExecutionOptions): Promise<Executio
 					logError("Aborting remaining tasks due to configuration/authentication issue.");
 					result.tasksFailed++;
 					notifyTaskFailed(task.title, errorMsg);
+					result.totalCostUsd = budget.costUsd;
 					return result; // Exit immediately
 				} else {
 					spinner.error(errorMsg);
 					logTaskProgress(task.title, "failed", workDir);
 					result.tasksFailed++;
 					notifyTaskFailed(task.title, errorMsg);
-					// Mark task complete so we don't retry it infinitely
-					await taskSource.markComplete(task.id);
+					// Take the task out of the queue so we don't retry it infinitely
+					await removeFailedTask(task);
 					clearDeferredTask(taskSource.type, task, workDir, options.prdFile);
 				}
 			}
 		}
 
+		// Attempts that failed or threw cost money too
+		result.totalCostUsd = budget.costUsd;
+		const exceeded = budget.check();
+		if (exceeded) {
+			result.budgetExceeded = exceeded;
+			logWarn(`${exceeded}, not starting new tasks`);
+		}
+
+		if (addFollowups) {
+			await addFollowupTasks(taskSource, aiResult);
+		}
+
+		// Any failure branch above bumps tasksFailed; remember it so dependents are skipped
+		// (dependents of open tasks wait instead)
+		if (result.tasksFailed > failedBefore) {
+			if (!openIds.has(task.id)) {
+				failedIds.add(task.id);
+			}
+			updateRunStateTask(workDir, task.id, { status: "failed" });
+		} else if (result.tasksCompleted > completedBefore) {
+			updateRunStateTask(workDir, task.id, { status: "completed" });
+		}
+
 		// Return to base branch if we created one
 		if (branchPerTask && baseBranch) {
 			await returnToBaseBranch(baseBranch, workDir);
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from "bun:test";
+import * as baseModule from "../engines/base.ts";
+import { withRetry } from "./retry.ts";
+import {
+	SIGTERM_GRACE_MS,
+	installSignalHandlers,
+	isShutdownRequested,
+	onForceShutdown,
+} from "./shutdown.ts";
+
+describe("installSignalHandlers", () => {
+	let uninstall: () => void;
+	let exitSpy: ReturnType<typeof spyOn>;
+	let killSpy: ReturnType<typeof spyOn>;
+
+	beforeEach(() => {
+		exitSpy = spyOn(process, "exit").mockImplementation((() => {}) as typeof process.exit);
+		killSpy = spyOn(baseModule, "killActiveProcesses").mockImplementation(() => 0);
+		uninstall = installSignalHandlers();
+	});
+
+	afterEach(() => {
+		uninstall();
+		exitSpy.mockRestore();
+		killSpy.mockRestore();
+	});
+
+	it("stops scheduling on the first Ctrl-C and force quits on the second", async () => {
+		const cleanup = mock(() => {});
+		const unregister = onForceShutdown(cleanup);
+
+		process.emit("SIGINT", "SIGINT");
+		expect(isShutdownRequested()).toBe(true);
+		expect(killSpy).not.toHaveBeenCalled();
+		expect(exitSpy).not.toHaveBeenCalled();
+
+		process.emit("SIGINT", "SIGINT");
+		await Bun.sleep(0);
+		unregister();
+
+		expect(killSpy).toHaveBeenCalled();
+		expect(cleanup).toHaveBeenCalledTimes(1);
+		expect(exitSpy).toHaveBeenCalledWith(130);
+	});
+
+	it("stops gracefully on SIGTERM and force quits on a second one", async () => {
+		process.emit("SIGTERM", "SIGTERM");
+		await Bun.sleep(0);
+
+		expect(isShutdownRequested()).toBe(true);
+		expect(killSpy).not.toHaveBeenCalled();
+		expect(exitSpy).not.toHaveBeenCalled();
+
+		process.emit("SIGTERM", "SIGTERM");
+		await Bun.sleep(0);
+
+		expect(killSpy).toHaveBeenCalled();
+		expect(exitSpy).toHaveBeenCalledWith(143);
+	});
+
+	it("force quits once the SIGTERM deadline passes", async () => {
+		const timeoutSpy = spyOn(globalThis, "setTimeout");
+		try {
+			process.emit("SIGTERM", "SIGTERM");
+			const [onDeadline, delay] = timeoutSpy.mock.calls[0] as [() => void, number];
+			expect(delay).toBe(SIGTERM_GRACE_MS);
+
+			onDeadline();
+			await Bun.sleep(0);
+		} finally {
+			timeoutSpy.mockRestore();
+		}
+
+		expect(killSpy).toHaveBeenCalled();
+		expect(exitSpy).toHaveBeenCalledWith(143);
+	});
+
+	it("runs the force-shutdown handlers before exiting on a crash", async () => {
+		const cleanup = mock(() => {});
+		const unregister = onForceShutdown(cleanup);
+
+		process.emit("unhandledRejection", new Error("boom"), Promise.resolve());
+		await Bun.sleep(0);
+		unregister();
+
+		expect(cleanup).toHaveBeenCalledTimes(1);
+		expect(exitSpy).toHaveBeenCalledWith(1);
+	});
+
+	it("removes the process handlers when uninstalled", () => {
+		const listeners = process.listenerCount("uncaughtException");
+		uninstall();
+
+		expect(process.listenerCount("uncaughtException")).toBe(listeners - 1);
+		uninstall = installSignalHandlers();
+	});
+
+	it("kills engine processes when ralphy exits", () => {
+		process.emit("exit", 0);
+
+		expect(killSpy).toHaveBeenCalled();
+		expect(exitSpy).not.toHaveBeenCalled();
+	});
+
+	it("clears the shutdown state when uninstalled", () => {
+		process.emit("SIGINT", "SIGINT");
+		uninstall();
+
+		expect(isShutdownRequested()).toBe(false);
+		uninstall = installSignalHandlers();
+	});
+
+	it("stops retrying once a shutdown was requested", async () => {
+		const attempt = mock(async () => {
+			process.emit("SIGINT", "SIGINT");
+			throw new Error("Rate limit exceeded");
+		});
+
+		await expect(withRetry(attempt, { maxRetries: 3, retryDelay: 0 })).rejects.toThrow(
+			"Rate limit exceeded",
+		);
+		expect(attempt).toHaveBeenCalledTimes(1);
+	});
+});
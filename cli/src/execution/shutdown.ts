@@ -0,0 +1,139 @@
+import { killActiveProcesses } from "../engines/base.ts";
+import { logError, logWarn } from "../ui/logger.ts";
+
+type ShutdownHandler = () => Promise<void> | void;
+
+/**
+ * How long a SIGTERM lets in-flight tasks run before force quitting. Supervisors
+ * send SIGKILL after a grace period (10s for Docker), and the force-shutdown
+ * handlers must have saved completions by then.
+ */
+export const SIGTERM_GRACE_MS = 8_000;
+
+let uninstall: (() => void) | null = null;
+let stopRequested = false;
+let forcing = false;
+const forceHandlers: ShutdownHandler[] = [];
+
+/**
+ * Whether the user asked to stop (first Ctrl-C / SIGTERM).
+ * Execution loops check this before scheduling new tasks.
+ */
+export function isShutdownRequested(): boolean {
+	return stopRequested;
+}
+
+/**
+ * Register cleanup to run on forced shutdown (second Ctrl-C / SIGTERM, the SIGTERM
+ * deadline, or a crash).
+ * Handlers run newest first, after engine processes are killed.
+ * Returns a function that unregisters the handler.
+ */
+export function onForceShutdown(handler: ShutdownHandler): () => void {
+	forceHandlers.push(handler);
+	return () => {
+		const index = forceHandlers.indexOf(handler);
+		if (index !== -1) {
+			forceHandlers.splice(index, 1);
+		}
+	};
+}
+
+async function forceShutdown(reason: string, exitCode: number): Promise<void> {
+	const killed = killActiveProcesses();
+	logWarn(`${reason} (killed ${killed} running process${killed === 1 ? "" : "es"})`);
+
+	for (const handler of [...forceHandlers].reverse()) {
+		try {
+			await handler();
+		} catch (error) {
+			logWarn(`Cleanup failed: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	process.exit(exitCode);
+}
+
+/**
+ * Handle SIGINT/SIGTERM during a run.
+ *
+ * The first Ctrl-C stops scheduling new tasks and lets in-flight ones finish,
+ * so the normal flush and cleanup paths run. A SIGTERM from a supervisor (CI,
+ * systemd) does the same, but only for SIGTERM_GRACE_MS. The second signal, or
+ * the SIGTERM deadline, kills engine process groups, runs the force-shutdown
+ * handlers and exits. A crash does the same after logging the error. Engine
+ * process groups are also killed when ralphy exits, since they don't die with it.
+ *
+ * Returns a function that removes the handlers and clears the shutdown state.
+ * Call it when the run ends.
+ */
+export function installSignalHandlers(): () => void {
+	if (uninstall) {
+		return uninstall;
+	}
+
+	let sigtermDeadline: ReturnType<typeof setTimeout> | null = null;
+
+	const stopNow = (reason: string, exitCode: number) => {
+		stopRequested = true;
+		if (!forcing) {
+			forcing = true;
+			void forceShutdown(reason, exitCode);
+		}
+	};
+
+	const onSigint = () => {
+		if (!stopRequested) {
+			stopRequested = true;
+			logWarn(
+				"Received SIGINT: finishing in-flight tasks, no new tasks will start. Press Ctrl-C again to force quit.",
+			);
+			return;
+		}
+		stopNow("Force quitting", 130);
+	};
+	const onSigterm = () => {
+		if (stopRequested) {
+			stopNow("Received SIGTERM again, stopping", 143);
+			return;
+		}
+		stopRequested = true;
+		logWarn(
+			`Received SIGTERM: finishing in-flight tasks for up to ${SIGTERM_GRACE_MS / 1000}s, no new tasks will start.`,
+		);
+		sigtermDeadline = setTimeout(
+			() => stopNow("SIGTERM deadline reached, stopping", 143),
+			SIGTERM_GRACE_MS,
+		);
+		sigtermDeadline.unref();
+	};
+	const onExit = () => {
+		killActiveProcesses();
+	};
+	const onCrash = (error: unknown) => {
+		logError(error instanceof Error ? (error.stack ?? error.message) : String(error));
+		// Save completions and clean up like a forced shutdown before exiting
+		stopNow("Stopping after an unexpected error", 1);
+	};
+
+	process.on("SIGINT", onSigint);
+	process.on("SIGTERM", onSigterm);
+	process.on("exit", onExit);
+	process.on("uncaughtException", onCrash);
+	process.on("unhandledRejection", onCrash);
+
+	uninstall = () => {
+		if (sigtermDeadline) {
+			clearTimeout(sigtermDeadline);
+		}
+		process.off("SIGINT", onSigint);
+		process.off("SIGTERM", onSigterm);
+		process.off("exit", onExit);
+		process.off("uncaughtException", onCrash);
+		process.off("unhandledRejection", onCrash);
+		uninstall = null;
+		stopRequested = false;
+		forcing = false;
+	};
+	return uninstall;
+}
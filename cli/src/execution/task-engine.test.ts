@@ -0,0 +1,61 @@
+import { describe, expect, it } from "bun:test";
+import { ClaudeEngine } from "../engines/claude.ts";
+import { CodexEngine } from "../engines/codex.ts";
+import type { Task } from "../tasks/types.ts";
+import { createTaskEngineResolver, validateTaskEngines } from "./task-engine.ts";
+
+function task(fields: Partial<Task> = {}): Task {
+	return { id: "t", title: "Task", completed: false, ...fields };
+}
+
+describe("createTaskEngineResolver", () => {
+	const defaultEngine = new ClaudeEngine();
+
+	it("uses the run's engine and model by default", () => {
+		const resolve = createTaskEngineResolver(defaultEngine, "sonnet");
+		expect(resolve(task())).toEqual({
+			engine: defaultEngine,
+			modelOverride: "sonnet",
+			timeouts: {},
+		});
+	});
+
+	it("lets a task override only the model", () => {
+		const resolve = createTaskEngineResolver(defaultEngine, "sonnet");
+		expect(resolve(task({ model: "opus" })).modelOverride).toBe("opus");
+	});
+
+	it("creates the task's engine once without inheriting the run's model", () => {
+		const resolve = createTaskEngineResolver(defaultEngine, "sonnet");
+		const first = resolve(task({ engine: "codex" }));
+		const second = resolve(task({ engine: "codex", model: "o3" }));
+
+		expect(first.engine).toBeInstanceOf(CodexEngine);
+		expect(first.modelOverride).toBeUndefined();
+		expect(second.engine).toBe(first.engine);
+		expect(second.modelOverride).toBe("o3");
+	});
+
+	it("lets a task override each of the run's timeouts", () => {
+		const resolve = createTaskEngineResolver(defaultEngine, undefined, {
+			taskTimeoutMs: 1_800_000,
+			idleTimeoutMs: 300_000,
+		});
+		expect(resolve(task({ idleTimeoutMs: 60_000 })).timeouts).toEqual({
+			taskTimeoutMs: 1_800_000,
+			idleTimeoutMs: 60_000,
+		});
+	});
+});
+
+describe("validateTaskEngines", () => {
+	it("rejects unknown engines", async () => {
+		await expect(validateTaskEngines([task({ title: "Fast", engine: "nope" })])).rejects.toThrow(
+			'Task "Fast" uses unknown engine: nope',
+		);
+	});
+
+	it("accepts tasks without an engine", async () => {
+		await expect(validateTaskEngines([task()])).resolves.toBeUndefined();
+	});
+});
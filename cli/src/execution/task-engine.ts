@@ -0,0 +1,68 @@
+import { createEngine } from "../engines/index.ts";
+import type { AIEngine, ProcessTimeouts } from "../engines/types.ts";
+import type { Task } from "../tasks/types.ts";
+
+/**
+ * Engine, model and process limits a task runs with
+ */
+export interface TaskEngine {
+	engine: AIEngine;
+	modelOverride?: string;
+	timeouts: ProcessTimeouts;
+}
+
+/**
+ * Create a resolver for per-task `engine:`/`model:`/`timeout:` overrides.
+ *
+ * Tasks without an engine use the run's engine (including its fallback chain).
+ * A task that names its own engine doesn't inherit the run's model, since model
+ * names are engine-specific. Engines are created once and shared across tasks.
+ * Each timeout the task doesn't set comes from the run.
+ */
+export function createTaskEngineResolver(
+	defaultEngine: AIEngine,
+	defaultModel?: string,
+	defaultTimeouts: ProcessTimeouts = {},
+): (task: Task) => TaskEngine {
+	const engines = new Map<string, AIEngine>();
+
+	return (task) => {
+		const timeouts = {
+			taskTimeoutMs: task.timeoutMs ?? defaultTimeouts.taskTimeoutMs,
+			idleTimeoutMs: task.idleTimeoutMs ?? defaultTimeouts.idleTimeoutMs,
+		};
+		if (!task.engine) {
+			return { engine: defaultEngine, modelOverride: task.model ?? defaultModel, timeouts };
+		}
+
+		let engine = engines.get(task.engine);
+		if (!engine) {
+			engine = createEngine(task.engine);
+			engines.set(task.engine, engine);
+		}
+		return { engine, modelOverride: task.model, timeouts };
+	};
+}
+
+/**
+ * Check that every engine named by a task exists and is installed
+ */
+export async function validateTaskEngines(tasks: Task[]): Promise<void> {
+	const checked = new Set<string>();
+	for (const task of tasks) {
+		if (!task.engine || checked.has(task.engine)) continue;
+		checked.add(task.engine);
+
+		let engine: AIEngine;
+		try {
+			engine = createEngine(task.engine);
+		} catch {
+			throw new Error(`Task "${task.title}" uses unknown engine: ${task.engine}`);
+		}
+		if (!(await engine.isAvailable())) {
+			throw new Error(
+				`Task "${task.title}" uses ${engine.name}, but '${engine.cliCommand}' is not in your PATH`,
+			);
+		}
+	}
+}
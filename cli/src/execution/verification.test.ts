@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AIResult } from "../engines/types.ts";
+import { BoundaryGuard } from "./boundary-guard.ts";
+import { type VerificationResult, ensureVerified, runVerification } from "./verification.ts";
+
+function writeConfig(dir: string, commands: Record<string, string>): void {
+	mkdirSync(join(dir, ".ralphy"), { recursive: true });
+	const lines = Object.entries(commands).map(
+		([key, value]) => `  ${key}: ${JSON.stringify(value)}`,
+	);
+	writeFileSync(join(dir, ".ralphy", "config.yaml"), `commands:\n${lines.join("\n")}\n`);
+}
+
+describe("runVerification", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-verify-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("passes when no commands are configured", async () => {
+		const result = await runVerification({
+			configDir: dir,
+			workDir: dir,
+			skipTests: false,
+			skipLint: false,
+		});
+		expect(result.success).toBe(true);
+	});
+
+	it("reports the failing command with its output", async () => {
+		writeConfig(dir, { test: "echo ok", lint: "echo connection refused && exit 3" });
+
+		const result = await runVerification({
+			configDir: dir,
+			workDir: dir,
+			skipTests: false,
+			skipLint: false,
+		});
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe("Verification failed: lint command exited with code 3");
+		expect(result.output).toContain("connection refused");
+	});
+
+	it("honours skipTests and skipLint but always runs build", async () => {
+		writeConfig(dir, { test: "exit 1", lint: "exit 1", build: "exit 2" });
+
+		const result = await runVerification({
+			configDir: dir,
+			workDir: dir,
+			skipTests: true,
+			skipLint: true,
+		});
+
+		expect(result.error).toBe("Verification failed: build command exited with code 2");
+	});
+
+	it("runs commands in workDir while reading config from configDir", async () => {
+		const workDir = mkdtempSync(join(tmpdir(), "ralphy-verify-work-"));
+		try {
+			writeFileSync(join(workDir, "marker"), "");
+			writeConfig(dir, { test: "test -f marker" });
+
+			const result = await runVerification({
+				configDir: dir,
+				workDir,
+				skipTests: false,
+				skipLint: false,
+			});
+			expect(result.success).toBe(true);
+		} finally {
+			rmSync(workDir, { recursive: true, force: true });
+		}
+	});
+});
+
+describe("ensureVerified", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-verify-"));
+		writeConfig(dir, { test: "exit 1" });
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	const options = () => ({ configDir: dir, workDir: dir, skipTests: false, skipLint: false });
+
+	it("throws when verification fails after a successful result", async () => {
+		const result: AIResult = {
+			success: true,
+			response: "done",
+			inputTokens: 0,
+			outputTokens: 0,
+		};
+		await expect(ensureVerified(result, options())).rejects.toThrow(
+			"Verification failed: test command exited with code 1",
+		);
+	});
+
+	it("returns unsuccessful results without verifying", async () => {
+		const result: AIResult = {
+			success: false,
+			response: "",
+			inputTokens: 0,
+			outputTokens: 0,
+			error: "boom",
+		};
+		expect(await ensureVerified(result, options())).toBe(result);
+	});
+
+	it("fails on changes to protected paths before running the commands", async () => {
+		writeFileSync(join(dir, "PRD.md"), "- [ ] Add login\n");
+		const boundaries = await BoundaryGuard.start({
+			workDir: dir,
+			boundaries: ["PRD.md"],
+			policy: "fail",
+		});
+		writeFileSync(join(dir, "PRD.md"), "- [x] Add login\n");
+
+		const failures: VerificationResult[] = [];
+		const result: AIResult = {
+			success: true,
+			response: "done",
+			inputTokens: 0,
+			outputTokens: 0,
+		};
+		await expect(
+			ensureVerified(result, {
+				...options(),
+				boundaries,
+				onFailure: (verification) => failures.push(verification),
+			}),
+		).rejects.toThrow("Boundary violation: 1 protected path(s) changed");
+		expect(failures[0]?.output).toContain("- PRD.md");
+		expect(readFileSync(join(dir, "PRD.md"), "utf-8")).toBe("- [ ] Add login\n");
+	});
+});
@@ -0,0 +1,96 @@
+import { loadBuildCommand, loadLintCommand, loadTestCommand } from "../config/loader.ts";
+import { execCommand } from "../engines/base.ts";
+import type { AIResult } from "../engines/types.ts";
+import { logDebug } from "../ui/logger.ts";
+import type { BoundaryGuard } from "./boundary-guard.ts";
+
+const isWindows = process.platform === "win32";
+
+/** Maximum number of output lines kept from a failing command */
+const OUTPUT_TAIL_LINES = 50;
+
+export interface VerificationOptions {
+	/** Directory whose .ralphy/config.yaml defines the commands */
+	configDir: string;
+	/** Directory the commands run in (worktree or sandbox for parallel agents) */
+	workDir: string;
+	skipTests: boolean;
+	skipLint: boolean;
+	/** Reverts changes to protected paths before the commands run */
+	boundaries?: BoundaryGuard;
+	/** Called before each command runs (for spinner updates) */
+	onStep?: (step: string) => void;
+	/** Called with the failing result before ensureVerified throws */
+	onFailure?: (result: VerificationResult) => void;
+}
+
+export interface VerificationResult {
+	success: boolean;
+	/** Short failure description, safe to classify with isRetryableError */
+	error?: string;
+	/** Tail of the failing command's output */
+	output?: string;
+}
+
+/**
+ * Run the configured test, lint and build commands.
+ * Stops at the first failing command.
+ */
+export async function runVerification(options: VerificationOptions): Promise<VerificationResult> {
+	const { configDir, workDir, skipTests, skipLint, onStep } = options;
+
+	const steps: { name: string; command: string }[] = [
+		{ name: "test", command: skipTests ? "" : loadTestCommand(configDir) },
+		{ name: "lint", command: skipLint ? "" : loadLintCommand(configDir) },
+		{ name: "build", command: loadBuildCommand(configDir) },
+	];
+
+	for (const { name, command } of steps) {
+		if (!command) continue;
+
+		onStep?.(`Verifying ${name}`);
+		logDebug(`Running ${name} command: ${command}`);
+
+		const { stdout, stderr, exitCode } = isWindows
+			? await execCommand(command, [], workDir)
+			: await execCommand("sh", ["-c", command], workDir);
+
+		if (exitCode !== 0) {
+			const output = `${stdout}\n${stderr}`.trim().split("\n").slice(-OUTPUT_TAIL_LINES).join("\n");
+			logDebug(`${name} command failed:\n${output}`);
+			// Keep the message free of command output so it is never mistaken for a
+			// rate limit or auth error by isRetryableError/isFatalError
+			return {
+				success: false,
+				error: `Verification failed: ${name} command exited with code ${exitCode}`,
+				output,
+			};
+		}
+	}
+
+	return { success: true };
+}
+
+/**
+ * Verify a successful engine result, throwing on failure so withRetry retries the task.
+ * Unsuccessful results are returned untouched (after reverting changes to protected paths).
+ */
+export async function ensureVerified(
+	result: AIResult,
+	options: VerificationOptions,
+): Promise<AIResult> {
+	// Failed attempts may have touched protected paths too
+	const boundaryCheck = await options.boundaries?.enforce();
+	if (!result.success) {
+		return result;
+	}
+
+	const verification =
+		boundaryCheck && !boundaryCheck.success ? boundaryCheck : await runVerification(options);
+	if (!verification.success) {
+		options.onFailure?.(verification);
+		throw new Error(verification.error);
+	}
+
+	return result;
+}
@@ -122,3 +122,49 @@ export async function hasUncommittedChanges(workDir = process.cwd()): Promise<bo
 	const status = await git.status();
 	return status.files.length > 0;
 }
+
+/**
+ * Get the current HEAD commit hash
+ * Returns empty string if it cannot be resolved (no commits, not a repo)
+ */
+export async function getHeadCommit(workDir = process.cwd()): Promise<string> {
+	const git: SimpleGit = simpleGit(workDir);
+	try {
+		return (await git.revparse(["HEAD"])).trim();
+	} catch {
+		return "";
+	}
+}
+
+/**
+ * Get a `git diff --stat` of everything changed since a commit (committed or not)
+ * Returns empty string on error
+ */
+export async function getDiffStat(fromCommit: string, workDir = process.cwd()): Promise<string> {
+	const git: SimpleGit = simpleGit(workDir);
+	try {
+		const args = fromCommit ? ["--stat", fromCommit] : ["--stat"];
+		return (await git.diff(args)).trim();
+	} catch {
+		return "";
+	}
+}
+
+/**
+ * Pop the most recent stash with the given message
+ * Returns false if no such stash exists or it could not be applied
+ */
+export async function popNamedStash(message: string, workDir = process.cwd()): Promise<boolean> {
+	const git: SimpleGit = simpleGit(workDir);
+	try {
+		const stashes = await git.stashList();
+		const index = stashes.all.findIndex((entry) => entry.message.includes(message));
+		if (index === -1) {
+			return false;
+		}
+		await git.stash(["pop", `stash@{${index}}`]);
+		return true;
+	} catch {
+		return false;
+	}
+}
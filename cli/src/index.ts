@@ -1,10 +1,14 @@
 #!/usr/bin/env bun
 import { parseArgs } from "./cli/args.ts";
 import { addRule, showConfig } from "./cli/commands/config.ts";
+import { runDoctor } from "./cli/commands/doctor.ts";
 import { runInit } from "./cli/commands/init.ts";
+import { runResume } from "./cli/commands/resume.ts";
 import { runLoop } from "./cli/commands/run.ts";
 import { runTask } from "./cli/commands/task.ts";
+import { exportTelemetryCommand } from "./cli/commands/telemetry.ts";
 import { flushAllProgressWrites } from "./config/writer.ts";
+import { endTelemetry } from "./telemetry/index.ts";
 import { logError } from "./ui/logger.ts";
 
 async function main(): Promise<void> {
@@ -15,8 +19,31 @@ async function main(): Promise<void> {
 			initMode,
 			showConfig: showConfigMode,
 			addRule: rule,
+			command,
 		} = parseArgs(process.argv);
 
+		// Handle `telemetry export`
+		if (command?.name === "telemetry-export") {
+			await exportTelemetryCommand(command.format, {
+				outputDir: command.outputDir,
+				outputPath: command.outputPath,
+				all: command.format === "all",
+			});
+			return;
+		}
+
+		// Handle `resume`
+		if (command?.name === "resume") {
+			await runResume();
+			return;
+		}
+
+		// Handle `doctor`
+		if (command?.name === "doctor") {
+			await runDoctor();
+			return;
+		}
+
 		// Handle --init
 		if (initMode) {
 			await runInit();
@@ -47,8 +74,9 @@ async function main(): Promise<void> {
 		logError(error instanceof Error ? error.message : String(error));
 		process.exitCode = 1;
 	} finally {
-		// Ensure all progress writes are flushed before exit
+		// Ensure all progress writes and telemetry are flushed before exit
 		await flushAllProgressWrites();
+		await endTelemetry();
 	}
 }
 
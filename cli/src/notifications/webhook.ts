@@ -1,11 +1,17 @@
 import type { RalphyConfig } from "../config/types.ts";
-import { logDebug, logError } from "../ui/logger.ts";
+import { formatCost, logDebug, logError } from "../ui/logger.ts";
 
 type SessionStatus = "completed" | "failed";
 
 interface NotificationResult {
 	tasksCompleted: number;
 	tasksFailed: number;
+	/** Dollar cost of the session, when known */
+	costUsd?: number;
+}
+
+function formatCostSuffix(result: NotificationResult): string {
+	return result.costUsd ? ` (cost ${formatCost(result.costUsd)})` : "";
 }
 
 function buildMessage(status: SessionStatus, result?: NotificationResult): string {
@@ -14,10 +20,11 @@ function buildMessage(status: SessionStatus, result?: NotificationResult): strin
 	}
 
 	const total = result.tasksCompleted + result.tasksFailed;
+	const cost = formatCostSuffix(result);
 	if (status === "completed") {
-		return `Ralphy session completed: ${result.tasksCompleted}/${total} tasks succeeded`;
+		return `Ralphy session completed: ${result.tasksCompleted}/${total} tasks succeeded${cost}`;
 	}
-	return `Ralphy session failed: ${result.tasksCompleted}/${total} tasks succeeded, ${result.tasksFailed} failed`;
+	return `Ralphy session failed: ${result.tasksCompleted}/${total} tasks succeeded, ${result.tasksFailed} failed${cost}`;
 }
 
 /**
@@ -34,7 +41,7 @@ async function sendDiscordNotification(
 	const embed = {
 		title: isSuccess ? "Session Completed" : "Session Failed",
 		description: result
-			? `${result.tasksCompleted}/${total} tasks succeeded${result.tasksFailed > 0 ? `, ${result.tasksFailed} failed` : ""}`
+			? `${result.tasksCompleted}/${total} tasks succeeded${result.tasksFailed > 0 ? `, ${result.tasksFailed} failed` : ""}${formatCostSuffix(result)}`
 			: `Session ${status}`,
 		color: isSuccess ? 0x22c55e : 0xef4444,
 		footer: {
@@ -96,6 +103,7 @@ async function sendCustomNotification(
 			message,
 			tasks_completed: result?.tasksCompleted ?? 0,
 			tasks_failed: result?.tasksFailed ?? 0,
+			cost_usd: result?.costUsd ?? null,
 		}),
 	});
 
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "bun:test";
+import { CachedTaskSource } from "./cached-task-source.ts";
+import type { TaskSource } from "./types.ts";
+
+/** Task source whose markComplete writes wait until `release` is called */
+function createSlowSource() {
+	const written: string[] = [];
+	let release = () => {};
+	const gate = new Promise<void>((resolve) => {
+		release = resolve;
+	});
+	const source: TaskSource = {
+		type: "yaml",
+		getAllTasks: async () => [],
+		getNextTask: async () => null,
+		markComplete: async (id) => {
+			await gate;
+			written.push(id);
+		},
+		countRemaining: async () => 0,
+		countCompleted: async () => written.length,
+	};
+	return { source, written, release: () => release() };
+}
+
+describe("CachedTaskSource.flush", () => {
+	it("waits for a flush already in progress before returning", async () => {
+		const { source, written, release } = createSlowSource();
+		const cached = new CachedTaskSource(source, { flushIntervalMs: 1 });
+
+		await cached.markComplete("first");
+		// Let the timer start its flush, which blocks on the write
+		await Bun.sleep(10);
+		await cached.markComplete("second");
+
+		let flushed = false;
+		const flush = cached.flush().then(() => {
+			flushed = true;
+		});
+		await Bun.sleep(10);
+		expect(flushed).toBe(false);
+
+		release();
+		await flush;
+		expect(written).toEqual(["first", "second"]);
+		expect(cached.hasPendingWrites()).toBe(false);
+		cached.dispose();
+	});
+});
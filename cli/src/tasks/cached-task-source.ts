@@ -29,8 +29,8 @@ export class CachedTaskSource implements TaskSource {
 	private flushTimer: ReturnType<typeof setTimeout> | null = null;
 	private flushIntervalMs: number;
 	private flushRetryCount = 0;
-	private isFlushing = false;
-	private flushQueued = false;
+	/** The flush currently writing to the underlying source */
+	private inFlightFlush: Promise<void> | null = null;
 	private static readonly MAX_FLUSH_RETRIES = 3;
 
 	constructor(inner: TaskSource, options?: CachedTaskSourceOptions) {
@@ -88,6 +88,18 @@ export class CachedTaskSource implements TaskSource {
 		this.scheduleFlush();
 	}
 
+	/**
+	 * Flush pending completions, then append to the underlying source
+	 */
+	async addTasks(titles: string[]): Promise<void> {
+		if (!this.inner.addTasks) {
+			throw new Error(`Can't add tasks to a ${this.inner.type} task source`);
+		}
+		await this.flush();
+		await this.inner.addTasks(titles);
+		this.cachedTasks = null;
+	}
+
 	async countRemaining(): Promise<number> {
 		const tasks = await this.getAllTasks();
 		return tasks.length;
@@ -113,53 +125,55 @@ export class CachedTaskSource implements TaskSource {
 	/**
 	 * Get the parallel group of a task (YAML or JSON sources)
 	 */
-	async getParallelGroup(title: string): Promise<number> {
+	async getParallelGroup(id: string): Promise<number> {
 		if (this.inner instanceof YamlTaskSource) {
-			return this.inner.getParallelGroup(title);
+			return this.inner.getParallelGroup(id);
 		}
 		if (this.inner instanceof JsonTaskSource) {
-			return this.inner.getParallelGroup(title);
+			return this.inner.getParallelGroup(id);
 		}
 		return 0;
 	}
 
 	/**
 	 * Flush all pending completions to the underlying source.
-	 * Safe to call multiple times - no-op if nothing pending.
+	 * Safe to call multiple times - no-op if nothing pending. If a flush is already
+	 * running (e.g. a timer-triggered one), waits for it, so everything pending at
+	 * the call is on disk when it returns.
 	 * IMPORTANT: Always call this before process exit to ensure data is persisted.
 	 */
 	async flush(): Promise<void> {
-		if (this.isFlushing) {
-			this.flushQueued = true;
-			return;
+		while (this.inFlightFlush) {
+			// Its caller handles its errors; whatever it didn't write is still pending
+			await this.inFlightFlush.catch(() => {});
 		}
 
-		this.isFlushing = true;
+		this.inFlightFlush = this.writePendingCompletions();
 		try {
-			if (this.flushTimer) {
-				clearTimeout(this.flushTimer);
-				this.flushTimer = null;
-			}
-
-			if (this.pendingCompletions.size === 0) {
-				return;
-			}
-
-			// Write pending completions, removing each after success to avoid duplicates on retry
-			for (const id of this.pendingCompletions) {
-				await this.inner.markComplete(id);
-				this.pendingCompletions.delete(id);
-			}
-
-			// Invalidate cache so next read picks up any external changes
-			this.cachedTasks = null;
+			await this.inFlightFlush;
 		} finally {
-			this.isFlushing = false;
-			if (this.flushQueued) {
-				this.flushQueued = false;
-				this.scheduleFlush();
-			}
+			this.inFlightFlush = null;
+		}
+	}
+
+	private async writePendingCompletions(): Promise<void> {
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer);
+			this.flushTimer = null;
+		}
+
+		if (this.pendingCompletions.size === 0) {
+			return;
+		}
+
+		// Write pending completions, removing each after success to avoid duplicates on retry
+		for (const id of this.pendingCompletions) {
+			await this.inner.markComplete(id);
+			this.pendingCompletions.delete(id);
 		}
+
+		// Invalidate cache so next read picks up any external changes
+		this.cachedTasks = null;
 	}
 
 	/**
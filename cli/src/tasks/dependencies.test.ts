@@ -0,0 +1,95 @@
+import { describe, expect, it } from "bun:test";
+import {
+	hasDependencies,
+	hasDependents,
+	partitionByDependencies,
+	validateTaskDependencies,
+} from "./dependencies.ts";
+import type { Task } from "./types.ts";
+
+function task(id: string, dependsOn?: string[]): Task {
+	return { id, title: `Task ${id}`, dependsOn, completed: false };
+}
+
+describe("validateTaskDependencies", () => {
+	it("accepts a valid graph", () => {
+		expect(() =>
+			validateTaskDependencies([task("a"), task("b", ["a"]), task("c", ["a", "b"])]),
+		).not.toThrow();
+	});
+
+	it("reports unknown dependency ids", () => {
+		expect(() => validateTaskDependencies([task("a", ["missing"])])).toThrow(
+			'Task "a" depends on unknown task "missing"',
+		);
+	});
+
+	it("reports cycles with their path", () => {
+		expect(() =>
+			validateTaskDependencies([task("a", ["c"]), task("b", ["a"]), task("c", ["b"])]),
+		).toThrow("Dependency cycle: a -> c -> b -> a");
+	});
+
+	it("reports self-dependencies as cycles", () => {
+		expect(() => validateTaskDependencies([task("a", ["a"])])).toThrow("Dependency cycle: a -> a");
+	});
+});
+
+describe("hasDependencies", () => {
+	it("detects declared dependencies", () => {
+		expect(hasDependencies([task("a"), task("b")])).toBe(false);
+		expect(hasDependencies([task("a"), task("b", [])])).toBe(false);
+		expect(hasDependencies([task("a"), task("b", ["a"])])).toBe(true);
+	});
+});
+
+describe("partitionByDependencies", () => {
+	it("treats dependencies that are no longer remaining as done", () => {
+		// "a" was completed earlier, so it is not in the remaining list
+		const { ready, blocked } = partitionByDependencies(
+			[task("b", ["a"]), task("c", ["b"])],
+			new Set(),
+		);
+
+		expect(ready.map((t) => t.id)).toEqual(["b"]);
+		expect(blocked).toEqual([]);
+	});
+
+	it("blocks dependents of failed tasks transitively", () => {
+		const { ready, blocked } = partitionByDependencies(
+			[task("b", ["a"]), task("c", ["b"]), task("d")],
+			new Set(["a"]),
+		);
+
+		expect(ready.map((t) => t.id)).toEqual(["d"]);
+		expect(blocked.map((t) => t.id)).toEqual(["b", "c"]);
+	});
+
+	it("never returns failed tasks that are still remaining", () => {
+		const { ready, blocked } = partitionByDependencies([task("a"), task("b")], new Set(["a"]));
+
+		expect(ready.map((t) => t.id)).toEqual(["b"]);
+		expect(blocked).toEqual([]);
+	});
+
+	it("keeps dependents of open tasks waiting instead of blocked", () => {
+		const { ready, blocked, waiting } = partitionByDependencies(
+			[task("a"), task("b", ["a"]), task("c", ["b"]), task("d", ["a", "x"]), task("e")],
+			new Set(["x"]),
+			new Set(["a"]),
+		);
+
+		expect(ready.map((t) => t.id)).toEqual(["e"]);
+		expect(waiting.map((t) => t.id)).toEqual(["b", "c"]);
+		expect(blocked.map((t) => t.id)).toEqual(["d"]);
+	});
+});
+
+describe("hasDependents", () => {
+	it("finds tasks that depend on a task", () => {
+		const tasks = [task("a"), task("b", ["a"])];
+
+		expect(hasDependents(tasks, "a")).toBe(true);
+		expect(hasDependents(tasks, "b")).toBe(false);
+	});
+});
@@ -0,0 +1,130 @@
+import type { Task } from "./types.ts";
+
+/**
+ * Minimal task shape needed to validate dependencies (includes completed tasks)
+ */
+export interface DependencyNode {
+	id: string;
+	dependsOn?: string[];
+}
+
+/**
+ * Validate task dependencies before a run starts.
+ * Throws an error listing every unknown dependency id and every cycle.
+ */
+export function validateTaskDependencies(tasks: DependencyNode[]): void {
+	const byId = new Map(tasks.map((task) => [task.id, task]));
+	const problems: string[] = [];
+
+	for (const task of tasks) {
+		for (const dep of task.dependsOn ?? []) {
+			if (!byId.has(dep)) {
+				problems.push(`Task "${task.id}" depends on unknown task "${dep}"`);
+			}
+		}
+	}
+
+	// Depth-first search; a back edge to a node on the current path is a cycle
+	const visited = new Set<string>();
+	const path: string[] = [];
+	const onPath = new Set<string>();
+
+	const visit = (id: string): void => {
+		if (onPath.has(id)) {
+			const cycle = [...path.slice(path.indexOf(id)), id];
+			problems.push(`Dependency cycle: ${cycle.join(" -> ")}`);
+			return;
+		}
+		if (visited.has(id)) return;
+
+		visited.add(id);
+		onPath.add(id);
+		path.push(id);
+		for (const dep of byId.get(id)?.dependsOn ?? []) {
+			if (byId.has(dep)) visit(dep);
+		}
+		path.pop();
+		onPath.delete(id);
+	};
+
+	for (const task of tasks) {
+		visit(task.id);
+	}
+
+	if (problems.length > 0) {
+		throw new Error(`Invalid task dependencies:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+	}
+}
+
+/**
+ * Check if any of the tasks declare dependencies
+ */
+export function hasDependencies(tasks: Task[]): boolean {
+	return tasks.some((task) => task.dependsOn && task.dependsOn.length > 0);
+}
+
+/**
+ * Check if any of the tasks depend on a task
+ */
+export function hasDependents(tasks: Task[], id: string): boolean {
+	return tasks.some((task) => task.dependsOn?.includes(id));
+}
+
+/**
+ * Collect the tasks that depend on one of `sources`, directly or through each other
+ */
+function findDependents(remaining: Task[], sources: ReadonlySet<string>): Set<string> {
+	const dependents = new Set<string>();
+
+	// Propagate until nothing changes
+	let changed = true;
+	while (changed) {
+		changed = false;
+		for (const task of remaining) {
+			if (dependents.has(task.id) || sources.has(task.id)) continue;
+			const deps = task.dependsOn ?? [];
+			if (deps.some((dep) => sources.has(dep) || dependents.has(dep))) {
+				dependents.add(task.id);
+				changed = true;
+			}
+		}
+	}
+
+	return dependents;
+}
+
+/**
+ * Split remaining tasks by dependency state.
+ *
+ * - ready: every dependency has been completed (is no longer remaining)
+ * - blocked: a dependency failed, directly or through another blocked task
+ * - waiting: a dependency was left open for review (and none failed)
+ *
+ * Failed and open tasks, and tasks waiting on remaining (or running) dependencies,
+ * are in none of the lists.
+ */
+export function partitionByDependencies(
+	remaining: Task[],
+	failedIds: ReadonlySet<string>,
+	openIds: ReadonlySet<string> = new Set(),
+): { ready: Task[]; blocked: Task[]; waiting: Task[] } {
+	const remainingIds = new Set(remaining.map((task) => task.id));
+	const blockedIds = findDependents(remaining, failedIds);
+	const waitingIds = findDependents(remaining, openIds);
+
+	const ready: Task[] = [];
+	const blocked: Task[] = [];
+	const waiting: Task[] = [];
+	for (const task of remaining) {
+		if (failedIds.has(task.id) || openIds.has(task.id)) continue;
+		if (blockedIds.has(task.id)) {
+			blocked.push(task);
+		} else if (waitingIds.has(task.id)) {
+			waiting.push(task);
+		} else if (!(task.dependsOn ?? []).some((dep) => remainingIds.has(dep))) {
+			ready.push(task);
+		}
+	}
+
+	return { ready, blocked, waiting };
+}
@@ -5,6 +5,8 @@ export * from "./yaml.ts";
 export * from "./json.ts";
 export * from "./github.ts";
 export * from "./cached-task-source.ts";
+export * from "./dependencies.ts";
+export * from "./task-ids.ts";
 
 import { GitHubTaskSource } from "./github.ts";
 import { JsonTaskSource } from "./json.ts";
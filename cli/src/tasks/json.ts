@@ -1,10 +1,21 @@
 import { readFileSync, writeFileSync } from "node:fs";
+import { validateTaskDependencies } from "./dependencies.ts";
+import { type RawTaskBudget, toTaskBudget } from "./task-budget.ts";
+import { assignTaskIds, resolveTaskIds } from "./task-ids.ts";
+import { toTaskTimeouts } from "./task-timeouts.ts";
 import type { Task, TaskSource } from "./types.ts";
 
 interface JsonTask {
+	id?: string;
 	title: string;
 	completed?: boolean;
 	parallel_group?: number;
+	depends_on?: string[];
+	engine?: string;
+	model?: string;
+	budget?: RawTaskBudget;
+	timeout?: string | number;
+	idle_timeout?: string | number;
 	description?: string;
 }
 
@@ -43,27 +54,44 @@ export class JsonTaskSource implements TaskSource {
 		}
 	}
 
-	async getAllTasks(): Promise<Task[]> {
+	/**
+	 * Read all tasks, writing generated IDs back to the file the first time they
+	 * are assigned so they survive later edits to the task titles
+	 */
+	private loadTasks(): Task[] {
 		const data = this.readFile();
+		if (Array.isArray(data.tasks) && assignTaskIds(data.tasks)) {
+			this.writeFile(data);
+		}
+		return this.toTasks(data);
+	}
+
+	/**
+	 * Convert all tasks (including completed ones), resolving and validating IDs
+	 */
+	private toTasks(data: JsonTaskFile): Task[] {
 		if (!data.tasks || !Array.isArray(data.tasks)) {
 			throw new Error("Invalid JSON task file: 'tasks' array is required");
 		}
-		const titles = new Set<string>();
-		for (const task of data.tasks) {
-			if (titles.has(task.title)) {
-				throw new Error(`Duplicate JSON task title: ${task.title}`);
-			}
-			titles.add(task.title);
-		}
-		return data.tasks
-			.filter((task) => !task.completed)
-			.map((task) => ({
-				id: task.title,
-				title: task.title,
-				body: task.description,
-				parallelGroup: task.parallel_group,
-				completed: false,
-			}));
+		const ids = resolveTaskIds(data.tasks);
+		const tasks = data.tasks.map((task, i) => ({
+			id: ids[i],
+			title: task.title,
+			body: task.description,
+			parallelGroup: task.parallel_group,
+			dependsOn: task.depends_on,
+			engine: task.engine,
+			model: task.model,
+			budget: toTaskBudget(task.title, task.budget),
+			...toTaskTimeouts(task.title, task.timeout, task.idle_timeout),
+			completed: !!task.completed,
+		}));
+		validateTaskDependencies(tasks);
+		return tasks;
+	}
+
+	async getAllTasks(): Promise<Task[]> {
+		return this.loadTasks().filter((task) => !task.completed);
 	}
 
 	async getNextTask(): Promise<Task | null> {
@@ -73,13 +101,21 @@ export class JsonTaskSource implements TaskSource {
 
 	async markComplete(id: string): Promise<void> {
 		const data = this.readFile();
-		const task = data.tasks?.find((item) => item.title === id);
+		assignTaskIds(data.tasks || []);
+		const index = resolveTaskIds(data.tasks || []).indexOf(id);
+		const task = data.tasks?.[index];
 		if (task) {
 			task.completed = true;
 			this.writeFile(data);
 		}
 	}
 
+	async addTasks(titles: string[]): Promise<void> {
+		const data = this.readFile();
+		data.tasks = [...(data.tasks || []), ...titles.map((title) => ({ title, completed: false }))];
+		this.writeFile(data);
+	}
+
 	async countRemaining(): Promise<number> {
 		const data = this.readFile();
 		if (!data.tasks || !Array.isArray(data.tasks)) {
@@ -97,24 +133,13 @@ export class JsonTaskSource implements TaskSource {
 	}
 
 	async getTasksInGroup(group: number): Promise<Task[]> {
-		const data = this.readFile();
-		if (!data.tasks || !Array.isArray(data.tasks)) {
-			throw new Error("Invalid JSON task file: 'tasks' array is required");
-		}
-		return data.tasks
-			.filter((task) => !task.completed && (task.parallel_group || 0) === group)
-			.map((task) => ({
-				id: task.title,
-				title: task.title,
-				body: task.description,
-				parallelGroup: task.parallel_group,
-				completed: false,
-			}));
+		return this.loadTasks().filter(
+			(task) => !task.completed && (task.parallelGroup || 0) === group,
+		);
 	}
 
-	async getParallelGroup(title: string): Promise<number> {
-		const data = this.readFile();
-		const task = data.tasks?.find((item) => item.title === title);
-		return task?.parallel_group || 0;
+	async getParallelGroup(id: string): Promise<number> {
+		const task = this.loadTasks().find((item) => item.id === id);
+		return task?.parallelGroup || 0;
 	}
 }
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MarkdownFolderTaskSource } from "./markdown-folder.ts";
+
+describe("MarkdownFolderTaskSource front matter", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-md-folder-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("applies engine and model to the file's tasks", async () => {
+		writeFileSync(
+			join(dir, "a.md"),
+			"---\nengine: codex\nmodel: o3\n---\n# Hard\n- [ ] Refactor parser\n",
+		);
+		writeFileSync(join(dir, "b.md"), "- [ ] Fix typo\n");
+		const source = new MarkdownFolderTaskSource(dir);
+
+		const [hard, easy] = await source.getAllTasks();
+		expect(hard).toMatchObject({ id: "a.md:6", engine: "codex", model: "o3" });
+		expect(easy.engine).toBeUndefined();
+		expect(easy.model).toBeUndefined();
+
+		await source.markComplete(hard.id);
+		expect(readFileSync(join(dir, "a.md"), "utf-8")).toContain("- [x] Refactor parser");
+	});
+});
@@ -1,5 +1,6 @@
 import { readFileSync, readdirSync, statSync, writeFileSync } from "node:fs";
 import { basename, join } from "node:path";
+import YAML from "yaml";
 import type { Task, TaskSource } from "./types.ts";
 
 /**
@@ -9,6 +10,44 @@ function readFileNormalized(filePath: string): string {
 	return readFileSync(filePath, "utf-8").replace(/\r\n/g, "\n").replace(/\r/g, "\n");
 }
 
+/**
+ * Engine/model routing from a file's front matter, applied to all of its tasks
+ */
+interface FrontMatter {
+	engine?: string;
+	model?: string;
+	/** Index of the first line after the front matter */
+	bodyStart: number;
+}
+
+/**
+ * Parse optional YAML front matter (between leading `---` lines)
+ */
+function parseFrontMatter(lines: string[], filePath: string): FrontMatter {
+	if (lines[0]?.trim() !== "---") {
+		return { bodyStart: 0 };
+	}
+	const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+	if (end === -1) {
+		return { bodyStart: 0 };
+	}
+
+	let data: unknown;
+	try {
+		data = YAML.parse(lines.slice(1, end).join("\n"));
+	} catch (error) {
+		throw new Error(
+			`Invalid front matter in ${basename(filePath)}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	const fields = (data ?? {}) as Record<string, unknown>;
+	return {
+		engine: typeof fields.engine === "string" ? fields.engine : undefined,
+		model: typeof fields.model === "string" ? fields.model : undefined,
+		bodyStart: end + 1,
+	};
+}
+
 /**
  * Cached data for a single markdown file
  */
@@ -34,6 +73,7 @@ interface FolderCache {
 /**
  * Markdown folder task source - reads tasks from multiple markdown files in a folder
  * Each task ID includes the source file for proper tracking: "filename.md:lineNumber"
+ * Front matter with `engine:` and `model:` routes all tasks of a file to that engine/model.
  *
  * Performance optimized: caches all file contents and task counts to avoid
  * redundant file reads across getAllTasks(), countRemaining(), and countCompleted().
@@ -120,11 +160,12 @@ export class MarkdownFolderTaskSource implements TaskSource {
 			fileMtimes.set(filePath, this.getFileMtime(filePath));
 			const content = readFileNormalized(filePath);
 			const lines = content.split("\n");
+			const { engine, model, bodyStart } = parseFrontMatter(lines, filePath);
 			const incompleteTasks: Task[] = [];
 			let remainingCount = 0;
 			let completedCount = 0;
 
-			for (let i = 0; i < lines.length; i++) {
+			for (let i = bodyStart; i < lines.length; i++) {
 				const line = lines[i];
 
 				// Match incomplete tasks
@@ -133,6 +174,8 @@ export class MarkdownFolderTaskSource implements TaskSource {
 					const task = {
 						id: this.createTaskId(filePath, i + 1),
 						title: incompleteMatch[1].trim(),
+						...(engine && { engine }),
+						...(model && { model }),
 						completed: false,
 					};
 					incompleteTasks.push(task);
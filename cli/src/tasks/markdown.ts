@@ -136,6 +136,17 @@ export class MarkdownTaskSource implements TaskSource {
 		}
 	}
 
+	/**
+	 * Append "- [ ] title" lines; existing tasks keep their line numbers
+	 */
+	async addTasks(titles: string[]): Promise<void> {
+		const content = readFileNormalized(this.filePath);
+		const lines = titles.map((title) => `- [ ] ${title.replace(/\s+/g, " ")}`);
+		const separator = content === "" || content.endsWith("\n") ? "" : "\n";
+		writeFileSync(this.filePath, `${content}${separator}${lines.join("\n")}\n`, "utf-8");
+		this.invalidateCache();
+	}
+
 	async countRemaining(): Promise<number> {
 		return this.getCache().remainingCount;
 	}
@@ -0,0 +1,25 @@
+import type { TaskBudget } from "./types.ts";
+
+/**
+ * `budget:` field of a YAML/JSON task
+ */
+export interface RawTaskBudget {
+	max_cost?: number;
+	max_tokens?: number;
+}
+
+/**
+ * Convert a task's `budget:` field. Throws on limits that aren't positive numbers.
+ */
+export function toTaskBudget(title: string, raw?: RawTaskBudget): TaskBudget | undefined {
+	if (!raw) {
+		return undefined;
+	}
+
+	for (const [key, value] of Object.entries(raw)) {
+		if (typeof value !== "number" || !(value > 0)) {
+			throw new Error(`Task "${title}" has an invalid budget: ${key} must be a positive number`);
+		}
+	}
+	return { maxCost: raw.max_cost, maxTokens: raw.max_tokens };
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { JsonTaskSource } from "./json.ts";
+import { generateTaskId, resolveTaskIds } from "./task-ids.ts";
+import { YamlTaskSource } from "./yaml.ts";
+
+describe("resolveTaskIds", () => {
+	it("uses explicit ids when present", () => {
+		expect(resolveTaskIds([{ id: "setup", title: "Set up" }])).toEqual(["setup"]);
+	});
+
+	it("generates ids that do not depend on task position", () => {
+		const before = resolveTaskIds([{ title: "A" }, { title: "B" }]);
+		const after = resolveTaskIds([{ title: "New" }, { title: "B" }, { title: "A" }]);
+
+		expect(after[2]).toBe(before[0]);
+		expect(after[1]).toBe(before[1]);
+	});
+
+	it("suffixes repeated titles", () => {
+		const ids = resolveTaskIds([{ title: "Fix bug" }, { title: "Fix bug" }]);
+
+		expect(ids[0]).toBe(generateTaskId("Fix bug"));
+		expect(ids[1]).toBe(generateTaskId("Fix bug", 2));
+		expect(ids[0]).not.toBe(ids[1]);
+	});
+
+	it("counts titles that differ only in surrounding whitespace as repeats", () => {
+		const ids = resolveTaskIds([{ title: "Foo" }, { title: "Foo " }]);
+
+		expect(ids).toEqual([generateTaskId("Foo"), generateTaskId("Foo", 2)]);
+	});
+
+	it("throws on duplicate explicit ids", () => {
+		expect(() =>
+			resolveTaskIds([
+				{ id: "x", title: "One" },
+				{ id: "x", title: "Two" },
+			]),
+		).toThrow('Duplicate task id: x (task "Two")');
+	});
+});
+
+describe("task sources with stable ids", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "ralphy-task-ids-"));
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("marks the right YAML task complete when titles repeat", async () => {
+		const file = join(dir, "tasks.yaml");
+		writeFileSync(file, "tasks:\n  - title: Fix bug\n  - title: Fix bug\n");
+		const source = new YamlTaskSource(file);
+
+		const tasks = await source.getAllTasks();
+		expect(tasks).toHaveLength(2);
+
+		await source.markComplete(tasks[1].id);
+
+		expect(readFileSync(file, "utf-8")).toContain("completed: true");
+		const remaining = await source.getAllTasks();
+		expect(remaining.map((t) => t.id)).toEqual([tasks[0].id]);
+	});
+
+	it("writes generated YAML ids back so they survive a rename", async () => {
+		const file = join(dir, "tasks.yaml");
+		writeFileSync(file, "tasks:\n  - title: Add login\n  - id: docs\n    title: Write docs\n");
+		const source = new YamlTaskSource(file);
+
+		const [login] = await source.getAllTasks();
+		expect(login.id).toBe(generateTaskId("Add login"));
+		expect(readFileSync(file, "utf-8")).toBe(
+			`tasks:\n  - id: ${login.id}\n    title: Add login\n  - id: docs\n    title: Write docs\n`,
+		);
+
+		writeFileSync(file, readFileSync(file, "utf-8").replace("Add login", "Add OAuth login"));
+		expect((await source.getAllTasks()).map((t) => t.id)).toEqual([login.id, "docs"]);
+	});
+
+	it("writes generated JSON ids back so they survive a rename", async () => {
+		const file = join(dir, "tasks.json");
+		writeFileSync(file, JSON.stringify({ tasks: [{ title: "Add login" }] }));
+		const source = new JsonTaskSource(file);
+
+		const [login] = await source.getAllTasks();
+		const saved = JSON.parse(readFileSync(file, "utf-8"));
+		expect(saved.tasks).toEqual([{ id: login.id, title: "Add login" }]);
+
+		saved.tasks[0].title = "Add OAuth login";
+		writeFileSync(file, JSON.stringify(saved));
+		expect((await source.getAllTasks()).map((t) => t.id)).toEqual([login.id]);
+	});
+
+	it("allows repeated JSON titles and uses explicit ids", async () => {
+		const file = join(dir, "tasks.json");
+		writeFileSync(
+			file,
+			JSON.stringify({
+				tasks: [
+					{ id: "first", title: "Same" },
+					{ id: "second", title: "Same", parallel_group: 2 },
+				],
+			}),
+		);
+		const source = new JsonTaskSource(file);
+
+		expect((await source.getAllTasks()).map((t) => t.id)).toEqual(["first", "second"]);
+		expect(await source.getParallelGroup("second")).toBe(2);
+
+		await source.markComplete("first");
+		expect((await source.getAllTasks()).map((t) => t.id)).toEqual(["second"]);
+	});
+});
@@ -0,0 +1,60 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Generate a task ID from its title.
+ * Same-titled tasks get an occurrence suffix, so IDs stay stable when
+ * unrelated tasks are added, removed or reordered. Task sources persist the
+ * generated ID with assignTaskIds, so it also survives a later rename.
+ */
+export function generateTaskId(title: string, occurrence = 1): string {
+	const hash = createHash("sha256").update(title.trim()).digest("hex").slice(0, 8);
+	return occurrence > 1 ? `task-${hash}-${occurrence}` : `task-${hash}`;
+}
+
+/**
+ * Resolve the ID of every task in a file (explicit `id` or generated fallback).
+ * Throws if two tasks end up with the same ID.
+ */
+export function resolveTaskIds(tasks: Array<{ id?: string; title: string }>): string[] {
+	const titleCounts = new Map<string, number>();
+	const seen = new Set<string>();
+	const ids: string[] = [];
+
+	for (const task of tasks) {
+		let id = task.id;
+		if (!id) {
+			const title = task.title.trim();
+			const occurrence = (titleCounts.get(title) ?? 0) + 1;
+			titleCounts.set(title, occurrence);
+			id = generateTaskId(task.title, occurrence);
+		}
+
+		if (seen.has(id)) {
+			throw new Error(`Duplicate task id: ${id} (task "${task.title}")`);
+		}
+		seen.add(id);
+		ids.push(id);
+	}
+
+	return ids;
+}
+
+/**
+ * Give every task without an explicit `id` its generated one, in place, so the
+ * caller can write it back to the task file. Returns whether any ID was assigned.
+ */
+export function assignTaskIds<T extends { id?: string; title: string }>(tasks: T[]): boolean {
+	const ids = resolveTaskIds(tasks);
+	let assigned = false;
+
+	tasks.forEach((task, i) => {
+		if (!task.id) {
+			// Put the id first, where a hand-written one would be
+			const { id: _, ...rest } = task;
+			tasks[i] = { id: ids[i], ...rest } as T;
+			assigned = true;
+		}
+	});
+
+	return assigned;
+}
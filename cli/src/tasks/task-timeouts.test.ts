@@ -0,0 +1,26 @@
+import { describe, expect, it } from "bun:test";
+import { parseDuration, toTaskTimeouts } from "./task-timeouts.ts";
+
+describe("parseDuration", () => {
+	it("reads units and treats bare numbers as minutes", () => {
+		expect(parseDuration("90s")).toBe(90_000);
+		expect(parseDuration("1.5h")).toBe(5_400_000);
+		expect(parseDuration("500ms")).toBe(500);
+		expect(parseDuration(30)).toBe(1_800_000);
+	});
+
+	it("rejects zero and anything that isn't a duration", () => {
+		expect(parseDuration("0")).toBeUndefined();
+		expect(parseDuration("soon")).toBeUndefined();
+		expect(parseDuration("-5m")).toBeUndefined();
+	});
+});
+
+describe("toTaskTimeouts", () => {
+	it("converts timeout fields and names the task on bad values", () => {
+		expect(toTaskTimeouts("t", "45m")).toEqual({ timeoutMs: 2_700_000, idleTimeoutMs: undefined });
+		expect(() => toTaskTimeouts("t", undefined, "later")).toThrow(
+			'Task "t" has an invalid idle_timeout: "later" (use a duration like 90s, 30m or 1h)',
+		);
+	});
+});
@@ -0,0 +1,44 @@
+import type { Task } from "./types.ts";
+
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/i;
+
+const UNIT_MS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+
+/**
+ * Parse a duration such as `90s`, `30m` or `1.5h` into milliseconds. Bare numbers
+ * are minutes. Returns undefined for anything else, including zero.
+ */
+export function parseDuration(value: string | number): number | undefined {
+	const match = DURATION_PATTERN.exec(String(value).trim());
+	if (!match) {
+		return undefined;
+	}
+	const ms = Number.parseFloat(match[1]) * UNIT_MS[(match[2] ?? "m").toLowerCase()];
+	return ms > 0 ? Math.round(ms) : undefined;
+}
+
+/**
+ * Convert a task's `timeout:`/`idle_timeout:` fields. Throws on values that aren't durations.
+ */
+export function toTaskTimeouts(
+	title: string,
+	timeout?: string | number,
+	idleTimeout?: string | number,
+): Pick<Task, "timeoutMs" | "idleTimeoutMs"> {
+	const convert = (key: string, value?: string | number) => {
+		if (value === undefined) {
+			return undefined;
+		}
+		const ms = parseDuration(value);
+		if (ms === undefined) {
+			throw new Error(
+				`Task "${title}" has an invalid ${key}: "${value}" (use a duration like 90s, 30m or 1h)`,
+			);
+		}
+		return ms;
+	};
+	return {
+		timeoutMs: convert("timeout", timeout),
+		idleTimeoutMs: convert("idle_timeout", idleTimeout),
+	};
+}
@@ -2,7 +2,7 @@
  * A single task to be executed
  */
 export interface Task {
-	/** Unique identifier (line number for markdown, index for yaml, issue number for github) */
+	/** Unique identifier (line number for markdown, `id` or generated from title for yaml/json, issue number for github) */
 	id: string;
 	/** Task title/description */
 	title: string;
@@ -10,10 +10,31 @@ export interface Task {
 	body?: string;
 	/** Parallel group number (0 = sequential, >0 = can run in parallel with same group) */
 	parallelGroup?: number;
+	/** IDs of tasks that must complete before this one can start (yaml/json) */
+	dependsOn?: string[];
+	/** Engine to run this task with instead of the run's engine */
+	engine?: string;
+	/** Model to run this task with instead of the run's model */
+	model?: string;
+	/** Spend limits for this task (yaml/json) */
+	budget?: TaskBudget;
+	/** Wall-clock limit for each engine run, overriding --task-timeout (yaml/json) */
+	timeoutMs?: number;
+	/** Limit on engine silence, overriding --idle-timeout (yaml/json) */
+	idleTimeoutMs?: number;
 	/** Whether the task is completed */
 	completed: boolean;
 }
 
+/**
+ * Token and dollar limits. A run that reaches one starts no new tasks; a task that
+ * reaches its own is stopped and fails.
+ */
+export interface TaskBudget {
+	maxCost?: number;
+	maxTokens?: number;
+}
+
 /**
  * Task source type
  */
@@ -37,4 +58,8 @@ export interface TaskSource {
 	countCompleted(): Promise<number>;
 	/** Get tasks in a specific parallel group */
 	getTasksInGroup?(group: number): Promise<Task[]>;
+	/** Append new incomplete tasks to the end of the source */
+	addTasks?(titles: string[]): Promise<void>;
+	/** Write changes the source buffers (e.g. completions) to disk */
+	flush?(): Promise<void>;
 }
@@ -1,11 +1,22 @@
 import { readFileSync, writeFileSync } from "node:fs";
 import YAML from "yaml";
+import { validateTaskDependencies } from "./dependencies.ts";
+import { type RawTaskBudget, toTaskBudget } from "./task-budget.ts";
+import { assignTaskIds, resolveTaskIds } from "./task-ids.ts";
+import { toTaskTimeouts } from "./task-timeouts.ts";
 import type { Task, TaskSource } from "./types.ts";
 
 interface YamlTask {
+	id?: string;
 	title: string;
 	completed?: boolean;
 	parallel_group?: number;
+	depends_on?: string[];
+	engine?: string;
+	model?: string;
+	budget?: RawTaskBudget;
+	timeout?: string | number;
+	idle_timeout?: string | number;
 	description?: string;
 }
 
@@ -20,6 +31,15 @@ interface YamlTaskFile {
  *   - title: "Task description"
  *     completed: false
  *     parallel_group: 1  # optional
+ *     id: "setup"         # optional, generated from the title if omitted
+ *     depends_on: ["other-id"]  # optional
+ *     engine: codex       # optional, overrides the run's engine
+ *     model: "o3"         # optional, overrides the run's model
+ *     budget:             # optional, stops the run once this task reaches it
+ *       max_cost: 2.5
+ *       max_tokens: 500000
+ *     timeout: 45m        # optional, overrides --task-timeout
+ *     idle_timeout: 10m   # optional, overrides --idle-timeout
  */
 export class YamlTaskSource implements TaskSource {
 	type = "yaml" as const;
@@ -38,17 +58,42 @@ export class YamlTaskSource implements TaskSource {
 		writeFileSync(this.filePath, YAML.stringify(data), "utf-8");
 	}
 
-	async getAllTasks(): Promise<Task[]> {
+	/**
+	 * Read all tasks, writing generated IDs back to the file the first time they
+	 * are assigned so they survive later edits to the task titles
+	 */
+	private loadTasks(): Task[] {
 		const data = this.readFile();
-		return (data.tasks || [])
-			.filter((t) => !t.completed)
-			.map((t, i) => ({
-				id: t.title, // Use title as ID for YAML tasks
-				title: t.title,
-				body: t.description,
-				parallelGroup: t.parallel_group,
-				completed: false,
-			}));
+		if (assignTaskIds(data.tasks || [])) {
+			this.writeFile(data);
+		}
+		return this.toTasks(data);
+	}
+
+	/**
+	 * Convert all tasks (including completed ones), resolving and validating IDs
+	 */
+	private toTasks(data: YamlTaskFile): Task[] {
+		const yamlTasks = data.tasks || [];
+		const ids = resolveTaskIds(yamlTasks);
+		const tasks = yamlTasks.map((t, i) => ({
+			id: ids[i],
+			title: t.title,
+			body: t.description,
+			parallelGroup: t.parallel_group,
+			dependsOn: t.depends_on,
+			engine: t.engine,
+			model: t.model,
+			budget: toTaskBudget(t.title, t.budget),
+			...toTaskTimeouts(t.title, t.timeout, t.idle_timeout),
+			completed: !!t.completed,
+		}));
+		validateTaskDependencies(tasks);
+		return tasks;
+	}
+
+	async getAllTasks(): Promise<Task[]> {
+		return this.loadTasks().filter((t) => !t.completed);
 	}
 
 	async getNextTask(): Promise<Task | null> {
@@ -58,13 +103,21 @@ export class YamlTaskSource implements TaskSource {
 
 	async markComplete(id: string): Promise<void> {
 		const data = this.readFile();
-		const task = data.tasks?.find((t) => t.title === id);
+		assignTaskIds(data.tasks || []);
+		const index = resolveTaskIds(data.tasks || []).indexOf(id);
+		const task = data.tasks?.[index];
 		if (task) {
 			task.completed = true;
 			this.writeFile(data);
 		}
 	}
 
+	async addTasks(titles: string[]): Promise<void> {
+		const data = this.readFile();
+		data.tasks = [...(data.tasks || []), ...titles.map((title) => ({ title, completed: false }))];
+		this.writeFile(data);
+	}
+
 	async countRemaining(): Promise<number> {
 		const data = this.readFile();
 		return (data.tasks || []).filter((t) => !t.completed).length;
@@ -79,24 +132,14 @@ export class YamlTaskSource implements TaskSource {
 	 * Get tasks in a specific parallel group
 	 */
 	async getTasksInGroup(group: number): Promise<Task[]> {
-		const data = this.readFile();
-		return (data.tasks || [])
-			.filter((t) => !t.completed && (t.parallel_group || 0) === group)
-			.map((t) => ({
-				id: t.title,
-				title: t.title,
-				body: t.description,
-				parallelGroup: t.parallel_group,
-				completed: false,
-			}));
+		return this.loadTasks().filter((t) => !t.completed && (t.parallelGroup || 0) === group);
 	}
 
 	/**
 	 * Get the parallel group of a task
 	 */
-	async getParallelGroup(title: string): Promise<number> {
-		const data = this.readFile();
-		const task = data.tasks?.find((t) => t.title === title);
-		return task?.parallel_group || 0;
+	async getParallelGroup(id: string): Promise<number> {
+		const task = this.loadTasks().find((t) => t.id === id);
+		return task?.parallelGroup || 0;
 	}
 }
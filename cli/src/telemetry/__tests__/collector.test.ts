@@ -99,6 +99,19 @@ describe("TelemetryCollector", () => {
 		expect(toolCalls[0].success).toBe(true);
 	});
 
+	it("should keep tool calls of concurrent agents apart", () => {
+		collector.startToolCall("Read", undefined, "agent-1");
+		collector.startToolCall("Bash", undefined, "agent-2");
+		collector.endToolCall(false, "tool_error", undefined, "agent-1");
+		collector.endToolCall(true, undefined, undefined, "agent-2");
+
+		const { toolCalls } = collector.endSession();
+		expect(toolCalls.map((call) => [call.toolName, call.success])).toEqual([
+			["Read", false],
+			["Bash", true],
+		]);
+	});
+
 	it("should include full mode data when level is full", () => {
 		const fullCollector = new TelemetryCollector("claude", "single", {
 			level: "full",
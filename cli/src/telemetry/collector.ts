@@ -64,7 +64,8 @@ export class TelemetryCollector {
 
 	// Tool call tracking
 	private toolCalls: ToolCall[] = [];
-	private activeToolCall: ToolCallTracker | null = null;
+	/** In-progress tool calls by agent, so parallel agents don't end each other's calls */
+	private activeToolCalls = new Map<string, ToolCallTracker>();
 	private callIndex = 0;
 
 	// Full mode data
@@ -123,16 +124,17 @@ export class TelemetryCollector {
 
 	/**
 	 * Start tracking a tool call
+	 * @param agent - Agent making the call, when several run at once
 	 */
-	startToolCall(toolName: string, parameters?: Record<string, unknown>): void {
+	startToolCall(toolName: string, parameters?: Record<string, unknown>, agent = "main"): void {
 		this.callIndex++;
-		this.activeToolCall = {
+		this.activeToolCalls.set(agent, {
 			callIndex: this.callIndex,
 			startTime: Date.now(),
 			toolName,
 			parameterKeys: parameters ? Object.keys(parameters) : undefined,
 			parameters: this.level === "full" ? parameters : undefined,
-		};
+		});
 
 		// Track file paths in full mode
 		if (this.level === "full" && parameters) {
@@ -144,31 +146,32 @@ export class TelemetryCollector {
 	}
 
 	/**
-	 * Complete the current tool call
+	 * Complete the agent's current tool call
 	 */
-	endToolCall(success: boolean, errorType?: string, result?: string): void {
-		if (!this.activeToolCall) return;
+	endToolCall(success: boolean, errorType?: string, result?: string, agent = "main"): void {
+		const active = this.activeToolCalls.get(agent);
+		if (!active) return;
 
 		const endTime = Date.now();
 		const toolCall: ToolCall = {
 			sessionId: this.sessionId,
-			callIndex: this.activeToolCall.callIndex,
-			timestamp: this.activeToolCall.startTime,
-			toolName: this.activeToolCall.toolName,
-			durationMs: endTime - this.activeToolCall.startTime,
+			callIndex: active.callIndex,
+			timestamp: active.startTime,
+			toolName: active.toolName,
+			durationMs: endTime - active.startTime,
 			success,
 			errorType: success ? undefined : errorType,
-			parameterKeys: this.activeToolCall.parameterKeys,
+			parameterKeys: active.parameterKeys,
 		};
 
 		// Add full mode data
 		if (this.level === "full") {
-			toolCall.parameters = this.activeToolCall.parameters;
+			toolCall.parameters = active.parameters;
 			if (result) toolCall.result = result;
 		}
 
 		this.toolCalls.push(toolCall);
-		this.activeToolCall = null;
+		this.activeToolCalls.delete(agent);
 	}
 
 	/**
@@ -18,6 +18,7 @@
  *   await endTelemetry();
  */
 
+import type { AgentEvent } from "../engines/events.ts";
 import { TelemetryCollector } from "./collector.js";
 import { TelemetryExporter } from "./exporter.js";
 import type { ExportFormat, Session, SessionFull, TelemetryOptions, ToolCall } from "./types.js";
@@ -109,6 +110,25 @@ export function endToolCall(success: boolean, errorType?: string, result?: strin
 	collector?.endToolCall(success, errorType, result);
 }
 
+/**
+ * Record tool calls from an agent's event stream
+ *
+ * @param event - Event reported by a streaming engine
+ * @param agent - Agent that reported the event, when several run at once
+ */
+export function recordAgentEvent(event: AgentEvent, agent?: string): void {
+	if (event.type === "tool_call_start") {
+		collector?.startToolCall(event.tool, event.input, agent);
+	} else if (event.type === "tool_call_end") {
+		collector?.endToolCall(
+			event.success,
+			event.success ? undefined : "tool_error",
+			event.output,
+			agent,
+		);
+	}
+}
+
 /**
  * Record a complete tool call (start + end combined)
  *
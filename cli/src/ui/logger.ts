@@ -74,3 +74,10 @@ export function formatTokens(input: number, output: number): string {
 	if (total === 0) return "";
 	return pc.dim(`(${input.toLocaleString()} in / ${output.toLocaleString()} out)`);
 }
+
+/**
+ * Format a dollar amount, keeping sub-cent costs visible
+ */
+export function formatCost(usd: number): string {
+	return `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}